@@ -6,6 +6,7 @@ import 'hardhat-gas-reporter'
 import { HardhatUserConfig } from 'hardhat/config'
 import '@primitivefi/hardhat-dodoc'
 import '@nomiclabs/hardhat-etherscan'
+import './tasks'
 
 import { resolve } from 'path'
 import { config as dotenvConfig } from 'dotenv'
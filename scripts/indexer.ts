@@ -0,0 +1,39 @@
+import path from 'path'
+import hre from 'hardhat'
+import { createStore, getPools, loadStore, saveStore } from './indexer/store'
+import { syncStore } from './indexer/sync'
+
+/**
+ * Indexes the engines of a factory, their pools, positions, margins and swaps into a JSON store.
+ *
+ * @dev `FACTORY=<address> npx hardhat run scripts/indexer.ts --network localhost`
+ * Set INDEXER_FILE to the path of the store, INDEXER_FROM_BLOCK to the block the factory was deployed at,
+ * and INDEXER_POLL to the seconds between syncs to keep following the chain.
+ */
+async function main() {
+  const factory = process.env.FACTORY
+  if (!factory || !hre.ethers.utils.isAddress(factory)) throw new Error('Set FACTORY to the address of the factory')
+  const { chainId } = await hre.ethers.provider.getNetwork()
+  const file = process.env.INDEXER_FILE ?? path.join('.indexer', `${chainId}-${factory.toLowerCase()}.json`)
+  const poll = process.env.INDEXER_POLL ? +process.env.INDEXER_POLL : 0
+
+  const store =
+    loadStore(file, chainId, factory) ?? createStore(chainId, factory, +(process.env.INDEXER_FROM_BLOCK ?? 0))
+  for (;;) {
+    const indexed = await syncStore(hre.ethers.provider, store)
+    saveStore(file, store)
+    console.log(
+      `Indexed ${indexed} events up to block ${store.lastBlock}: ${Object.keys(store.engines).length} engines, ` +
+        `${getPools(store).length} pools in ${file}`
+    )
+    if (!poll) break
+    await new Promise((resolve) => setTimeout(resolve, poll * 1000))
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,219 @@
+import fs from 'fs'
+import path from 'path'
+import { BigNumber } from 'ethers'
+import { EngineHistory, EngineRecord } from '../../src/history'
+
+/** Arguments of the records which are integers too large for JSON numbers, stored as decimal strings. */
+const BIG_NUMBER_ARGS = ['strike', 'delRisky', 'delStable', 'delLiquidity', 'deltaIn', 'deltaOut']
+
+export interface PoolEntry {
+  poolId: string
+  strike: string
+  sigma: number
+  maturity: number
+  gamma: number
+  creator: string
+  createdAtBlock: number
+  reserveRisky: string
+  reserveStable: string
+  liquidity: string
+}
+
+export interface PositionEntry {
+  account: string
+  poolId: string
+  liquidity: string
+}
+
+export interface MarginEntry {
+  account: string
+  balanceRisky: string
+  balanceStable: string
+}
+
+export interface SwapEntry {
+  poolId: string
+  from: string
+  recipient: string
+  riskyForStable: boolean
+  deltaIn: string
+  deltaOut: string
+  fromMargin: boolean
+  toMargin: boolean
+  blockNumber: number
+  transactionHash: string
+}
+
+export interface EngineEntry {
+  address: string
+  risky: string
+  stable: string
+  /** Account which called the factory's `deploy` */
+  deployer: string
+  deployedAtBlock: number
+  minLiquidity: string
+  /** Records of the engine's events, with integers as decimal strings */
+  records: EngineRecord[]
+  pools: PoolEntry[]
+  positions: PositionEntry[]
+  margins: MarginEntry[]
+  swaps: SwapEntry[]
+}
+
+/**
+ * Index of the engines deployed by a factory, stored as JSON.
+ */
+export interface IndexStore {
+  chainId: number
+  factory: string
+  /** Last block which was indexed, or -1 if none */
+  lastBlock: number
+  engines: { [address: string]: EngineEntry }
+}
+
+export function createStore(chainId: number, factory: string, fromBlock = 0): IndexStore {
+  return { chainId, factory, lastBlock: fromBlock - 1, engines: {} }
+}
+
+/**
+ * Loads a store from disk, or returns undefined if the file does not exist.
+ * @throws if the store is of another chain or factory, as its blocks would not match
+ */
+export function loadStore(file: string, chainId: number, factory: string): IndexStore | undefined {
+  if (!fs.existsSync(file)) return undefined
+  const store: IndexStore = JSON.parse(fs.readFileSync(file, 'utf8'))
+  if (store.chainId !== chainId || store.factory.toLowerCase() !== factory.toLowerCase())
+    throw new Error(`Store ${file} indexes factory ${store.factory} of chain ${store.chainId}`)
+  for (const engine of Object.values(store.engines)) engine.records = engine.records.map(reviveRecord)
+  return store
+}
+
+export function saveStore(file: string, store: IndexStore): void {
+  const engines = Object.fromEntries(
+    Object.entries(store.engines).map(([address, engine]) => [
+      address,
+      { ...engine, records: engine.records.map(serializeRecord) },
+    ])
+  )
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify({ ...store, engines }, undefined, 2))
+}
+
+/**
+ * Derives the pools, positions, margins and swaps of an engine by replaying its records.
+ */
+export function updateViews(engine: EngineEntry): void {
+  const state = new EngineHistory(engine.address, engine.minLiquidity, engine.records).at()
+
+  engine.pools = engine.records.flatMap((record) => {
+    if (record.name !== 'Create') return []
+    const { poolId, from, strike, sigma, maturity, gamma } = record.args
+    const { reserveRisky, reserveStable, liquidity } = state.reserves(poolId)
+    return [
+      {
+        poolId,
+        strike: strike.toString(),
+        sigma,
+        maturity,
+        gamma,
+        creator: from,
+        createdAtBlock: record.blockNumber,
+        reserveRisky: reserveRisky.toString(),
+        reserveStable: reserveStable.toString(),
+        liquidity: liquidity.toString(),
+      },
+    ]
+  })
+
+  const accounts = new Set(engine.records.flatMap(getAccounts).map((account) => account.toLowerCase()))
+
+  engine.positions = [...accounts].flatMap((account) =>
+    state.poolIds
+      .map((poolId) => ({ account, poolId, liquidity: state.liquidity(account, poolId).toString() }))
+      .filter((position) => position.liquidity !== '0')
+  )
+  engine.margins = [...accounts]
+    .map((account) => {
+      const { balanceRisky, balanceStable } = state.margins(account)
+      return { account, balanceRisky: balanceRisky.toString(), balanceStable: balanceStable.toString() }
+    })
+    .filter((margin) => margin.balanceRisky !== '0' || margin.balanceStable !== '0')
+  engine.swaps = engine.records.flatMap((record) =>
+    record.name === 'Swap'
+      ? [
+          {
+            ...record.args,
+            deltaIn: record.args.deltaIn.toString(),
+            deltaOut: record.args.deltaOut.toString(),
+            blockNumber: record.blockNumber,
+            transactionHash: record.transactionHash,
+          },
+        ]
+      : []
+  )
+}
+
+/** Pools of every engine, or of one engine. */
+export function getPools(store: IndexStore, engine?: string): (PoolEntry & { engine: string })[] {
+  return selectEngines(store, engine).flatMap((entry) =>
+    entry.pools.map((pool) => ({ ...pool, engine: entry.address }))
+  )
+}
+
+/** Positions of an account in every engine. */
+export function getPositions(store: IndexStore, account: string): (PositionEntry & { engine: string })[] {
+  return Object.values(store.engines).flatMap((entry) =>
+    entry.positions
+      .filter((position) => position.account === account.toLowerCase())
+      .map((position) => ({ ...position, engine: entry.address }))
+  )
+}
+
+/** Margins of an account in every engine. */
+export function getMargins(store: IndexStore, account: string): (MarginEntry & { engine: string })[] {
+  return Object.values(store.engines).flatMap((entry) =>
+    entry.margins
+      .filter((margin) => margin.account === account.toLowerCase())
+      .map((margin) => ({ ...margin, engine: entry.address }))
+  )
+}
+
+/** Swaps of every pool, or of one pool. */
+export function getSwaps(store: IndexStore, poolId?: string): (SwapEntry & { engine: string })[] {
+  return Object.values(store.engines).flatMap((entry) =>
+    entry.swaps.filter((swap) => !poolId || swap.poolId === poolId).map((swap) => ({ ...swap, engine: entry.address }))
+  )
+}
+
+function selectEngines(store: IndexStore, engine?: string): EngineEntry[] {
+  return Object.values(store.engines).filter((entry) => !engine || entry.address.toLowerCase() === engine.toLowerCase())
+}
+
+/** Accounts whose margins or positions a record can change. */
+function getAccounts(record: EngineRecord): string[] {
+  switch (record.name) {
+    case 'Create':
+    case 'Remove':
+      return [record.args.from]
+    case 'Deposit':
+    case 'Withdraw':
+    case 'Allocate':
+    case 'Swap':
+      return [record.args.from, record.args.recipient]
+    case 'UpdateLastTimestamp':
+      return []
+  }
+}
+
+/** Writes the integers of a record as decimal strings, which `JSON.stringify` would write as `{ type, hex }`. */
+function serializeRecord(record: EngineRecord): EngineRecord {
+  const args: any = { ...record.args }
+  for (const key of BIG_NUMBER_ARGS) if (key in args) args[key] = args[key].toString()
+  return { ...record, args }
+}
+
+function reviveRecord(record: EngineRecord): EngineRecord {
+  const args: any = { ...record.args }
+  for (const key of BIG_NUMBER_ARGS) if (key in args) args[key] = BigNumber.from(args[key])
+  return { ...record, args }
+}
@@ -0,0 +1,80 @@
+import { providers, utils } from 'ethers'
+import { IPrimitiveEngine__factory, PrimitiveFactory__factory } from '../../typechain'
+import { decodeEngineRecords } from '../../src/history'
+import { IndexStore, updateViews } from './store'
+
+/** Topic of the ERC20 `Transfer` event. */
+const TRANSFER_TOPIC = utils.id('Transfer(address,address,uint256)')
+
+export interface SyncOptions {
+  /** Last block to index, defaults to the latest block */
+  toBlock?: number
+  /** Blocks per `eth_getLogs` request */
+  batchSize?: number
+}
+
+/**
+ * Indexes the engines deployed by the factory of a store and their events, from the block after its last block.
+ *
+ * @remarks
+ * Engines are discovered from the `DeployEngine` events of the factory. The `Transfer` logs of their tokens to or from
+ * the engine are fetched with their events, to infer if allocates and swaps used margins.
+ *
+ * @returns number of the engine's events which were indexed.
+ */
+export async function syncStore(
+  provider: providers.Provider,
+  store: IndexStore,
+  { toBlock, batchSize = 2000 }: SyncOptions = {}
+): Promise<number> {
+  const factory = PrimitiveFactory__factory.connect(store.factory, provider)
+  const lastBlock = toBlock ?? (await provider.getBlockNumber())
+  const updated = new Set<string>()
+  let indexed = 0
+
+  for (let from = store.lastBlock + 1; from <= lastBlock; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, lastBlock)
+
+    const deploys = await factory.queryFilter(factory.filters.DeployEngine(), from, to)
+    for (const { args, blockNumber } of deploys) {
+      const minLiquidity = await IPrimitiveEngine__factory.connect(args.engine, provider).MIN_LIQUIDITY()
+      store.engines[args.engine] = {
+        address: args.engine,
+        risky: args.risky,
+        stable: args.stable,
+        deployer: args.from,
+        deployedAtBlock: blockNumber,
+        minLiquidity: minLiquidity.toString(),
+        records: [],
+        pools: [],
+        positions: [],
+        margins: [],
+        swaps: [],
+      }
+    }
+
+    for (const engine of Object.values(store.engines)) {
+      const topic = utils.hexZeroPad(engine.address, 32)
+      const filters = [
+        { address: engine.address },
+        ...[engine.risky, engine.stable].flatMap((token) => [
+          { address: token, topics: [TRANSFER_TOPIC, topic] },
+          { address: token, topics: [TRANSFER_TOPIC, null, topic] },
+        ]),
+      ]
+      const logs = (
+        await Promise.all(filters.map((filter) => provider.getLogs({ ...filter, fromBlock: from, toBlock: to })))
+      ).flat()
+      const records = decodeEngineRecords(engine.address, logs, engine)
+      if (records.length === 0) continue
+      engine.records.push(...records)
+      indexed += records.length
+      updated.add(engine.address)
+    }
+
+    store.lastBlock = to
+  }
+
+  for (const address of updated) updateViews(store.engines[address])
+  return indexed
+}
@@ -0,0 +1,191 @@
+import { callDelta, callPremium } from '@primitivefi/rmm-math'
+import { Wei } from 'web3-units'
+import { Calibration } from './calibration'
+import { PERCENTAGE, VirtualPool } from './virtualPool'
+
+/** Value of a liquidity position at a reference price, in floats. */
+export interface PositionValue {
+  /** Risky tokens of the position's share of the reserves. */
+  risky: number
+  /** Stable tokens of the position's share of the reserves. */
+  stable: number
+  /** Value of the risky and stable tokens in stable tokens. */
+  value: number
+}
+
+/** Difference of a pool's reserves per liquidity from the covered call they replicate. */
+export interface ReplicationError {
+  /** Value of one unit of liquidity in stable tokens. */
+  value: number
+  /** Black-Scholes value of a covered call, the reference price less the call premium. */
+  theoreticalValue: number
+  /** Value less the theoretical value. */
+  valueError: number
+  /** Risky reserves per liquidity, the delta of the pool's position. */
+  delta: number
+  /** Black-Scholes delta of a covered call, 1 less the call delta. */
+  theoreticalDelta: number
+  /** Delta less the theoretical delta. */
+  deltaError: number
+}
+
+/** State of a pool at a point in time, to compute the PnL between two of them. */
+export interface PoolSnapshot {
+  pool: VirtualPool
+  referencePrice: number
+}
+
+/** Fees paid to a pool, in floats of each token. */
+export interface Fees {
+  risky: number
+  stable: number
+}
+
+/** Change in the value of a liquidity position between two snapshots, in stable tokens. */
+export interface PnL {
+  /** Change in the mark-to-market value of the position. */
+  total: number
+  /** Change in the covered call value from the change in the reference price. */
+  market: number
+  /** Change in the covered call value from the passing of time. */
+  theta: number
+  /** Value of the position's share of the fees paid to the pool, at the later reference price. */
+  fees: number
+  /** Remainder of the total, which the pool did not replicate. */
+  trackingError: number
+}
+
+/**
+ * Computes the fee of a swap, which is paid to the pool as the part of deltaIn which is not fee adjusted.
+ *
+ * @param cal Calibration of the pool, with its gamma.
+ * @param deltaIn Amount of tokens paid to the pool by the swap, fee included.
+ *
+ * @returns fee Amount of deltaIn times 1 - gamma, rounded like the engine.
+ *
+ * @beta
+ */
+export function getSwapFee(cal: Calibration, deltaIn: Wei): Wei {
+  return deltaIn.sub(deltaIn.mul(cal.gamma.raw).div(PERCENTAGE))
+}
+
+/**
+ * Computes the fees paid to a pool between two of its states, from the difference of their fee ledgers.
+ *
+ * @param before Earlier state of the pool.
+ * @param after Later state of the pool, e.g. the pool returned by a sequence of virtual swaps.
+ *
+ * @returns fees paid to the pool, as floats of each token.
+ *
+ * @beta
+ */
+export function getFeesBetween(before: VirtualPool, after: VirtualPool): Fees {
+  return {
+    risky: after.feesRisky.sub(before.feesRisky).float,
+    stable: after.feesStable.sub(before.feesStable).float,
+  }
+}
+
+/**
+ * Computes the mark-to-market value of a liquidity position.
+ *
+ * @param pool Pool of the position.
+ * @param liquidity Liquidity of the position.
+ * @param referencePrice Price of the risky asset in the stable asset, as a float.
+ *
+ * @returns position's share of the pool's reserves and their value.
+ *
+ * @beta
+ */
+export function getPositionValue(pool: VirtualPool, liquidity: Wei, referencePrice: number): PositionValue {
+  const share = liquidity.float / pool.liquidity.float
+  const risky = pool.reserveRisky.float * share
+  const stable = pool.reserveStable.float * share
+  return { risky, stable, value: risky * referencePrice + stable }
+}
+
+/**
+ * Computes the Black-Scholes value of one unit of a covered call, which the pool's reserves per liquidity replicate.
+ *
+ * @param cal Calibration of the pool.
+ * @param referencePrice Price of the risky asset in the stable asset, as a float.
+ * @param tau Years until expiry, defaults to the calibration's tau.
+ *
+ * @returns value of the reference price less the call premium, like `Calibration.premium` at `referencePrice`.
+ *
+ * @beta
+ */
+export function getCoveredCallValue(cal: Calibration, referencePrice: number, tau = cal.tau.years): number {
+  return referencePrice - callPremium(cal.strike.float, cal.sigma.float, tau, referencePrice)
+}
+
+/**
+ * Compares the value and delta of a pool's reserves per liquidity to the covered call they replicate.
+ *
+ * @param pool Pool to measure, priced with its tau.
+ * @param referencePrice Price of the risky asset in the stable asset, as a float.
+ *
+ * @returns replication error of one unit of liquidity.
+ *
+ * @beta
+ */
+export function getReplicationError(pool: VirtualPool, referencePrice: number): ReplicationError {
+  const { cal } = pool
+  const tau = pool.tau.years
+  const { value, risky: delta } = getPositionValue(pool, pool.liquidity, referencePrice)
+  const liquidity = pool.liquidity.float
+
+  const theoreticalValue = getCoveredCallValue(cal, referencePrice, tau)
+  const theoreticalDelta = 1 - callDelta(cal.strike.float, cal.sigma.float, tau, referencePrice)
+  return {
+    value: value / liquidity,
+    theoreticalValue,
+    valueError: value / liquidity - theoreticalValue,
+    delta: delta / liquidity,
+    theoreticalDelta,
+    deltaError: delta / liquidity - theoreticalDelta,
+  }
+}
+
+/**
+ * Breaks down the PnL of a liquidity position between two snapshots of its pool.
+ *
+ * @remarks
+ * The covered call value is revalued at the later tau for the market PnL, and at the earlier reference price for the
+ * theta PnL. Fees are already part of the reserves, so the tracking error is what remains of the total.
+ *
+ * @param before Earlier snapshot of the pool.
+ * @param after Later snapshot of the pool.
+ * @param liquidity Liquidity of the position, held in both snapshots.
+ * @param fees Fees paid to the pool between the snapshots, defaults to the difference of their fee ledgers.
+ *
+ * @returns PnL of the position in stable tokens.
+ *
+ * @beta
+ */
+export function getPnL(
+  before: PoolSnapshot,
+  after: PoolSnapshot,
+  liquidity: Wei,
+  fees: Fees = getFeesBetween(before.pool, after.pool)
+): PnL {
+  const { cal } = after.pool
+  const [tauBefore, tauAfter] = [before.pool.tau.years, after.pool.tau.years]
+  const units = liquidity.float
+
+  const total =
+    getPositionValue(after.pool, liquidity, after.referencePrice).value -
+    getPositionValue(before.pool, liquidity, before.referencePrice).value
+  const market =
+    units *
+    (getCoveredCallValue(cal, after.referencePrice, tauAfter) -
+      getCoveredCallValue(cal, before.referencePrice, tauAfter))
+  const theta =
+    units *
+    (getCoveredCallValue(cal, before.referencePrice, tauAfter) -
+      getCoveredCallValue(cal, before.referencePrice, tauBefore))
+  const share = liquidity.float / after.pool.liquidity.float
+  const feeValue = share * (fees.risky * after.referencePrice + fees.stable)
+
+  return { total, market, theta, fees: feeValue, trackingError: total - market - theta - feeValue }
+}
@@ -0,0 +1,284 @@
+import { parseWei, Percentage, Time, Wei, toBN, parsePercentage } from 'web3-units'
+import { callDelta, callPremium, getSpotPriceApproximation } from '@primitivefi/rmm-math'
+import { computePoolId } from './utils'
+import { Greeks, getReplicatedGreeks } from './greeks'
+import { EngineTypes } from '../types'
+import { IERC20__factory } from '../typechain'
+
+/** Maximum strike price, as the engine stores it in a uint128. */
+export const MAX_STRIKE = toBN(2).pow(128).sub(1)
+
+/** Maximum sigma accepted by the engine, with 4 precision. */
+export const MAX_SIGMA = 1e7
+
+/** Minimum gamma accepted by the engine, equal to a 10% fee. */
+export const MIN_GAMMA = 9000
+
+/**
+ * Names of the `IPrimitiveEngineErrors` custom errors which `create` reverts with for invalid parameters.
+ */
+export type CalibrationErrorName =
+  | 'SigmaError'
+  | 'StrikeError'
+  | 'MinLiquidityError'
+  | 'RiskyPerLpError'
+  | 'GammaError'
+  | 'PoolExpiredError'
+
+/**
+ * Custom error which the engine would revert `create` with.
+ *
+ * @remarks
+ * The params are formatted like the arguments of the `revertWithCustomError` matcher.
+ */
+export interface CalibrationValidationError {
+  name: CalibrationErrorName
+  params: string[]
+}
+
+/**
+ * Constructs a Calibration entity from floating point decimal numbers.
+ *
+ * @remarks
+ * Converts to proper units, e.g. a floating point number to a wei value for the strike price.
+ *
+ * @returns calibration entity of the parameters.
+ *
+ * @beta
+ */
+export function parseCalibration(
+  strike: number,
+  sigma: number,
+  maturity: number,
+  gamma: number,
+  lastTimestamp: number,
+  referencePrice = 0,
+  decimalsRisky = 18,
+  decimalsStable = 18
+): Calibration {
+  const cal = {
+    strike: parseWei(strike, decimalsStable),
+    sigma: parsePercentage(sigma),
+    maturity: new Time(maturity), // in seconds, because `block.timestamp` is in seconds
+    lastTimestamp: new Time(lastTimestamp), // in seconds, because `block.timestamp` is in seconds
+    gamma: parsePercentage(gamma),
+    referencePrice: parseWei(referencePrice, decimalsStable),
+  }
+  return new Calibration(
+    cal.strike,
+    cal.sigma,
+    cal.maturity,
+    cal.lastTimestamp,
+    cal.referencePrice,
+    cal.gamma,
+    decimalsRisky,
+    decimalsStable
+  )
+}
+
+/**
+ * @notice Calibration Struct; Class representation of each Curve's parameters
+ */
+export class Calibration {
+  /** Strike price with the same precision as the stable asset. */
+  readonly strike: Wei
+
+  /** Volatility as a Percentage instance with 4 precision. */
+  readonly sigma: Percentage
+
+  /** Time class with a raw value in seconds. */
+  readonly maturity: Time
+
+  /** Gamma, equal to 1 - fee %, as a Percentage instance with 4 precision. */
+  readonly gamma: Percentage
+
+  /** Time until expiry is calculated from the difference of current timestamp and this. */
+  public readonly lastTimestamp: Time
+
+  /** Price of risky token in stable token units with precision stable decimals. */
+  public readonly referencePrice: Wei
+
+  /** Decimals of risky asset. */
+  public readonly decimalsRisky: number
+
+  /** Decimals of stable asset. */
+  public readonly decimalsStable: number
+
+  /**
+   *
+   * @param strike          Strike price as a float
+   * @param sigma           Volatility percentage as a float, e.g. 1 = 100%
+   * @param maturity        Timestamp in seconds
+   * @param lastTimestamp   Timestamp in seconds
+   * @param referencePrice  Value of risky asset in units of stable asset
+   */
+  constructor(
+    strike: Wei,
+    sigma: Percentage,
+    maturity: Time,
+    lastTimestamp: Time,
+    referencePrice: Wei,
+    gamma: Percentage,
+    decimalsRisky: number = 18,
+    decimalsStable: number = 18
+  ) {
+    this.strike = strike
+    this.sigma = sigma
+    this.maturity = maturity
+    this.lastTimestamp = lastTimestamp
+    this.referencePrice = referencePrice
+    this.gamma = gamma
+    this.decimalsRisky = decimalsRisky
+    this.decimalsStable = decimalsStable
+  }
+
+  /**
+   * Fetches the calibration of a pool from a deployed engine.
+   *
+   * @param engine Engine contract which created the pool.
+   * @param poolId Keccak256 hash of the engine address and calibration parameters.
+   * @param referencePrice Price of the risky asset in the stable asset as a float. The engine does not store it, and
+   * only the greeks, delta and premium of the calibration are priced with it, so it defaults to the spot price
+   * reported by the reserves of the pool at its lastTimestamp.
+   *
+   * @returns calibration of the pool, with the decimals of the engine's tokens.
+   */
+  static async fromEngine(engine: EngineTypes, poolId: string, referencePrice?: number): Promise<Calibration> {
+    const [cal, reserve, risky, stable] = await Promise.all([
+      engine.calibrations(poolId),
+      engine.reserves(poolId),
+      engine.risky(),
+      engine.stable(),
+    ])
+    if (cal.lastTimestamp === 0) throw new Error(`UninitializedError(${poolId})`)
+
+    const [decimalsRisky, decimalsStable] = await Promise.all(
+      [risky, stable].map((token) => IERC20__factory.connect(token, engine.provider).decimals())
+    )
+    const strike = new Wei(cal.strike, decimalsStable)
+    const sigma = new Percentage(toBN(cal.sigma))
+    const [maturity, lastTimestamp] = [new Time(cal.maturity), new Time(cal.lastTimestamp)]
+    if (typeof referencePrice === 'undefined') {
+      const riskyPerLiquidity =
+        new Wei(reserve.reserveRisky, decimalsRisky).float / new Wei(reserve.liquidity, 18).float
+      const tau = maturity.sub(lastTimestamp).years
+      referencePrice = getSpotPriceApproximation(riskyPerLiquidity, strike.float, sigma.float, tau)
+      if (!Number.isFinite(referencePrice))
+        throw new Error(`Pool ${poolId} has no spot price to default the reference price to`)
+    }
+
+    return new Calibration(
+      strike,
+      sigma,
+      maturity,
+      lastTimestamp,
+      parseWei(referencePrice, decimalsStable),
+      new Percentage(toBN(cal.gamma)),
+      decimalsRisky,
+      decimalsStable
+    )
+  }
+
+  /**
+   * @notice Scaling factor of risky asset, 18 - risky decimals
+   */
+  get scaleFactorRisky(): number {
+    return Math.pow(10, 18 - this.decimalsRisky)
+  }
+
+  /**
+   * @notice Scaling factor of stable asset, 18 - stable decimals
+   */
+  get scaleFactorStable(): number {
+    return Math.pow(10, 18 - this.decimalsStable)
+  }
+
+  get MIN_LIQUIDITY(): number {
+    return (this.decimalsStable > this.decimalsRisky ? this.decimalsRisky : this.decimalsStable) / 6
+  }
+
+  /**
+   * @returns Time until expiry
+   */
+  get tau(): Time {
+    return this.maturity.sub(this.lastTimestamp)
+  }
+
+  /**
+   * @returns Change in pool premium wrt change in underlying referencePrice price
+   */
+  get delta(): number {
+    return callDelta(this.strike.float, this.sigma.float, this.tau.years, this.referencePrice.float)
+  }
+
+  /**
+   * @returns Black-Scholes implied premium
+   */
+  get premium(): number {
+    return callPremium(this.strike.float, this.sigma.float, this.tau.years, this.referencePrice.float)
+  }
+
+  /**
+   * @param liquidity Amount of liquidity to scale the greeks by, as a float
+   * @returns Greeks of the covered call replicated by the pool's liquidity, priced at the reference price
+   */
+  greeks(liquidity = 1): Greeks {
+    return getReplicatedGreeks(
+      this.strike.float,
+      this.sigma.float,
+      this.tau.years,
+      this.referencePrice.float,
+      liquidity
+    )
+  }
+
+  /**
+   * @returns Spot price is above strike price
+   */
+  get inTheMoney(): boolean {
+    return this.strike.float >= this.referencePrice.float
+  }
+
+  /**
+   * Applies the checks of the engine's `create`, in the same order, to this calibration.
+   *
+   * @param riskyPerLp Risky reserves per 1e18 liquidity, checked if defined.
+   * @param delLiquidity Initial liquidity, checked against the `MIN_LIQUIDITY` if defined.
+   *
+   * @returns errors the engine would revert with, the first one being the actual revert, or none if valid.
+   */
+  validate(riskyPerLp?: Wei, delLiquidity?: Wei): CalibrationValidationError[] {
+    const errors: CalibrationValidationError[] = []
+    const fail = (name: CalibrationErrorName, ...params: string[]) => errors.push({ name, params })
+
+    if (this.sigma.raw.gt(MAX_SIGMA) || this.sigma.raw.lt(1)) fail('SigmaError', this.sigma.raw.toString())
+    if (this.strike.raw.lte(0) || this.strike.raw.gt(MAX_STRIKE)) fail('StrikeError', this.strike.raw.toString())
+    if (delLiquidity && delLiquidity.raw.lte(toBN(10).pow(Math.floor(this.MIN_LIQUIDITY))))
+      fail('MinLiquidityError', delLiquidity.raw.toString())
+    if (riskyPerLp && (riskyPerLp.raw.lte(0) || riskyPerLp.raw.gt(parseWei(1, this.decimalsRisky).raw)))
+      fail('RiskyPerLpError', riskyPerLp.raw.toString())
+    if (this.gamma.raw.gt(10 ** Percentage.Mantissa) || this.gamma.raw.lt(MIN_GAMMA))
+      fail('GammaError', this.gamma.raw.toString())
+    if (this.lastTimestamp.gt(this.maturity.raw)) fail('PoolExpiredError')
+
+    return errors
+  }
+
+  /**
+   * Throws the first error of `validate`, formatted like the engine's custom error.
+   */
+  assertValid(riskyPerLp?: Wei, delLiquidity?: Wei): void {
+    const [error] = this.validate(riskyPerLp, delLiquidity)
+    if (error) throw new Error(`${error.name}(${error.params.join(', ')})`)
+  }
+
+  poolId(engine: string): string {
+    return computePoolId(
+      engine,
+      this.strike.toString(),
+      this.sigma.toString(),
+      this.maturity.toString(),
+      this.gamma.toString()
+    )
+  }
+}
@@ -0,0 +1,118 @@
+import { BigNumber, providers, utils } from 'ethers'
+import { IPrimitiveEngineEvents__factory } from '../typechain'
+
+/** Events of the engine. */
+export const ENGINE_EVENTS = new utils.Interface(IPrimitiveEngineEvents__factory.abi)
+
+export interface CreateEvent {
+  from: string
+  strike: BigNumber
+  sigma: number
+  maturity: number
+  gamma: number
+  delRisky: BigNumber
+  delStable: BigNumber
+  delLiquidity: BigNumber
+}
+
+export interface UpdateLastTimestampEvent {
+  poolId: string
+}
+
+export interface DepositEvent {
+  from: string
+  recipient: string
+  delRisky: BigNumber
+  delStable: BigNumber
+}
+
+export interface WithdrawEvent {
+  from: string
+  recipient: string
+  delRisky: BigNumber
+  delStable: BigNumber
+}
+
+export interface AllocateEvent {
+  from: string
+  recipient: string
+  poolId: string
+  delRisky: BigNumber
+  delStable: BigNumber
+  delLiquidity: BigNumber
+}
+
+export interface RemoveEvent {
+  from: string
+  poolId: string
+  delRisky: BigNumber
+  delStable: BigNumber
+  delLiquidity: BigNumber
+}
+
+export interface SwapEvent {
+  from: string
+  recipient: string
+  poolId: string
+  riskyForStable: boolean
+  deltaIn: BigNumber
+  deltaOut: BigNumber
+}
+
+/** Arguments of the engine's events, by name. */
+export interface EngineEventArgs {
+  Create: CreateEvent
+  UpdateLastTimestamp: UpdateLastTimestampEvent
+  Deposit: DepositEvent
+  Withdraw: WithdrawEvent
+  Allocate: AllocateEvent
+  Remove: RemoveEvent
+  Swap: SwapEvent
+}
+
+export type EngineEventName = keyof EngineEventArgs
+
+/** Event of the engine with a name, decoded from a log, with its arguments by name. */
+export interface EngineEventOf<Name extends EngineEventName> {
+  name: Name
+  args: EngineEventArgs[Name]
+  log: providers.Log
+}
+
+/** Event of the engine decoded from a log, with its arguments by name. */
+export type EngineEvent = {
+  [Name in EngineEventName]: EngineEventOf<Name>
+}[EngineEventName]
+
+/**
+ * Decodes the logs emitted by an engine, skipping the logs of other contracts, e.g. token transfers.
+ *
+ * @param engine Address of the engine.
+ * @param logs Logs of a receipt or a filter.
+ *
+ * @returns events of the engine, in the order of the logs.
+ *
+ * @beta
+ */
+export function decodeEngineLogs(engine: string, logs: providers.Log[]): EngineEvent[] {
+  return logs
+    .filter((log) => log.address.toLowerCase() === engine.toLowerCase())
+    .map((log) => {
+      const parsed = ENGINE_EVENTS.parseLog(log)
+      const args = Object.fromEntries(parsed.eventFragment.inputs.map((input, i) => [input.name, parsed.args[i]]))
+      return { name: parsed.name, args, log } as EngineEvent
+    })
+}
+
+/**
+ * Filters the events with a name, typing their arguments.
+ *
+ * @beta
+ */
+export function filterEngineEvents<Name extends EngineEventName>(
+  events: EngineEvent[],
+  name: Name
+): EngineEventOf<Name>[] {
+  // the union of the events does not narrow by a generic name
+  return events.filter((event) => event.name === name) as EngineEventOf<Name>[]
+}
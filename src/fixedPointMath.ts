@@ -0,0 +1,466 @@
+import { BigNumber, BigNumberish, constants } from 'ethers'
+
+/**
+ * Port of the fixed point math libraries used by the PrimitiveEngine.
+ *
+ * @remarks
+ * Each function mirrors its Solidity counterpart, including the rounding direction and the conditions it reverts on.
+ * Models built on top of these functions compute the same wei amounts as the smart contracts.
+ */
+
+const MIN_64x64 = BigNumber.from('-0x80000000000000000000000000000000')
+const MAX_64x64 = BigNumber.from('0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF')
+const MAX_UINT128 = BigNumber.from('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF')
+const TWO_64 = BigNumber.from(2).pow(64)
+const TWO_128 = BigNumber.from(2).pow(128)
+
+/** Factors multiplied into the result of `exp_2`, ordered from the most to the least significant fractional bit. */
+const EXP_2_FACTORS: BigNumber[] = [
+  '0x16A09E667F3BCC908B2FB1366EA957D3E',
+  '0x1306FE0A31B7152DE8D5A46305C85EDEC',
+  '0x1172B83C7D517ADCDF7C8C50EB14A791F',
+  '0x10B5586CF9890F6298B92B71842A98363',
+  '0x1059B0D31585743AE7C548EB68CA417FD',
+  '0x102C9A3E778060EE6F7CACA4F7A29BDE8',
+  '0x10163DA9FB33356D84A66AE336DCDFA3F',
+  '0x100B1AFA5ABCBED6129AB13EC11DC9543',
+  '0x10058C86DA1C09EA1FF19D294CF2F679B',
+  '0x1002C605E2E8CEC506D21BFC89A23A00F',
+  '0x100162F3904051FA128BCA9C55C31E5DF',
+  '0x1000B175EFFDC76BA38E31671CA939725',
+  '0x100058BA01FB9F96D6CACD4B180917C3D',
+  '0x10002C5CC37DA9491D0985C348C68E7B3',
+  '0x1000162E525EE054754457D5995292026',
+  '0x10000B17255775C040618BF4A4ADE83FC',
+  '0x1000058B91B5BC9AE2EED81E9B7D4CFAB',
+  '0x100002C5C89D5EC6CA4D7C8ACC017B7C9',
+  '0x10000162E43F4F831060E02D839A9D16D',
+  '0x100000B1721BCFC99D9F890EA06911763',
+  '0x10000058B90CF1E6D97F9CA14DBCC1628',
+  '0x1000002C5C863B73F016468F6BAC5CA2B',
+  '0x100000162E430E5A18F6119E3C02282A5',
+  '0x1000000B1721835514B86E6D96EFD1BFE',
+  '0x100000058B90C0B48C6BE5DF846C5B2EF',
+  '0x10000002C5C8601CC6B9E94213C72737A',
+  '0x1000000162E42FFF037DF38AA2B219F06',
+  '0x10000000B17217FBA9C739AA5819F44F9',
+  '0x1000000058B90BFCDEE5ACD3C1CEDC823',
+  '0x100000002C5C85FE31F35A6A30DA1BE50',
+  '0x10000000162E42FF0999CE3541B9FFFCF',
+  '0x100000000B17217F80F4EF5AADDA45554',
+  '0x10000000058B90BFBF8479BD5A81B51AD',
+  '0x1000000002C5C85FDF84BD62AE30A74CC',
+  '0x100000000162E42FEFB2FED257559BDAA',
+  '0x1000000000B17217F7D5A7716BBA4A9AE',
+  '0x100000000058B90BFBE9DDBAC5E109CCE',
+  '0x10000000002C5C85FDF4B15DE6F17EB0D',
+  '0x1000000000162E42FEFA494F1478FDE05',
+  '0x10000000000B17217F7D20CF927C8E94C',
+  '0x1000000000058B90BFBE8F71CB4E4B33D',
+  '0x100000000002C5C85FDF477B662B26945',
+  '0x10000000000162E42FEFA3AE53369388C',
+  '0x100000000000B17217F7D1D351A389D40',
+  '0x10000000000058B90BFBE8E8B2D3D4EDE',
+  '0x1000000000002C5C85FDF4741BEA6E77E',
+  '0x100000000000162E42FEFA39FE95583C2',
+  '0x1000000000000B17217F7D1CFB72B45E1',
+  '0x100000000000058B90BFBE8E7CC35C3F0',
+  '0x10000000000002C5C85FDF473E242EA38',
+  '0x1000000000000162E42FEFA39F02B772C',
+  '0x10000000000000B17217F7D1CF7D83C1A',
+  '0x1000000000000058B90BFBE8E7BDCBE2E',
+  '0x100000000000002C5C85FDF473DEA871F',
+  '0x10000000000000162E42FEFA39EF44D91',
+  '0x100000000000000B17217F7D1CF79E949',
+  '0x10000000000000058B90BFBE8E7BCE544',
+  '0x1000000000000002C5C85FDF473DE6ECA',
+  '0x100000000000000162E42FEFA39EF366F',
+  '0x1000000000000000B17217F7D1CF79AFA',
+  '0x100000000000000058B90BFBE8E7BCD6D',
+  '0x10000000000000002C5C85FDF473DE6B2',
+  '0x1000000000000000162E42FEFA39EF358',
+  '0x10000000000000000B17217F7D1CF79AB',
+].map((factor) => BigNumber.from(factor))
+
+/** Throws in place of a Solidity `require` statement reverting. */
+function check(condition: boolean, fn: string): void {
+  if (!condition) throw new Error(`${fn} reverted`)
+}
+
+/**
+ * Arithmetic right shift, rounding towards negative infinity like `>>` on a signed Solidity integer.
+ */
+function sar(x: BigNumber, bits: number): BigNumber {
+  const divisor = BigNumber.from(2).pow(bits)
+  if (!x.isNegative()) return x.div(divisor)
+  return x.add(1).div(divisor).sub(1)
+}
+
+function inRange64x64(x: BigNumber): boolean {
+  return x.gte(MIN_64x64) && x.lte(MAX_64x64)
+}
+
+/** Signed 64.64 fixed point functions, copied from ABDKMath64x64.sol. */
+export class ABDKMath64x64 {
+  static add(x: BigNumber, y: BigNumber): BigNumber {
+    const result = x.add(y)
+    check(inRange64x64(result), 'add')
+    return result
+  }
+
+  static sub(x: BigNumber, y: BigNumber): BigNumber {
+    const result = x.sub(y)
+    check(inRange64x64(result), 'sub')
+    return result
+  }
+
+  /** Calculates x * y rounding down. */
+  static mul(x: BigNumber, y: BigNumber): BigNumber {
+    const result = sar(x.mul(y), 64)
+    check(inRange64x64(result), 'mul')
+    return result
+  }
+
+  /** Calculates x * y rounding down, where y is an unsigned 256-bit integer. */
+  static mulu(x: BigNumber, y: BigNumber): BigNumber {
+    if (y.isZero()) return y
+    check(!x.isNegative(), 'mulu')
+    const result = x.mul(y).div(TWO_64)
+    check(result.lte(constants.MaxUint256), 'mulu')
+    return result
+  }
+
+  /** Calculates x / y rounding towards zero. */
+  static div(x: BigNumber, y: BigNumber): BigNumber {
+    check(!y.isZero(), 'div')
+    const result = x.mul(TWO_64).div(y)
+    check(inRange64x64(result), 'div')
+    return result
+  }
+
+  /**
+   * Calculates x / y rounding towards zero, where x and y are unsigned 256-bit integers.
+   *
+   * @remarks
+   * The contract takes a longer path to avoid an overflow when x exceeds 192 bits, which is exact as well.
+   */
+  static divu(x: BigNumber, y: BigNumber): BigNumber {
+    check(!y.isZero(), 'divu')
+    const result = x.mul(TWO_64).div(y)
+    check(result.lte(MAX_UINT128), 'divu')
+    check(result.lte(MAX_64x64), 'divu')
+    return result
+  }
+
+  static neg(x: BigNumber): BigNumber {
+    check(!x.eq(MIN_64x64), 'neg')
+    return x.mul(-1)
+  }
+
+  static abs(x: BigNumber): BigNumber {
+    check(!x.eq(MIN_64x64), 'abs')
+    return x.abs()
+  }
+
+  /** Calculates sqrt(x) rounding down. */
+  static sqrt(x: BigNumber): BigNumber {
+    check(!x.isNegative(), 'sqrt')
+    return ABDKMath64x64.sqrtu(x.shl(64))
+  }
+
+  /** Calculates the binary logarithm of x. */
+  static log_2(x: BigNumber): BigNumber {
+    check(x.gt(0), 'log_2')
+
+    let msb = 0
+    let xc = x
+    for (const bits of [64, 32, 16, 8, 4, 2]) {
+      if (xc.gte(BigNumber.from(2).pow(bits))) {
+        xc = xc.shr(bits)
+        msb += bits
+      }
+    }
+    if (xc.gte(2)) msb += 1
+
+    let result = BigNumber.from(msb - 64).mul(TWO_64)
+    let ux = x.shl(127 - msb)
+    for (let bit = BigNumber.from('0x8000000000000000'); bit.gt(0); bit = bit.shr(1)) {
+      ux = ux.mul(ux)
+      const b = ux.shr(255)
+      ux = ux.shr(127 + b.toNumber())
+      result = result.add(bit.mul(b))
+    }
+
+    return result
+  }
+
+  /** Calculates the natural logarithm of x. */
+  static ln(x: BigNumber): BigNumber {
+    check(x.gt(0), 'ln')
+    return sar(ABDKMath64x64.log_2(x).mul('0xB17217F7D1CF79ABC9E3B39803F2F6AF'), 128)
+  }
+
+  /** Calculates the binary exponent of x. */
+  static exp_2(x: BigNumber): BigNumber {
+    check(x.lt('0x400000000000000000'), 'exp_2')
+    if (x.lt('-0x400000000000000000')) return constants.Zero
+
+    // the contract masks the two's complement representation of x
+    const bits = x.isNegative() ? x.add(TWO_128) : x
+    let result = BigNumber.from('0x80000000000000000000000000000000')
+    EXP_2_FACTORS.forEach((factor, i) => {
+      if (!bits.and(BigNumber.from(2).pow(63 - i)).isZero()) result = result.mul(factor).shr(128)
+    })
+
+    result = result.shr(63 - sar(x, 64).toNumber())
+    check(result.lte(MAX_64x64), 'exp_2')
+    return result
+  }
+
+  /** Calculates the natural exponent of x. */
+  static exp(x: BigNumber): BigNumber {
+    check(x.lt('0x400000000000000000'), 'exp')
+    if (x.lt('-0x400000000000000000')) return constants.Zero
+    return ABDKMath64x64.exp_2(sar(x.mul('0x171547652B82FE1777D0FFDA0D23A7D12'), 128))
+  }
+
+  /** Calculates sqrt(x) rounding down, where x is an unsigned 256-bit integer. */
+  private static sqrtu(x: BigNumber): BigNumber {
+    if (x.isZero()) return x
+
+    let xx = x
+    let r = BigNumber.from(1)
+    for (const bits of [128, 64, 32, 16, 8, 4]) {
+      if (xx.gte(BigNumber.from(2).pow(bits))) {
+        xx = xx.shr(bits)
+        r = r.shl(bits / 2)
+      }
+    }
+    if (xx.gte(8)) r = r.shl(1)
+
+    for (let i = 0; i < 7; i++) r = r.add(x.div(r)).shr(1) // Seven iterations should be enough
+    const r1 = x.div(r)
+    return r.lt(r1) ? r : r1
+  }
+}
+
+/** Approximations of the standard normal distribution, copied from CumulativeNormalDistribution.sol. */
+export class CumulativeNormalDistribution {
+  static readonly ONE_INT = BigNumber.from('0x10000000000000000')
+  static readonly HALF_INT = BigNumber.from('0x8000000000000000')
+  static readonly CDF0 = BigNumber.from('0x53dd02a4f5ee2e46')
+  static readonly CDF1 = BigNumber.from('0x413c831bb169f874')
+  static readonly CDF2 = BigNumber.from('-0x48d4c730f051a5fe')
+  static readonly CDF3 = BigNumber.from('0x16a09e667f3bcc908')
+  static readonly CDF4 = BigNumber.from('-0x17401c57014c38f14')
+  static readonly CDF5 = BigNumber.from('0x10fb844255a12d72e')
+  static readonly INVERSE0 = BigNumber.from('0x26A8F3C1F21B336E')
+  static readonly INVERSE1 = BigNumber.from('-0x87C57E5DA70D3C90')
+  static readonly INVERSE2 = BigNumber.from('0x15D71F5721242C787')
+  static readonly INVERSE3 = BigNumber.from('0x21D0A04B0E9B94F1')
+  static readonly INVERSE4 = BigNumber.from('-0xC2BF5D74C724E53F')
+  static readonly LOW_TAIL = BigNumber.from('0x666666666666666')
+  static readonly HIGH_TAIL = BigNumber.from('0xF999999999999999')
+  static readonly C0_D = BigNumber.from('0x10AEAC93F55267A9A5')
+  static readonly C1_D = BigNumber.from('0x41ED34A2561490236')
+  static readonly C2_D = BigNumber.from('0x7A1E70F720ECA43')
+  static readonly C3 = BigNumber.from('-0x1000BF627FA188411')
+  static readonly D0 = BigNumber.from('0x72C7D592D021FB1DB')
+  static readonly D1 = BigNumber.from('0x8C27B4617F5F800EA')
+
+  /**
+   * @returns Standard normal cumulative distribution function of `x`, using the Abramowitz and Stegun approximation.
+   */
+  static getCDF(x: BigNumber): BigNumber {
+    const { ONE_INT, HALF_INT, CDF0, CDF3 } = CumulativeNormalDistribution
+    const z = ABDKMath64x64.div(x, CDF3)
+    const t = ABDKMath64x64.div(ONE_INT, ABDKMath64x64.add(ONE_INT, ABDKMath64x64.mul(CDF0, ABDKMath64x64.abs(z))))
+    let erf = CumulativeNormalDistribution.getErrorFunction(z, t)
+    if (z.isNegative()) erf = ABDKMath64x64.neg(erf)
+    return ABDKMath64x64.mul(HALF_INT, ABDKMath64x64.add(ONE_INT, erf))
+  }
+
+  /**
+   * @returns Error function used to approximate the standard normal cumulative distribution function.
+   */
+  static getErrorFunction(z: BigNumber, t: BigNumber): BigNumber {
+    const { ONE_INT, CDF1, CDF2, CDF3, CDF4, CDF5 } = CumulativeNormalDistribution
+    const { add, sub, mul, neg, exp } = ABDKMath64x64
+    const step1 = mul(t, add(CDF3, mul(t, add(CDF4, mul(t, CDF5)))))
+    const step2 = add(CDF1, mul(t, add(CDF2, step1)))
+    return sub(ONE_INT, mul(t, mul(step2, exp(neg(mul(z, z))))))
+  }
+
+  /**
+   * @returns Inverse cumulative distribution function, or quantile function, of `p`.
+   */
+  static getInverseCDF(p: BigNumber): BigNumber {
+    const { ONE_INT, LOW_TAIL, HIGH_TAIL } = CumulativeNormalDistribution
+    if (p.gte(ONE_INT) || p.lte(0)) throw new Error(`InverseOutOfBounds(${p.toString()})`)
+    if (p.lte(HIGH_TAIL) && p.gte(LOW_TAIL)) return CumulativeNormalDistribution.central(p)
+    else if (p.lt(LOW_TAIL)) return CumulativeNormalDistribution.tail(p)
+    return CumulativeNormalDistribution.tail(ABDKMath64x64.sub(ONE_INT, p)).mul(-1)
+  }
+
+  /**
+   * @returns Inverse cumulative distribution function around the central area of 0.025 <= p <= 0.975.
+   */
+  static central(p: BigNumber): BigNumber {
+    const { HALF_INT, INVERSE0, INVERSE1, INVERSE2, INVERSE3, INVERSE4 } = CumulativeNormalDistribution
+    const { add, sub, mul, div } = ABDKMath64x64
+    const q = sub(p, HALF_INT)
+    const r = mul(q, q)
+    return mul(q, add(INVERSE2, div(add(mul(INVERSE1, r), INVERSE0), add(add(mul(r, r), mul(INVERSE4, r)), INVERSE3))))
+  }
+
+  /**
+   * @returns Inverse cumulative distribution function of the tail, used with p < 0.025.
+   */
+  static tail(p: BigNumber): BigNumber {
+    const { ONE_INT, C0_D, C1_D, C2_D, C3, D0, D1 } = CumulativeNormalDistribution
+    const { add, mul, div, ln, sqrt } = ABDKMath64x64
+    const r = sqrt(ln(div(ONE_INT, mul(p, p))))
+    const step0 = add(mul(C3, r), C2_D)
+    const numerator = add(mul(C1_D, r), C0_D)
+    const denominator = add(add(mul(r, r), mul(D1, r)), D0)
+    return add(step0, div(numerator, denominator))
+  }
+}
+
+/** Unit conversions, copied from Units.sol. */
+export class Units {
+  /** Seconds in a year used by the contracts, which differs from the `Time` class of web3-units. */
+  static readonly YEAR = 31556952
+  static readonly PRECISION = BigNumber.from(10).pow(18)
+  static readonly PERCENTAGE = 1e4
+
+  /** Converts a wei value with native decimals into a signed 64.64 fixed point number. */
+  static scaleToX64(value: BigNumberish, factor: BigNumberish): BigNumber {
+    return ABDKMath64x64.divu(BigNumber.from(value), Units.PRECISION.div(factor))
+  }
+
+  /** Converts a signed 64.64 fixed point number into a wei value with native decimals. */
+  static scaleFromX64(value: BigNumber, factor: BigNumberish): BigNumber {
+    return ABDKMath64x64.mulu(value, Units.PRECISION.div(factor))
+  }
+
+  /** Converts a percentage with a precision of 1e4 into a signed 64.64 fixed point number. */
+  static percentageToX64(denorm: BigNumberish): BigNumber {
+    return ABDKMath64x64.divu(BigNumber.from(denorm), BigNumber.from(Units.PERCENTAGE))
+  }
+
+  /** Converts seconds into years as a signed 64.64 fixed point number. */
+  static toYears(s: BigNumberish): BigNumber {
+    return ABDKMath64x64.divu(BigNumber.from(s), BigNumber.from(Units.YEAR))
+  }
+}
+
+/** Trading function of the RMM-01 curve, copied from ReplicationMath.sol. */
+export class ReplicationMath {
+  static readonly ONE_INT = BigNumber.from('0x10000000000000000')
+
+  /**
+   * @param sigma Volatility with a precision of 1e4.
+   * @param tau Time until expiry in seconds.
+   * @returns Signed 64.64 fixed point number equal to sigma * sqrt(tau).
+   */
+  static getProportionalVolatility(sigma: BigNumberish, tau: BigNumberish): BigNumber {
+    const sqrtTauX64 = ABDKMath64x64.sqrt(Units.toYears(tau))
+    const sigmaX64 = Units.percentageToX64(sigma)
+    return ABDKMath64x64.mul(sigmaX64, sqrtTauX64)
+  }
+
+  /**
+   * Computes stable reserves per liquidity given risky reserves per liquidity.
+   *
+   * @param invariantLastX64 Signed 64.64 fixed point invariant, computed with the same `tau`.
+   * @param scaleFactorRisky Scaling factor of the risky token, 10^(18 - risky decimals).
+   * @param scaleFactorStable Scaling factor of the stable token, 10^(18 - stable decimals).
+   * @param riskyPerLiquidity Risky reserves per liquidity, with risky decimals.
+   * @param strike Strike price, with stable decimals.
+   * @param sigma Volatility with a precision of 1e4.
+   * @param tau Time until expiry in seconds.
+   *
+   * @returns Stable reserves per liquidity, with stable decimals.
+   */
+  static getStableGivenRisky(
+    invariantLastX64: BigNumberish,
+    scaleFactorRisky: BigNumberish,
+    scaleFactorStable: BigNumberish,
+    riskyPerLiquidity: BigNumberish,
+    strike: BigNumberish,
+    sigma: BigNumberish,
+    tau: BigNumberish
+  ): BigNumber {
+    const { add, sub, mul } = ABDKMath64x64
+    const invariant = BigNumber.from(invariantLastX64)
+    const strikeX64 = Units.scaleToX64(strike, scaleFactorStable)
+    const riskyX64 = Units.scaleToX64(riskyPerLiquidity, scaleFactorRisky)
+    const oneMinusRiskyX64 = sub(ReplicationMath.ONE_INT, riskyX64)
+    if (!BigNumber.from(tau).isZero()) {
+      const volX64 = ReplicationMath.getProportionalVolatility(sigma, tau)
+      const phi = CumulativeNormalDistribution.getInverseCDF(oneMinusRiskyX64)
+      const input = sub(phi, volX64)
+      const stableX64 = add(mul(strikeX64, CumulativeNormalDistribution.getCDF(input)), invariant)
+      return Units.scaleFromX64(stableX64, scaleFactorStable)
+    }
+    return Units.scaleFromX64(add(mul(strikeX64, oneMinusRiskyX64), invariant), scaleFactorStable)
+  }
+
+  /**
+   * Computes risky reserves per liquidity given stable reserves per liquidity.
+   *
+   * @remarks
+   * The engine never computes this direction, so this is copied from the TestRouter.sol lens.
+   *
+   * @returns Risky reserves per liquidity, with risky decimals.
+   */
+  static getRiskyGivenStable(
+    invariantLastX64: BigNumberish,
+    scaleFactorRisky: BigNumberish,
+    scaleFactorStable: BigNumberish,
+    stablePerLiquidity: BigNumberish,
+    strike: BigNumberish,
+    sigma: BigNumberish,
+    tau: BigNumberish
+  ): BigNumber {
+    const { add, sub, div } = ABDKMath64x64
+    const strikeX64 = Units.scaleToX64(strike, scaleFactorStable)
+    const volX64 = ReplicationMath.getProportionalVolatility(sigma, tau)
+    const stableX64 = Units.scaleToX64(stablePerLiquidity, scaleFactorStable)
+    const phi = CumulativeNormalDistribution.getInverseCDF(
+      div(sub(stableX64, BigNumber.from(invariantLastX64)), strikeX64)
+    )
+    const input = add(phi, volX64)
+    const riskyX64 = sub(ReplicationMath.ONE_INT, CumulativeNormalDistribution.getCDF(input))
+    return Units.scaleFromX64(riskyX64, scaleFactorRisky)
+  }
+
+  /**
+   * Computes the invariant of a curve, per unit of liquidity.
+   *
+   * @returns Signed 64.64 fixed point number equal to stablePerLiquidity - K * CDF(CDF^-1(1 - riskyPerLiquidity) - sigma * sqrt(tau)).
+   */
+  static calcInvariant(
+    scaleFactorRisky: BigNumberish,
+    scaleFactorStable: BigNumberish,
+    riskyPerLiquidity: BigNumberish,
+    stablePerLiquidity: BigNumberish,
+    strike: BigNumberish,
+    sigma: BigNumberish,
+    tau: BigNumberish
+  ): BigNumber {
+    const output = ReplicationMath.getStableGivenRisky(
+      0,
+      scaleFactorRisky,
+      scaleFactorStable,
+      riskyPerLiquidity,
+      strike,
+      sigma,
+      tau
+    )
+    const outputX64 = Units.scaleToX64(output, scaleFactorStable)
+    const stableX64 = Units.scaleToX64(stablePerLiquidity, scaleFactorStable)
+    return ABDKMath64x64.sub(stableX64, outputX64)
+  }
+}
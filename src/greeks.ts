@@ -0,0 +1,59 @@
+import { getD1AndD2, std_n_cdf, std_n_pdf } from '@primitivefi/rmm-math'
+
+/**
+ * Sensitivities of the payoff replicated by an RMM-01 pool, a covered call, in units of the stable asset.
+ */
+export interface Greeks {
+  /** Change in value per change in the reference price, equal to the risky reserves per liquidity. */
+  delta: number
+  /** Change in delta per change in the reference price. */
+  gamma: number
+  /** Change in value per change in sigma, e.g. from 1 = 100% to 2 = 200%. */
+  vega: number
+  /** Change in value per year passing. */
+  theta: number
+  /** Change in value per change in the risk free rate, e.g. from 0 to 1 = 100%. */
+  rho: number
+}
+
+/**
+ * Computes the Black-Scholes greeks of a covered call, which a unit of liquidity in an RMM-01 pool replicates.
+ *
+ * @remarks
+ * The pool's reserves per liquidity are 1 - Φ(d1) risky and K * Φ(d2) stable, so its value is the reference price
+ * minus a call premium with a zero rate. Every greek other than delta is the negated greek of the call.
+ *
+ * @param strike Strike price as a float.
+ * @param sigma Implied volatility as a float, e.g. 1 = 100%.
+ * @param tau Time until expiry in years.
+ * @param referencePrice Price of the risky asset in the stable asset as a float.
+ * @param liquidity Amount of liquidity to scale the greeks by, as a float.
+ *
+ * @returns greeks of `liquidity` units of the replicated payoff.
+ *
+ * @beta
+ */
+export function getReplicatedGreeks(
+  strike: number,
+  sigma: number,
+  tau: number,
+  referencePrice: number,
+  liquidity = 1
+): Greeks {
+  if (tau <= 0) {
+    // at expiry the payoff is min(referencePrice, strike)
+    const delta = referencePrice < strike ? liquidity : 0
+    return { delta, gamma: 0, vega: 0, theta: 0, rho: 0 }
+  }
+
+  const { d1, d2 } = getD1AndD2(strike, sigma, tau, referencePrice)
+  const sqrtTau = Math.sqrt(tau)
+  const density = std_n_pdf(d1)
+  return {
+    delta: liquidity * (1 - std_n_cdf(d1)),
+    gamma: (-liquidity * density) / (referencePrice * sigma * sqrtTau),
+    vega: -liquidity * referencePrice * density * sqrtTau,
+    theta: (liquidity * referencePrice * density * sigma) / (2 * sqrtTau),
+    rho: -liquidity * strike * tau * std_n_cdf(d2),
+  }
+}
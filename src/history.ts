@@ -0,0 +1,286 @@
+import { BigNumber, BigNumberish, constants, providers, utils } from 'ethers'
+import { computePoolId } from './utils'
+import { decodeEngineLogs, EngineEventArgs, EngineEventName } from './engineEvents'
+
+/** Topic of the ERC20 `Transfer` event. */
+const TRANSFER_TOPIC = utils.id('Transfer(address,address,uint256)')
+
+/** Arguments which are not in the events, recomputed or inferred when decoding them. */
+export interface EngineRecordExtras {
+  Create: { poolId: string }
+  UpdateLastTimestamp: {}
+  Deposit: {}
+  Withdraw: {}
+  /** True if the liquidity was paid for with the margin of `from` */
+  Allocate: { fromMargin: boolean }
+  /** True if the swap was paid for with the margin of `from`, or paid out to the margin of `recipient` */
+  Swap: { fromMargin: boolean; toMargin: boolean }
+  Remove: {}
+}
+
+/** Event of an engine with the position of its log, and the arguments which are not in the event. */
+export type EngineRecord = {
+  [Name in EngineEventName]: {
+    name: Name
+    args: EngineEventArgs[Name] & EngineRecordExtras[Name]
+    blockNumber: number
+    transactionHash: string
+    logIndex: number
+  }
+}[EngineEventName]
+
+/** Calibration of a pool, as emitted by its `Create` event. */
+export interface CalibrationRecord {
+  strike: BigNumber
+  sigma: number
+  maturity: number
+  gamma: number
+}
+
+/** Reserves of a pool, without the timestamps and cumulative reserves which are not in the events. */
+export interface ReserveRecord {
+  reserveRisky: BigNumber
+  reserveStable: BigNumber
+  liquidity: BigNumber
+}
+
+export interface MarginRecord {
+  balanceRisky: BigNumber
+  balanceStable: BigNumber
+}
+
+/**
+ * Decodes the events of an engine into records, from the logs of receipts or filters.
+ *
+ * @remarks
+ * Whether allocates and swaps used margins is not in their events, so it is inferred from the token transfers to or
+ * from the engine in the same transaction since its previous event, which the engine makes for every payment that does
+ * not use a margin. The logs must include the `Transfer` logs of the tokens, like the logs of a receipt do.
+ *
+ * @param engine Address of the engine.
+ * @param input Logs or receipts, in any order.
+ * @param tokens Addresses of the risky and stable tokens of the engine.
+ *
+ * @returns records of the engine's events, in the order they were emitted.
+ *
+ * @beta
+ */
+export function decodeEngineRecords(
+  engine: string,
+  input: (providers.Log | providers.TransactionReceipt)[],
+  tokens: { risky: string; stable: string }
+): EngineRecord[] {
+  const logs = input
+    .flatMap((item) => ('logs' in item ? item.logs : [item]))
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+  const [risky, stable] = [tokens.risky.toLowerCase(), tokens.stable.toLowerCase()]
+  const isEngine = (topic: string) => utils.hexDataSlice(topic, 12).toLowerCase() === engine.toLowerCase()
+
+  let previous: providers.Log | undefined
+  return decodeEngineLogs(engine, logs).map((event) => {
+    const { log } = event
+    // transfers of the same transaction since the previous event of the engine
+    const start = previous?.transactionHash === log.transactionHash ? previous.logIndex : -1
+    previous = log
+    const transfers = logs.filter(
+      (other) =>
+        other.transactionHash === log.transactionHash &&
+        other.logIndex > start &&
+        other.logIndex < log.logIndex &&
+        other.topics[0] === TRANSFER_TOPIC &&
+        [risky, stable].includes(other.address.toLowerCase())
+    )
+    const paidIn = (token: string) =>
+      transfers.some((transfer) => transfer.address.toLowerCase() === token && isEngine(transfer.topics[2]))
+    const paidOut = (token: string) =>
+      transfers.some((transfer) => transfer.address.toLowerCase() === token && isEngine(transfer.topics[1]))
+
+    let extras = {}
+    if (event.name === 'Create') {
+      const { strike, sigma, maturity, gamma } = event.args
+      extras = { poolId: computePoolId(engine, strike.toString(), `${sigma}`, `${maturity}`, `${gamma}`) }
+    } else if (event.name === 'Allocate') {
+      extras = { fromMargin: !paidIn(risky) && !paidIn(stable) }
+    } else if (event.name === 'Swap') {
+      const [tokenIn, tokenOut] = event.args.riskyForStable ? [risky, stable] : [stable, risky]
+      extras = { fromMargin: !paidIn(tokenIn), toMargin: !paidOut(tokenOut) }
+    }
+
+    return {
+      name: event.name,
+      args: { ...event.args, ...extras },
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+    } as EngineRecord
+  })
+}
+
+/**
+ * State of an engine replayed from the records of its events, with the views of a `VirtualEngine`.
+ *
+ * @beta
+ */
+export class ReplayedEngine {
+  /** Block of the last replayed record. */
+  public blockNumber = 0
+
+  private readonly _calibrations: Map<string, CalibrationRecord> = new Map()
+  private readonly _reserves: Map<string, ReserveRecord> = new Map()
+  private readonly _margins: Map<string, MarginRecord> = new Map()
+  private readonly _liquidity: Map<string, Map<string, BigNumber>> = new Map()
+
+  /**
+   * @param address Address of the engine.
+   * @param minLiquidity Liquidity burned by `create`, i.e. the engine's `MIN_LIQUIDITY`, which is not in the events.
+   */
+  constructor(public readonly address: string, public readonly minLiquidity: BigNumberish) {}
+
+  /** PoolIds of the created pools, in the order they were created. */
+  get poolIds(): string[] {
+    return [...this._calibrations.keys()]
+  }
+
+  calibrations(poolId: string): CalibrationRecord {
+    const cal = this._calibrations.get(poolId)
+    if (!cal) throw new Error(`UninitializedError()`)
+    return cal
+  }
+
+  reserves(poolId: string): ReserveRecord {
+    const reserve = this._reserves.get(poolId)
+    if (!reserve) throw new Error(`UninitializedError()`)
+    return reserve
+  }
+
+  margins(account: string): MarginRecord {
+    return this._margins.get(account.toLowerCase()) ?? { balanceRisky: constants.Zero, balanceStable: constants.Zero }
+  }
+
+  liquidity(account: string, poolId: string): BigNumber {
+    return this._liquidity.get(account.toLowerCase())?.get(poolId) ?? constants.Zero
+  }
+
+  /**
+   * Applies the state changes of a record, like the engine did when it emitted the event.
+   */
+  apply(record: EngineRecord): void {
+    this.blockNumber = record.blockNumber
+    switch (record.name) {
+      case 'Create': {
+        const { poolId, from, strike, sigma, maturity, gamma, delRisky, delStable, delLiquidity } = record.args
+        this._calibrations.set(poolId, { strike, sigma, maturity, gamma })
+        this._reserves.set(poolId, {
+          reserveRisky: delRisky,
+          reserveStable: delStable,
+          liquidity: delLiquidity.add(this.minLiquidity),
+        })
+        this.addLiquidity(from, poolId, delLiquidity)
+        break
+      }
+      case 'Deposit':
+        this.addMargin(record.args.recipient, record.args.delRisky, record.args.delStable)
+        break
+      case 'Withdraw':
+        this.addMargin(record.args.from, record.args.delRisky.mul(-1), record.args.delStable.mul(-1))
+        break
+      case 'Allocate': {
+        const { from, recipient, poolId, delRisky, delStable, delLiquidity, fromMargin } = record.args
+        this.addReserves(poolId, delRisky, delStable, delLiquidity)
+        this.addLiquidity(recipient, poolId, delLiquidity)
+        if (fromMargin) this.addMargin(from, delRisky.mul(-1), delStable.mul(-1))
+        break
+      }
+      case 'Remove': {
+        const { from, poolId, delRisky, delStable, delLiquidity } = record.args
+        this.addReserves(poolId, delRisky.mul(-1), delStable.mul(-1), delLiquidity.mul(-1))
+        this.addLiquidity(from, poolId, delLiquidity.mul(-1))
+        this.addMargin(from, delRisky, delStable)
+        break
+      }
+      case 'Swap': {
+        const { from, recipient, poolId, riskyForStable, deltaIn, deltaOut, fromMargin, toMargin } = record.args
+        const zero = constants.Zero
+        const [inRisky, inStable] = riskyForStable ? [deltaIn, zero] : [zero, deltaIn]
+        const [outRisky, outStable] = riskyForStable ? [zero, deltaOut] : [deltaOut, zero]
+        this.addReserves(poolId, inRisky.sub(outRisky), inStable.sub(outStable), zero)
+        if (toMargin) this.addMargin(recipient, outRisky, outStable)
+        if (fromMargin) this.addMargin(from, inRisky.mul(-1), inStable.mul(-1))
+        break
+      }
+      case 'UpdateLastTimestamp':
+        // only changes the lastTimestamp of the calibration, which is a block timestamp not in the event
+        break
+    }
+  }
+
+  private addReserves(poolId: string, delRisky: BigNumber, delStable: BigNumber, delLiquidity: BigNumber): void {
+    const reserve = this.reserves(poolId)
+    this._reserves.set(poolId, {
+      reserveRisky: reserve.reserveRisky.add(delRisky),
+      reserveStable: reserve.reserveStable.add(delStable),
+      liquidity: reserve.liquidity.add(delLiquidity),
+    })
+  }
+
+  private addMargin(account: string, delRisky: BigNumberish, delStable: BigNumberish): void {
+    const margin = this.margins(account)
+    this._margins.set(account.toLowerCase(), {
+      balanceRisky: margin.balanceRisky.add(delRisky),
+      balanceStable: margin.balanceStable.add(delStable),
+    })
+  }
+
+  private addLiquidity(account: string, poolId: string, delLiquidity: BigNumber): void {
+    const key = account.toLowerCase()
+    const positions = this._liquidity.get(key) ?? new Map<string, BigNumber>()
+    positions.set(poolId, this.liquidity(account, poolId).add(delLiquidity))
+    this._liquidity.set(key, positions)
+  }
+}
+
+/**
+ * History of an engine, which replays the records of its events to derive its state at any block.
+ *
+ * @beta
+ */
+export class EngineHistory {
+  public readonly records: EngineRecord[] = []
+
+  /**
+   * @param address Address of the engine.
+   * @param minLiquidity Liquidity burned by `create`, i.e. the engine's `MIN_LIQUIDITY`.
+   * @param records Records of the engine's events.
+   */
+  constructor(
+    public readonly address: string,
+    public readonly minLiquidity: BigNumberish,
+    records: EngineRecord[] = []
+  ) {
+    this.add(records)
+  }
+
+  /**
+   * Adds records, keeping them in the order they were emitted.
+   */
+  add(records: EngineRecord[]): void {
+    this.records.push(...records)
+    this.records.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+  }
+
+  /**
+   * Replays the records up to and including a block.
+   *
+   * @param blockNumber Last block to replay, defaults to all of the records.
+   *
+   * @returns state of the engine after the block.
+   */
+  at(blockNumber: number = Number.MAX_SAFE_INTEGER): ReplayedEngine {
+    const state = new ReplayedEngine(this.address, this.minLiquidity)
+    for (const record of this.records) {
+      if (record.blockNumber > blockNumber) break
+      state.apply(record)
+    }
+    return state
+  }
+}
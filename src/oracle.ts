@@ -0,0 +1,269 @@
+import { BigNumber, constants } from 'ethers'
+import { Time, Wei, parseWei } from 'web3-units'
+import { getSpotPriceApproximation } from '@primitivefi/rmm-math'
+import { Calibration } from './calibration'
+import { VirtualPool } from './virtualPool'
+
+/** Modulus of the cumulative reserves, which overflow on purpose in `Reserve.update`. */
+export const Q256: BigNumber = constants.MaxUint256.add(1)
+
+/** Modulus of the uint32 `blockTimestamp` of the reserves. */
+export const Q32: number = 2 ** 32
+
+/**
+ * Snapshot of a pool's `Reserve.Data`, e.g. the return value of `engine.reserves(poolId)`.
+ */
+export interface ReserveObservation {
+  reserveRisky: BigNumber
+  reserveStable: BigNumber
+  liquidity: BigNumber
+  blockTimestamp: number
+  cumulativeRisky: BigNumber
+  cumulativeStable: BigNumber
+  cumulativeLiquidity: BigNumber
+}
+
+/**
+ * Time weighted averages of the reserves between two observations.
+ */
+export interface TimeWeightedAverage {
+  /** Seconds between the observations. */
+  period: number
+  averageRisky: Wei
+  averageStable: Wei
+  averageLiquidity: Wei
+  /** True if any of the cumulative reserves or the timestamp overflowed between the observations. */
+  wrapped: boolean
+}
+
+/**
+ * Copies the fields of a `Reserve.Data` struct, dropping the positional values of an ethers `Result`.
+ *
+ * @param reserve Return value of `engine.reserves(poolId)`, or any object with the same fields.
+ *
+ * @returns observation of the reserves.
+ *
+ * @beta
+ */
+export function toObservation(reserve: ReserveObservation): ReserveObservation {
+  return {
+    reserveRisky: BigNumber.from(reserve.reserveRisky),
+    reserveStable: BigNumber.from(reserve.reserveStable),
+    liquidity: BigNumber.from(reserve.liquidity),
+    blockTimestamp: reserve.blockTimestamp,
+    cumulativeRisky: BigNumber.from(reserve.cumulativeRisky),
+    cumulativeStable: BigNumber.from(reserve.cumulativeStable),
+    cumulativeLiquidity: BigNumber.from(reserve.cumulativeLiquidity),
+  }
+}
+
+/**
+ * Adds the reserves of an observation to its cumulative reserves, like `Reserve.update`.
+ *
+ * @remarks
+ * The cumulative reserves of the engine are only updated on swaps, allocates and removes, so the reserves
+ * can be accumulated up to the current timestamp to get a counterfactual observation.
+ *
+ * @param observation Last observation of the reserves.
+ * @param blockTimestamp Timestamp to accumulate the reserves to, in seconds.
+ *
+ * @returns observation at `blockTimestamp` with the same reserves.
+ *
+ * @beta
+ */
+export function accumulate(observation: ReserveObservation, blockTimestamp: number): ReserveObservation {
+  const deltaTime = uint32(blockTimestamp - observation.blockTimestamp)
+  if (deltaTime === 0) return observation
+  return {
+    ...observation,
+    blockTimestamp: uint32(blockTimestamp),
+    cumulativeRisky: uint256(observation.cumulativeRisky.add(observation.reserveRisky.mul(deltaTime))),
+    cumulativeStable: uint256(observation.cumulativeStable.add(observation.reserveStable.mul(deltaTime))),
+    cumulativeLiquidity: uint256(observation.cumulativeLiquidity.add(observation.liquidity.mul(deltaTime))),
+  }
+}
+
+/**
+ * Detects an overflow of the cumulative reserves or the timestamp between two observations.
+ *
+ * @remarks
+ * Cumulative reserves only increase, so a smaller value in the later observation means it wrapped around 2^256.
+ * The uint32 timestamp wraps around 2^32 in 2106, after which the later observation has the smaller timestamp.
+ *
+ * @returns true if any of the cumulative reserves or the timestamp wrapped around.
+ *
+ * @beta
+ */
+export function hasWrapped(before: ReserveObservation, after: ReserveObservation): boolean {
+  return (
+    after.blockTimestamp < before.blockTimestamp ||
+    after.cumulativeRisky.lt(before.cumulativeRisky) ||
+    after.cumulativeStable.lt(before.cumulativeStable) ||
+    after.cumulativeLiquidity.lt(before.cumulativeLiquidity)
+  )
+}
+
+/**
+ * Computes the time weighted average reserves between two observations of the same pool.
+ *
+ * @remarks
+ * Differences of the cumulative reserves and timestamps are computed modulo 2^256 and 2^32, like the engine's
+ * unchecked math, so an overflow between the observations does not change the averages.
+ *
+ * @param before Earlier observation.
+ * @param after Later observation.
+ * @param cal Calibration of the pool, used for the decimals of the reserves.
+ *
+ * @returns average reserves and liquidity over the period.
+ *
+ * @beta
+ */
+export function getTimeWeightedAverage(
+  before: ReserveObservation,
+  after: ReserveObservation,
+  cal: Calibration
+): TimeWeightedAverage {
+  const period = uint32(after.blockTimestamp - before.blockTimestamp)
+  if (period === 0) throw new Error('Observations have the same timestamp')
+  const average = (last: BigNumber, next: BigNumber) => uint256(next.sub(last)).div(period)
+  return {
+    period,
+    averageRisky: new Wei(average(before.cumulativeRisky, after.cumulativeRisky), cal.decimalsRisky),
+    averageStable: new Wei(average(before.cumulativeStable, after.cumulativeStable), cal.decimalsStable),
+    averageLiquidity: new Wei(average(before.cumulativeLiquidity, after.cumulativeLiquidity), 18),
+    wrapped: hasWrapped(before, after),
+  }
+}
+
+/**
+ * Approximates the time weighted spot price by the spot price of the time weighted average risky reserve per liquidity.
+ *
+ * @remarks
+ * This is the spot price of a ratio of averages, which equals the time weighted spot price only if the risky reserves
+ * per liquidity were constant over the period. The spot price is not linear in the reserves, so a period in which
+ * they changed has an error which grows with their changes. Use `ReserveOracle.consultSpotPrice` for the exact
+ * time weighted spot price of recorded observations.
+ *
+ * @param twap Time weighted averages of the pool's reserves.
+ * @param cal Calibration of the pool.
+ * @param tau Time until expiry to price with, defaults to the calibration's tau.
+ *
+ * @returns spot price of the risky asset, in 18 decimals like `VirtualPool.spotPrice`.
+ *
+ * @beta
+ */
+export function getTwapSpotPrice(twap: TimeWeightedAverage, cal: Calibration, tau: Time = cal.tau): Wei {
+  const risky = twap.averageRisky.float / twap.averageLiquidity.float
+  const spot = getSpotPriceApproximation(risky, cal.strike.float, cal.sigma.float, tau.years)
+  return parseWei(spot.toFixed(18))
+}
+
+/**
+ * Records the reserves of a VirtualPool over time, accumulating them like the engine.
+ */
+export class ReserveOracle {
+  public readonly observations: ReserveObservation[] = []
+
+  /**
+   * @param pool Pool to observe, with its clock at the timestamp of its creation
+   */
+  constructor(public readonly pool: VirtualPool) {
+    this.observations.push({
+      ...reservesOf(pool),
+      blockTimestamp: uint32(pool.blockTimestamp.raw),
+      cumulativeRisky: constants.Zero,
+      cumulativeStable: constants.Zero,
+      cumulativeLiquidity: constants.Zero,
+    })
+  }
+
+  get latest(): ReserveObservation {
+    return this.observations[this.observations.length - 1]
+  }
+
+  /**
+   * @notice Accumulates the last reserves up to the pool's clock, then stores the pool's current reserves
+   * @dev Call after each swap, allocate or remove of the pool, like the engine's `Reserve.update`
+   * @return observation Reserves of the pool at its clock's timestamp
+   */
+  record(): ReserveObservation {
+    const observation = { ...accumulate(this.latest, this.pool.blockTimestamp.raw), ...reservesOf(this.pool) }
+    this.observations.push(observation)
+    return observation
+  }
+
+  /**
+   * @param from Timestamp of the start of the period, defaults to the first observation
+   * @param to Timestamp of the end of the period, defaults to the pool's clock
+   * @return twap Time weighted average reserves of the pool over the period
+   */
+  consult(
+    from: number = this.observations[0].blockTimestamp,
+    to: number = this.pool.blockTimestamp.raw
+  ): TimeWeightedAverage {
+    return getTimeWeightedAverage(this.observeAt(from), this.observeAt(to), this.pool.cal)
+  }
+
+  /**
+   * @notice Computes the time weighted spot price of the recorded reserves, which are constant between observations
+   * @param from Timestamp of the start of the period, defaults to the first observation
+   * @param to Timestamp of the end of the period, defaults to the pool's clock
+   * @param tau Time until expiry to price with, defaults to the pool's tau
+   * @return spotPrice Average of the spot price of each observation's reserves, weighted by the seconds they were held,
+   * in 18 decimals like `VirtualPool.spotPrice`
+   */
+  consultSpotPrice(
+    from: number = this.observations[0].blockTimestamp,
+    to: number = this.pool.blockTimestamp.raw,
+    tau: Time = this.pool.tau
+  ): Wei {
+    const { strike, sigma } = this.pool.cal
+    const [start, end] = [this.elapsed(from), this.elapsed(to)]
+    if (end <= start) throw new Error('Period must end after it starts')
+
+    let weighted = 0
+    this.observations.forEach((observation, i) => {
+      const next = this.observations[i + 1]
+      const held = [this.elapsed(observation.blockTimestamp), next ? this.elapsed(next.blockTimestamp) : end]
+      const seconds = Math.min(held[1], end) - Math.max(held[0], start)
+      if (seconds <= 0) return
+      const risky = new Wei(observation.reserveRisky, this.pool.cal.decimalsRisky).float
+      const liquidity = new Wei(observation.liquidity, 18).float
+      weighted += getSpotPriceApproximation(risky / liquidity, strike.float, sigma.float, tau.years) * seconds
+    })
+    return parseWei((weighted / (end - start)).toFixed(18))
+  }
+
+  /**
+   * @notice Finds the observation at or before a timestamp, comparing timestamps by the seconds since the first
+   * observation, so a wrap of the uint32 timestamp around 2^32 does not reorder them
+   * @return observation Counterfactual observation at `timestamp`, accumulated from the last observation before it
+   */
+  observeAt(timestamp: number): ReserveObservation {
+    const elapsed = this.elapsed(timestamp)
+    const last = [...this.observations]
+      .reverse()
+      .find((observation) => this.elapsed(observation.blockTimestamp) <= elapsed)
+    if (!last) throw new Error(`No observation before ${timestamp}`)
+    return accumulate(last, timestamp)
+  }
+
+  /**
+   * @return seconds Since the first observation until `timestamp`, modulo 2^32 like the engine's uint32 timestamps
+   */
+  private elapsed(timestamp: number): number {
+    return uint32(timestamp - this.observations[0].blockTimestamp)
+  }
+}
+
+function reservesOf(pool: VirtualPool): Pick<ReserveObservation, 'reserveRisky' | 'reserveStable' | 'liquidity'> {
+  return { reserveRisky: pool.reserveRisky.raw, reserveStable: pool.reserveStable.raw, liquidity: pool.liquidity.raw }
+}
+
+function uint256(x: BigNumber): BigNumber {
+  return x.mod(Q256)
+}
+
+function uint32(x: number): number {
+  return ((x % Q32) + Q32) % Q32
+}
@@ -0,0 +1,3 @@
+export * from './random'
+export * from './pricePath'
+export * from './simulator'
@@ -0,0 +1,51 @@
+import { Random } from './random'
+
+/** Jumps of the log price, which arrive as a Poisson process. */
+export interface JumpProcess {
+  /** Expected number of jumps per year. */
+  intensity: number
+  /** Mean of the normally distributed log price jumps. */
+  mean: number
+  /** Standard deviation of the normally distributed log price jumps. */
+  volatility: number
+}
+
+/** Geometric brownian motion of a reference price, with optional jumps. */
+export interface PriceProcess {
+  /** Reference price at the start of the path, as a float. */
+  initialPrice: number
+  /** Annualized drift, e.g. 0.05 = 5%. */
+  drift: number
+  /** Annualized volatility, e.g. 1 = 100%. */
+  volatility: number
+  jumps?: JumpProcess
+}
+
+/**
+ * Generates a reference price path of a geometric brownian motion, with Merton jumps if the process has any.
+ *
+ * @remarks
+ * The drift is not compensated for the jumps, so jumps with a nonzero mean also move the expected price.
+ *
+ * @param process Parameters of the price process.
+ * @param steps Number of steps of the path.
+ * @param dt Time between steps in years.
+ * @param random Generator to draw from, which is advanced by the path.
+ *
+ * @returns prices Path of `steps + 1` prices, starting at the initial price.
+ *
+ * @beta
+ */
+export function generatePricePath(process: PriceProcess, steps: number, dt: number, random: Random): number[] {
+  const { initialPrice, drift, volatility, jumps } = process
+  const prices = [initialPrice]
+  for (let i = 0; i < steps; i++) {
+    let logReturn = (drift - volatility ** 2 / 2) * dt + volatility * Math.sqrt(dt) * random.normal()
+    if (jumps) {
+      const count = random.poisson(jumps.intensity * dt)
+      for (let j = 0; j < count; j++) logReturn += jumps.mean + jumps.volatility * random.normal()
+    }
+    prices.push(prices[i] * Math.exp(logReturn))
+  }
+  return prices
+}
@@ -0,0 +1,51 @@
+/**
+ * Seeded pseudo random number generator, so simulations with the same seed are deterministic.
+ *
+ * @remarks
+ * Uniform numbers are drawn with mulberry32, normal numbers with the Box-Muller transform.
+ */
+export class Random {
+  private state: number
+
+  /**
+   * @param seed Integer seed of the generator
+   */
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  /**
+   * @return uniform Number in [0, 1)
+   */
+  uniform(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+  }
+
+  /**
+   * @return normal Number from a standard normal distribution
+   */
+  normal(): number {
+    const u = 1 - this.uniform() // in (0, 1], so the log is finite
+    const v = this.uniform()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  }
+
+  /**
+   * @param lambda Expected number of events
+   * @return count Number of events from a Poisson distribution
+   */
+  poisson(lambda: number): number {
+    const limit = Math.exp(-lambda)
+    let count = 0
+    let product = this.uniform()
+    while (product > limit) {
+      count++
+      product *= this.uniform()
+    }
+    return count
+  }
+}
@@ -0,0 +1,161 @@
+import { Time, Wei, parseWei } from 'web3-units'
+import { Calibration } from '../calibration'
+import { Swaps } from '../swaps'
+import { VirtualPool } from '../virtualPool'
+import { generatePricePath, PriceProcess } from './pricePath'
+import { Random } from './random'
+
+/** Parameters of a simulation of a pool traded by an arbitrageur. */
+export interface SimulationConfig {
+  /** Calibration of the simulated pool, which is created at its lastTimestamp. */
+  cal: Calibration
+  /** Total liquidity the pool is created with. */
+  liquidity: Wei
+  /** Seed of the price path. */
+  seed: number
+  /** Seconds between steps. */
+  stepSeconds: number
+  /** Number of steps, defaults to the steps until maturity. */
+  steps?: number
+  /** Price process of the reference price, defaults to a driftless path with the calibration's sigma. */
+  process?: Partial<PriceProcess>
+  /** Relative distance to the reference price within which the arbitrageur does not trade. */
+  tolerance?: number
+  /** Computes swaps with the engine's fixed point math. */
+  exact?: boolean
+}
+
+/** State of the simulated pool at the end of a step, in floats. */
+export interface SimulationRecord {
+  step: number
+  timestamp: number
+  /** Years until maturity of the pool. */
+  tau: number
+  referencePrice: number
+  spotPrice: number
+  reserveRisky: number
+  reserveStable: number
+  liquidity: number
+  invariant: number
+  /** Direction of the arbitrageur's swap in this step, if it swapped. */
+  riskyForStable?: boolean
+  deltaIn: number
+  deltaOut: number
+  /** Cumulative fees paid to the pool in risky tokens. */
+  feesRisky: number
+  /** Cumulative fees paid to the pool in stable tokens. */
+  feesStable: number
+  /** Value of the pool's reserves in stable tokens at the reference price. */
+  lpValue: number
+}
+
+export interface SimulationResult {
+  seed: number
+  records: SimulationRecord[]
+}
+
+/**
+ * Simulates a pool through time, with an arbitrageur which swaps the pool's spot price to a reference price every step.
+ *
+ * @remarks
+ * The pool is created with the reserves of the initial reference price. Each step advances the pool's clock, which
+ * reprices its curve, then the arbitrageur executes the plan of `VirtualPool.planArbitrage`. The simulation stops
+ * early if the pool reaches maturity.
+ *
+ * @param config Parameters of the simulation.
+ *
+ * @returns records of every step, starting with the created pool at step 0.
+ *
+ * @beta
+ */
+export function simulate(config: SimulationConfig): SimulationResult {
+  const { cal, liquidity, seed, stepSeconds, tolerance = 1e-4, exact = false } = config
+  const steps = config.steps ?? Math.floor(cal.tau.raw / stepSeconds)
+  const process: PriceProcess = {
+    initialPrice: cal.referencePrice.float > 0 ? cal.referencePrice.float : cal.strike.float,
+    drift: 0,
+    volatility: cal.sigma.float,
+    ...config.process,
+  }
+  const prices = generatePricePath(process, steps, new Time(stepSeconds).years, new Random(seed))
+
+  const riskyPerLp = Swaps.getRiskyReservesGivenReferencePrice(
+    cal.strike.float,
+    cal.sigma.float,
+    cal.tau.years,
+    prices[0]
+  )
+  let pool = VirtualPool.create(
+    cal,
+    parseWei(riskyPerLp.toFixed(cal.decimalsRisky), cal.decimalsRisky),
+    liquidity,
+    exact
+  ).pool
+
+  const record = (step: number, trade?: { riskyForStable: boolean; deltaIn: Wei; deltaOut: Wei }) => ({
+    step,
+    timestamp: pool.blockTimestamp.raw,
+    tau: pool.tau.years,
+    referencePrice: prices[step],
+    spotPrice: pool.spotPrice.float,
+    reserveRisky: pool.reserveRisky.float,
+    reserveStable: pool.reserveStable.float,
+    liquidity: pool.liquidity.float,
+    invariant: pool.invariant.parsed,
+    riskyForStable: trade?.riskyForStable,
+    deltaIn: trade?.deltaIn.float ?? 0,
+    deltaOut: trade?.deltaOut.float ?? 0,
+    feesRisky: pool.feesRisky.float,
+    feesStable: pool.feesStable.float,
+    lpValue: pool.reserveRisky.float * prices[step] + pool.reserveStable.float,
+  })
+
+  const records: SimulationRecord[] = [record(0)]
+  for (let step = 1; step <= steps; step++) {
+    pool.advanceTime(stepSeconds)
+    if (pool.tau.raw <= 0) break
+
+    const plan = pool.planArbitrage(parseWei(prices[step].toFixed(18)), tolerance)
+    if (plan.deltaIn.raw.isZero()) {
+      records.push(record(step))
+      continue
+    }
+
+    pool = plan.pool
+    records.push(record(step, plan))
+  }
+
+  return { seed, records }
+}
+
+/**
+ * @returns csv Records as comma separated values, with a header row of the record fields.
+ */
+export function toCSV(records: SimulationRecord[]): string {
+  const fields: (keyof SimulationRecord)[] = [
+    'step',
+    'timestamp',
+    'tau',
+    'referencePrice',
+    'spotPrice',
+    'reserveRisky',
+    'reserveStable',
+    'liquidity',
+    'invariant',
+    'riskyForStable',
+    'deltaIn',
+    'deltaOut',
+    'feesRisky',
+    'feesStable',
+    'lpValue',
+  ]
+  const rows = records.map((record) => fields.map((field) => record[field] ?? '').join(','))
+  return [fields.join(','), ...rows].join('\n')
+}
+
+/**
+ * @returns json Result of a simulation as a JSON string.
+ */
+export function toJSON(result: SimulationResult): string {
+  return JSON.stringify(result, null, 2)
+}
@@ -0,0 +1,128 @@
+import { getD1AndD2, std_n_pdf } from '@primitivefi/rmm-math'
+import { Time, Wei, parseWei } from 'web3-units'
+import { Calibration, MAX_SIGMA } from './calibration'
+import { RootResult, Swaps } from './swaps'
+import { PERCENTAGE, VirtualPool } from './virtualPool'
+
+/** Lowest and highest sigma accepted by the engine, as floats. */
+export const SIGMA_BOUNDS: [number, number] = [1 / PERCENTAGE, MAX_SIGMA / PERCENTAGE]
+
+/** Reserves of a pool for an amount of liquidity. */
+export interface TargetReserves {
+  reserveRisky: Wei
+  reserveStable: Wei
+}
+
+/** Deviation of a pool's spot price from a reference price, with the reserves it should hold at that price. */
+export interface Mispricing extends TargetReserves {
+  /** Spot price implied by the pool's reserves, as a float. */
+  spotPrice: number
+  /** Spot price less the reference price, relative to the reference price. */
+  deviation: number
+}
+
+/**
+ * Recovers the sigma at which a pool's risky reserves per liquidity replicate a covered call at a reference price.
+ *
+ * @remarks
+ * Solves `Swaps.getRiskyReservesGivenReferencePrice` for sigma. If the reference price is above the strike, the risky
+ * reserves peak at sigma = sqrt(2 * ln(referencePrice / strike) / tau), so there can be a root on either side of it.
+ * The root with stable reserves closest to `reserveStable` is returned.
+ *
+ * @param cal Calibration of the pool, with the strike used to price.
+ * @param reserveRisky Risky reserves per unit of liquidity, as a float.
+ * @param reserveStable Stable reserves per unit of liquidity, as a float.
+ * @param referencePrice Price of the risky asset in the stable asset, as a float.
+ * @param tau Time until expiry, defaults to the calibration's tau.
+ * @param invariant Invariant of the pool, as a float.
+ *
+ * @returns sigma as the root, with the risky reserves at that sigma less `reserveRisky` as the residual, or undefined
+ * if no sigma within `SIGMA_BOUNDS` matches the reserves.
+ *
+ * @beta
+ */
+export function getImpliedSigma(
+  cal: Calibration,
+  reserveRisky: number,
+  reserveStable: number,
+  referencePrice: number,
+  tau: Time = cal.tau,
+  invariant = 0
+): RootResult | undefined {
+  const strike = cal.strike.float
+  const years = tau.years
+  if (years <= 0) return undefined
+
+  const fn = (sigma: number) =>
+    Swaps.getRiskyReservesGivenReferencePrice(strike, sigma, years, referencePrice) - reserveRisky
+  const derivative = (sigma: number) => {
+    const { d1, d2 } = getD1AndD2(strike, sigma, years, referencePrice)
+    return (std_n_pdf(d1) * d2) / sigma
+  }
+
+  const [lower, upper] = SIGMA_BOUNDS
+  const brackets: [number, number][] = [[lower, upper]]
+  if (referencePrice > strike) {
+    const peak = Math.sqrt((2 * Math.log(referencePrice / strike)) / years)
+    if (peak > lower && peak < upper) brackets.splice(0, 1, [lower, peak], [peak, upper])
+  }
+
+  const stableError = (sigma: number) =>
+    Math.abs((Swaps.getStableGivenRisky(strike, sigma, years, reserveRisky, invariant) ?? Infinity) - reserveStable)
+  return brackets
+    .map(([low, high]) => Swaps.findRoot(fn, derivative, low, high, Number.EPSILON))
+    .filter((result): result is RootResult => typeof result !== 'undefined')
+    .sort((a, b) => stableError(a.root) - stableError(b.root))[0]
+}
+
+/**
+ * Computes the reserves which replicate a covered call at a reference price.
+ *
+ * @param cal Calibration of the pool.
+ * @param referencePrice Price of the risky asset in the stable asset, as a float.
+ * @param liquidity Liquidity to compute the reserves of, defaults to 1 unit.
+ * @param tau Time until expiry, defaults to the calibration's tau.
+ * @param invariant Invariant of the pool, as a float.
+ *
+ * @returns reserves of `liquidity`, in the decimals of the calibration's tokens.
+ *
+ * @beta
+ */
+export function getReservesGivenReferencePrice(
+  cal: Calibration,
+  referencePrice: number,
+  liquidity: Wei = parseWei(1),
+  tau: Time = cal.tau,
+  invariant = 0
+): TargetReserves {
+  const [strike, sigma] = [cal.strike.float, cal.sigma.float]
+  const risky = Swaps.getRiskyReservesGivenReferencePrice(strike, sigma, tau.years, referencePrice)
+  const stable = Swaps.getStableGivenRisky(strike, sigma, tau.years, risky, invariant)
+  if (typeof stable === 'undefined') throw new Error(`Stable reserves are undefined: ${[risky, strike, sigma]}`)
+  return {
+    reserveRisky: parseWei((risky * liquidity.float).toFixed(cal.decimalsRisky), cal.decimalsRisky),
+    reserveStable: parseWei((stable * liquidity.float).toFixed(cal.decimalsStable), cal.decimalsStable),
+  }
+}
+
+/**
+ * Compares the spot price of a pool to a reference price, e.g. of an external price feed.
+ *
+ * @param pool Pool to price, using its tau and invariant.
+ * @param referencePrice Price of the risky asset in the stable asset, as a float.
+ *
+ * @returns deviation of the pool's spot price and the reserves the pool should hold at the reference price.
+ *
+ * @beta
+ */
+export function getMispricing(pool: VirtualPool, referencePrice: number): Mispricing {
+  const spotPrice = pool.spotPrice.float
+  const target = getReservesGivenReferencePrice(
+    pool.cal,
+    referencePrice,
+    pool.liquidity,
+    pool.tau,
+    pool.invariant.parsed
+  )
+  return { ...target, spotPrice, deviation: (spotPrice - referencePrice) / referencePrice }
+}
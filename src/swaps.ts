@@ -0,0 +1,864 @@
+import {
+  callDelta,
+  getInverseCDFSolidity,
+  getInvariantApproximation,
+  getMarginalPriceSwapRiskyInApproximation,
+  getMarginalPriceSwapStableInApproximation,
+  getProportionalVol,
+  getRiskyGivenStableApproximation,
+  getSpotPriceApproximation,
+  getStableGivenRiskyApproximation,
+  std_n_pdf,
+} from '@primitivefi/rmm-math'
+import { BigNumber } from 'ethers'
+import { FixedPointX64, Floating, parseWei, Time, Wei } from 'web3-units'
+import { ReplicationMath, Units } from './fixedPointMath'
+
+/**
+ * Copied from {@link https://github.com/primitivefinance/rmm-sdk/blob/main/src/entities/swaps.ts}
+ *
+ * @remarks
+ * The rmm-sdk uses this rmm-core package as a dependency. The sdk has models of the smart contracts,
+ * making it easier to derive information like swap amounts. This is used in the core smart contract tests as well.
+ */
+
+/** Post-swap invariant and implied price after a swap. */
+export interface SwapResult {
+  /** Post-swap invariant of the pool. */
+  invariant: number
+
+  /** Price of the asset paid from the swap. */
+  priceIn: string
+
+  /** Invariant after the swap, with the fee adjusted reserves, less the invariant before. Set by trades solved numerically. */
+  residual?: number
+}
+
+export interface ExactInResult extends SwapResult {
+  /** Amount of tokens output from a swap. */
+  output: number
+}
+
+export interface ExactOutResult extends SwapResult {
+  /** Amount of tokens input to a swap. */
+  input: number
+}
+
+/** Forward trading function, which computes stable reserves given risky reserves for 1 unit of liquidity. */
+export type TradingFunction = (
+  reserveRisky: number,
+  strike: number,
+  sigma: number,
+  tau: number,
+  invariantLast?: number
+) => number
+
+/** Root of a function found by {@link Swaps.findRoot}. */
+export interface RootResult {
+  /** Input which sets the function to zero, within the tolerance. */
+  root: number
+
+  /** Value of the function at the root. */
+  residual: number
+
+  /** Iterations taken to converge. */
+  iterations: number
+}
+
+/** Static functions to compute swap in/out amounts and marginal prices. */
+export class Swaps {
+  /** Absolute tolerance of {@link Swaps.findRoot} on its input. */
+  public static readonly ROOT_TOLERANCE = Number.EPSILON
+
+  /** Maximum iterations of {@link Swaps.findRoot} before it returns its best estimate. */
+  public static readonly MAX_ITERATIONS = 128
+
+  /** Distance of the bracket of risky reserves per liquidity from 0 and 1, where the engine's inverse CDF reverts. */
+  public static readonly RISKY_BOUND = 1e-9
+
+  /**
+   * Minimum residual of the invariant required by trades solved numerically.
+   *
+   * @remarks
+   * Covers the precision lost by passing the reserves of the pool as floating point numbers.
+   */
+  public static readonly MIN_RESIDUAL = 1e-12
+
+  // --- Max Swap Amounts in ---
+  static getMaxDeltaIn(
+    riskyForStable: boolean,
+    reserveRiskyWei: Wei,
+    reserveStableWei: Wei,
+    reserveLiquidityWei: Wei,
+    strikeWei: Wei
+  ): Wei {
+    if (riskyForStable) {
+      const riskyPerLiquidity = reserveRiskyWei.mul(1e18).div(reserveLiquidityWei)
+      return parseWei(1, reserveRiskyWei.decimals).sub(riskyPerLiquidity).mul(reserveLiquidityWei).div(1e18)
+    } else {
+      const stablePerLiquidity = reserveStableWei.mul(1e18).div(reserveLiquidityWei)
+      return strikeWei.sub(stablePerLiquidity).mul(reserveLiquidityWei).div(1e18)
+    }
+  }
+
+  static getMaxDeltaOut(riskyForStable: boolean, reserveRiskyWei: Wei, reserveStableWei: Wei, strikeWei: Wei): Wei {
+    if (riskyForStable) {
+      return reserveStableWei.sub(1)
+    } else {
+      return reserveRiskyWei.sub(1)
+    }
+  }
+
+  /**
+   * Gets price of risky token denominated in stable token.
+   *
+   * @param reserveRiskyFloating Amount of risky tokens in reserve as a floating point decimal number.
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   */
+  public static getReportedPriceOfRisky(
+    reserveRiskyFloating: number,
+    strikeFloating: number,
+    sigmaFloating: number,
+    tauYears: number
+  ): number {
+    return getSpotPriceApproximation(reserveRiskyFloating, strikeFloating, sigmaFloating, tauYears)
+  }
+
+  // --- Computing Reserves ---
+
+  /**
+   * Gets estimated risky token reserves given a reference price of the risky asset, for 1 unit of liquidity.
+   *
+   * @remarks
+   * Equal to the Delta (option greeks) exposure of one liquidity unit.
+   *
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   * @param referencePriceOfRisky Price of the risky token denominated in the stable token.
+   *
+   * @beta
+   */
+  public static getRiskyReservesGivenReferencePrice(
+    strikeFloating: number,
+    sigmaFloating: number,
+    tauYears: number,
+    referencePriceOfRisky: number
+  ): number {
+    return 1 - callDelta(strikeFloating, sigmaFloating, tauYears, referencePriceOfRisky)
+  }
+
+  /**
+   * Gets risky reserves given stable reserves, for 1 unit of liquidity.
+   *
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   * @param reserveStableFloating Amount of risky tokens in reserve as a floating point decimal number.
+   * @param invariantFloating Computed invariant of curve as a floating point decimal number.
+   *
+   * @beta
+   */
+  public static getRiskyGivenStable(
+    strikeFloating: number,
+    sigmaFloating: number,
+    tauYears: number,
+    reserveStableFloating: number,
+    invariantFloating = 0
+  ): number | undefined {
+    const stable = getRiskyGivenStableApproximation(
+      reserveStableFloating,
+      strikeFloating,
+      sigmaFloating,
+      tauYears,
+      invariantFloating
+    )
+
+    if (isNaN(stable)) return undefined
+    return stable
+  }
+
+  /**
+   * Gets estimated stable token reserves given risky token reserves, for 1 unit of liquidity.
+   *
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   * @param reserveRiskyFloating Amount of risky tokens in reserve as a floating point decimal number.
+   * @param invariantFloating Computed invariant of curve as a floating point decimal number.
+   *
+   * @beta
+   */
+  public static getStableGivenRisky(
+    strikeFloating: number,
+    sigmaFloating: number,
+    tauYears: number,
+    reserveRiskyFloating: number,
+    invariantFloating = 0
+  ): number | undefined {
+    const stable = getStableGivenRiskyApproximation(
+      reserveRiskyFloating,
+      strikeFloating,
+      sigmaFloating,
+      tauYears,
+      invariantFloating
+    )
+
+    if (isNaN(stable)) return undefined
+    return stable
+  }
+
+  // --- Numerical Inverse ---
+
+  /**
+   * Finds the root of a monotonic function between `lower` and `upper`.
+   *
+   * @remarks
+   * Newton's method which falls back to a bisection whenever a step leaves the bracket or converges too slowly,
+   * so the root is always kept within a bracket that shrinks on every iteration.
+   *
+   * @param fn Function to find the root of, which must have opposite signs at `lower` and `upper`.
+   * @param derivative Derivative of `fn`, used for the Newton steps.
+   * @param lower Lower bound of the bracket.
+   * @param upper Upper bound of the bracket.
+   * @param tolerance Absolute tolerance on the root.
+   *
+   * @returns Root of `fn`, or undefined if `lower` and `upper` do not bracket a root.
+   *
+   * @beta
+   */
+  public static findRoot(
+    fn: (x: number) => number,
+    derivative: (x: number) => number,
+    lower: number,
+    upper: number,
+    tolerance = Swaps.ROOT_TOLERANCE
+  ): RootResult | undefined {
+    const fnLower = fn(lower)
+    const fnUpper = fn(upper)
+    if (fnLower === 0) return { root: lower, residual: fnLower, iterations: 0 }
+    if (fnUpper === 0) return { root: upper, residual: fnUpper, iterations: 0 }
+    if (Math.sign(fnLower) === Math.sign(fnUpper)) return undefined
+
+    // Orients the bracket so `fn(low) < 0 < fn(high)`
+    let [low, high] = fnLower < 0 ? [lower, upper] : [upper, lower]
+    let x = (lower + upper) / 2
+    let step = Math.abs(upper - lower)
+    let lastStep = step
+    let fx = fn(x)
+    let dfx = derivative(x)
+
+    let iterations = 0
+    while (iterations < Swaps.MAX_ITERATIONS) {
+      iterations++
+
+      const outOfBracket = ((x - high) * dfx - fx) * ((x - low) * dfx - fx) > 0
+      const tooSlow = Math.abs(2 * fx) > Math.abs(lastStep * dfx)
+      if (outOfBracket || tooSlow || !isFinite(dfx)) {
+        lastStep = step
+        step = (high - low) / 2
+        x = low + step
+      } else {
+        lastStep = step
+        step = fx / dfx
+        x = x - step
+      }
+
+      fx = fn(x)
+      if (Math.abs(step) < tolerance || fx === 0) break
+
+      dfx = derivative(x)
+      if (fx < 0) low = x
+      else high = x
+    }
+
+    return { root: x, residual: fx, iterations: iterations }
+  }
+
+  /**
+   * Gets risky reserves given stable reserves, for 1 unit of liquidity, by inverting a forward trading function.
+   *
+   * @remarks
+   * The closed form inverse does not use the same approximations as the forward function, so it is not its exact inverse.
+   *
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   * @param reserveStableFloating Amount of stable tokens in reserve as a floating point decimal number.
+   * @param invariantFloating Computed invariant of curve as a floating point decimal number.
+   * @param forward Trading function to invert, defaults to `getStableGivenRiskyApproximation`.
+   * @param tolerance Absolute tolerance on the risky reserves.
+   *
+   * @returns Risky reserves as the root, with the output of `forward` less `reserveStableFloating` as the residual.
+   *
+   * @beta
+   */
+  public static solveRiskyGivenStable(
+    strikeFloating: number,
+    sigmaFloating: number,
+    tauYears: number,
+    reserveStableFloating: number,
+    invariantFloating = 0,
+    forward: TradingFunction = getStableGivenRiskyApproximation,
+    tolerance = Swaps.ROOT_TOLERANCE
+  ): RootResult | undefined {
+    const K = strikeFloating
+    const vol = getProportionalVol(sigmaFloating, tauYears)
+
+    const fn = (risky: number) => forward(risky, K, sigmaFloating, tauYears, invariantFloating) - reserveStableFloating
+
+    // d/dx K * Φ(Φ^-1(1 - x) - σ√τ) = -K * φ(Φ^-1(1 - x) - σ√τ) / φ(Φ^-1(1 - x))
+    const derivative = (risky: number) => {
+      const phi = getInverseCDFSolidity(1 - risky)
+      return (-K * std_n_pdf(phi - vol)) / std_n_pdf(phi)
+    }
+
+    // Reserves at the bracket must not truncate to 0 or 1, so the bracket is at least one tolerance within them
+    const bound = Math.max(Swaps.RISKY_BOUND, tolerance)
+    return Swaps.findRoot(fn, derivative, bound, 1 - bound, tolerance)
+  }
+
+  /**
+   * Gets the forward trading function computed with the fixed point math of the engine.
+   *
+   * @remarks
+   * The engine's CDF has a max error of 3.15e-3, so its curve is not the curve of `getStableGivenRiskyApproximation`.
+   * Swap amounts which must pass the engine's invariant check are solved on this curve instead.
+   *
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   *
+   * @beta
+   */
+  public static getEngineTradingFunction(decimalsRisky: number, decimalsStable: number): TradingFunction {
+    return (reserveRisky, strike, sigma, tau, invariantLast = 0) => {
+      if (reserveRisky >= 1 || reserveRisky <= 0) return 0
+      const stable = ReplicationMath.getStableGivenRisky(
+        0,
+        Math.pow(10, 18 - decimalsRisky),
+        Math.pow(10, 18 - decimalsStable),
+        Swaps.toRaw(reserveRisky, decimalsRisky),
+        Swaps.toRaw(strike, decimalsStable),
+        Math.round(sigma * Units.PERCENTAGE),
+        Math.round(tau * Units.YEAR)
+      )
+      return new Wei(stable, decimalsStable).float + invariantLast
+    }
+  }
+
+  /**
+   * Gets the invariant of reserves per liquidity computed with the fixed point math of the engine.
+   *
+   * @returns Signed 64.64 fixed point invariant, equal to the engine's `invariantOf`.
+   */
+  private static getEngineInvariant(
+    decimalsRisky: number,
+    decimalsStable: number,
+    riskyPerLiquidity: BigNumber,
+    stablePerLiquidity: BigNumber,
+    strikeFloating: number,
+    sigmaFloating: number,
+    tauYears: number
+  ): FixedPointX64 {
+    const invariant = ReplicationMath.calcInvariant(
+      Math.pow(10, 18 - decimalsRisky),
+      Math.pow(10, 18 - decimalsStable),
+      riskyPerLiquidity,
+      stablePerLiquidity,
+      Swaps.toRaw(strikeFloating, decimalsStable),
+      Math.round(sigmaFloating * Units.PERCENTAGE),
+      Math.round(tauYears * Units.YEAR)
+    )
+    return new FixedPointX64(invariant)
+  }
+
+  /** Parses `value` into an integer amount with `decimals`, rounding to the nearest integer. */
+  private static toRaw(value: number, decimals: number): BigNumber {
+    return parseWei(value.toFixed(decimals), decimals).raw
+  }
+
+  /** Rounds `value` up to `decimals` places, so amounts paid into the pool are never less than required. */
+  private static ceil(value: number, decimals: number): number {
+    const scale = Math.pow(10, decimals)
+    return Math.ceil(value * scale) / scale
+  }
+
+  // --- Computing Change in Marginal Price ---
+
+  /**
+   * Gets marginal price after an exact trade in of the risky asset with size `amountIn`.
+   *
+   * {@link https://arxiv.org/pdf/2012.08040.pdf}
+   *
+   * @param reserveRiskyFloating Amount of risky tokens in reserve as a floating point decimal number.
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   * @param gammaFloating Equal to 10_000 - fee, in basis points as a floating point number in decimal format.
+   * @param amountIn Amount of risky token to add to risky reserve.
+   *
+   * @beta
+   */
+  public static getMarginalPriceSwapRiskyIn(
+    reserveRiskyFloating: number,
+    strikeFloating: number,
+    sigmaFloating: number,
+    tauYears: number,
+    gammaFloating: number,
+    amountIn: number
+  ) {
+    return getMarginalPriceSwapRiskyInApproximation(
+      amountIn,
+      reserveRiskyFloating,
+      strikeFloating,
+      sigmaFloating,
+      tauYears,
+      1 - gammaFloating
+    )
+  }
+
+  /**
+   * Gets marginal price after an exact trade in of the stable asset with size `amountIn`.
+   *
+   * {@link https://arxiv.org/pdf/2012.08040.pdf}
+   *
+   * @param reserveStableFloating Amount of stable tokens in reserve as a floating point decimal number.
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   * @param gammaFloating Equal to 10_000 - fee, in basis points as a floating point number in decimal format.
+   * @param amountIn Amount of stable token to add to stable reserve.
+   *
+   * @beta
+   */
+  public static getMarginalPriceSwapStableIn(
+    invariantFloating: number,
+    reserveStableFloating: number,
+    strikeFloating: number,
+    sigmaFloating: number,
+    tauYears: number,
+    gammaFloating: number,
+    amountIn: number
+  ) {
+    return getMarginalPriceSwapStableInApproximation(
+      amountIn,
+      invariantFloating,
+      reserveStableFloating,
+      strikeFloating,
+      sigmaFloating,
+      tauYears,
+      1 - gammaFloating
+    )
+  }
+
+  /**
+   * Gets output amount of stable tokens given an exact amount of risky tokens in.
+   *
+   * {@link https://github.com/primitivefinance/rmms-py}
+   *
+   * @param amountIn Amount of risky token to add to risky reserve.
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRiskyFloating Amount of risky tokens in reserve as a floating point decimal number.
+   * @param reserveStableFloating Amount of stable tokens in reserve as a floating point decimal number.
+   * @param reserveLiquidityFloating Total supply of liquidity as a floating point decimal number.
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param gammaFloating Equal to 10_000 - fee, in basis points as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   *
+   * @beta
+   */
+  public static exactRiskyInput(
+    amountIn: number,
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRiskyFloating: number,
+    reserveStableFloating: number,
+    reserveLiquidityFloating: number,
+    strikeFloating: number,
+    sigmaFloating: number,
+    gammaFloating: number,
+    tauYears: number
+  ): ExactInResult {
+    if (amountIn < 0) throw new Error(`Amount in cannot be negative: ${amountIn}`)
+
+    const K = strikeFloating
+    const gamma = gammaFloating
+    const sigma = sigmaFloating
+    const tau = tauYears
+
+    const x = Floating.from(reserveRiskyFloating, decimalsRisky)
+    const y = Floating.from(reserveStableFloating, decimalsStable)
+    const l = Floating.from(reserveLiquidityFloating, 18)
+
+    // Invariant `k` must always be calculated given the curve with `tau`, else the swap happens on a mismatched curve
+    const k = getInvariantApproximation(
+      x.div(l).normalized, // truncates to appropriate decimals
+      y.div(l).normalized,
+      K,
+      sigma,
+      tau,
+      0
+    )
+
+    const x1 = x.add(amountIn * gamma).div(l)
+
+    const yAdjusted = Swaps.getStableGivenRisky(x1.normalized, K, sigma, tau, k)
+    if (typeof yAdjusted === 'undefined')
+      throw new Error(`Next stable reserves are undefined: ${[yAdjusted, x1.normalized, K, sigma, tau, k]}`)
+
+    const y1 = Floating.from(yAdjusted, decimalsStable).mul(l) // liquidity normalized
+
+    const output = y.sub(y1.normalized)
+    if (output.normalized < 0) throw new Error(`Reserves cannot be negative: ${output.normalized}`)
+
+    const res0 = x.add(amountIn).div(l)
+    const res1 = y.sub(output).div(l)
+
+    const invariant = getInvariantApproximation(res0.normalized, res1.normalized, K, sigma, tau, 0)
+    if (invariant < k) throw new Error(`Invariant decreased by: ${k - invariant}`)
+
+    const priceIn = output.div(amountIn).normalized.toString()
+
+    return {
+      output: output.normalized,
+      invariant: invariant,
+      priceIn: priceIn,
+    }
+  }
+
+  /**
+   * Gets output amount of risky tokens given an exact amount of stable tokens in.
+   *
+   * @remarks
+   * Solved numerically on the engine's curve, so the amounts pass its invariant check by at least {@link Swaps.MIN_RESIDUAL},
+   * which is reported as the `residual`. The curve inverted is the engine's fixed point `getStableGivenRisky`, and not
+   * `getStableGivenRiskyApproximation`, as the CDF of the approximation differs from the engine's by up to 3.15e-3,
+   * which is enough for its amounts to revert with `InvariantError`.
+   *
+   * `gammaFloating` is rounded to whole basis points, as the engine stores it.
+   *
+   * {@link https://github.com/primitivefinance/rmms-py}
+   *
+   * @param amountIn Amount of stable tokens to add to stable reserve.
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRiskyFloating Amount of risky tokens in reserve as a floating point decimal number.
+   * @param reserveStableFloating Amount of stable tokens in reserve as a floating point decimal number.
+   * @param reserveLiquidityFloating Total supply of liquidity as a floating point decimal number.
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param gammaFloating Equal to 10_000 - fee, in basis points as a floating point number in decimal format,
+   * rounded to whole basis points like the engine's `gamma`.
+   * @param tauYears Time until expiry in years.
+   *
+   * @beta
+   */
+  public static exactStableInput(
+    amountIn: number,
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRiskyFloating: number,
+    reserveStableFloating: number,
+    reserveLiquidityFloating: number,
+    strikeFloating: number,
+    sigmaFloating: number,
+    gammaFloating: number,
+    tauYears: number
+  ): ExactInResult {
+    if (amountIn < 0) throw new Error(`Amount in cannot be negative: ${amountIn}`)
+
+    const K = strikeFloating
+    const gamma = Math.round(gammaFloating * Units.PERCENTAGE)
+    const sigma = sigmaFloating
+    // The engine's curve is in years of Units.YEAR seconds, which are 27 seconds longer than the years of `Time`
+    const tau = (tauYears * Time.YearInSeconds) / Units.YEAR
+
+    const x = Swaps.toRaw(reserveRiskyFloating, decimalsRisky)
+    const y = Swaps.toRaw(reserveStableFloating, decimalsStable)
+    const l = Swaps.toRaw(reserveLiquidityFloating, 18)
+
+    // Reserves per liquidity are computed with integers and rounded down, like the engine
+    const perLiquidity = (reserve: BigNumber) => reserve.mul(Units.PRECISION).div(l)
+    const invariantOf = (risky: BigNumber, stable: BigNumber) =>
+      Swaps.getEngineInvariant(decimalsRisky, decimalsStable, perLiquidity(risky), perLiquidity(stable), K, sigma, tau)
+
+    // Invariant `k` must always be calculated given the curve with `tau`, else the swap happens on a mismatched curve
+    const k = invariantOf(x, y)
+    const residualOf = (risky: BigNumber, stable: BigNumber) =>
+      new FixedPointX64(invariantOf(risky, stable).raw.sub(k.raw)).parsed
+    const forward = Swaps.getEngineTradingFunction(decimalsRisky, decimalsStable)
+    const tolerance = Math.max(Math.pow(10, -decimalsRisky), Swaps.ROOT_TOLERANCE)
+
+    // Invariant is checked with the fee adjusted reserves, like the engine
+    const deltaIn = Swaps.toRaw(amountIn, decimalsStable)
+    const y1 = y.add(deltaIn.mul(gamma).div(Units.PERCENTAGE))
+    const stablePerLiquidity = new Wei(perLiquidity(y1), decimalsStable).float
+
+    // A high sigma flattens the curve, so stable reserves above it at the lower bound of the bracket have risky reserves
+    // below the bound, and the search for the output starts at the bound
+    const bound = Math.max(Swaps.RISKY_BOUND, tolerance)
+    const solved =
+      Swaps.solveRiskyGivenStable(K, sigma, tau, stablePerLiquidity, k.parsed, forward, tolerance) ??
+      (forward(bound, K, sigma, tau, k.parsed) < stablePerLiquidity ? { root: bound } : undefined)
+    if (typeof solved === 'undefined')
+      throw new Error(`Next risky reserves are undefined: ${[stablePerLiquidity, K, sigma, tau, k.parsed]}`)
+
+    // Output is rounded down, then bracketed by the invariant increasing by at least the min residual
+    let deltaOut = x.sub(Swaps.toRaw(Swaps.ceil(solved.root * reserveLiquidityFloating, decimalsRisky), decimalsRisky))
+    if (deltaOut.isNegative()) throw new Error(`Amount out cannot be negative: ${deltaOut}`)
+
+    // The engine's inverse CDF reverts for risky reserves too far in its tail, so their outputs cannot pass
+    const passes = (amountOut: BigNumber) => {
+      try {
+        return residualOf(x.sub(amountOut), y1) >= Swaps.MIN_RESIDUAL
+      } catch (err) {
+        return false
+      }
+    }
+    let upper = x // empties the risky reserves, so it never passes
+    let step = BigNumber.from(1)
+    if (passes(deltaOut)) {
+      while (deltaOut.add(step).lt(upper) && passes(deltaOut.add(step))) {
+        deltaOut = deltaOut.add(step)
+        step = step.mul(2)
+      }
+      if (deltaOut.add(step).lt(upper)) upper = deltaOut.add(step)
+    } else {
+      while (deltaOut.gt(0) && !passes(deltaOut)) {
+        upper = deltaOut
+        deltaOut = deltaOut.gt(step) ? deltaOut.sub(step) : BigNumber.from(0)
+        step = step.mul(2)
+      }
+    }
+
+    // Bisect to the largest output which passes, as the last step can overshoot it by almost the step
+    while (upper.sub(deltaOut).gt(1)) {
+      const middle = upper.add(deltaOut).div(2)
+      if (passes(middle)) deltaOut = middle
+      else upper = middle
+    }
+
+    const residual = residualOf(x.sub(deltaOut), y1)
+    if (residual < 0) throw new Error(`Invariant decreased by: ${-residual}`)
+
+    const output = new Wei(deltaOut, decimalsRisky).float
+    const invariant = invariantOf(x.sub(deltaOut), y.add(deltaIn)).parsed
+
+    let priceIn: string
+    if (output === 0) priceIn = Floating.INFINITY.toString()
+    else priceIn = Floating.from(amountIn / output, decimalsStable).normalized.toString()
+
+    return {
+      output: output,
+      invariant: invariant,
+      priceIn: priceIn,
+      residual: residual,
+    }
+  }
+
+  /**
+   * Gets input amount of stable tokens given an exact amount of risky tokens out.
+   *
+   * {@link https://github.com/primitivefinance/rmms-py}
+   *
+   * @param amountOut Amount of risky tokens to remove from risky reserve.
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRiskyFloating Amount of risky tokens in reserve as a floating point decimal number.
+   * @param reserveStableFloating Amount of stable tokens in reserve as a floating point decimal number.
+   * @param reserveLiquidityFloating Total supply of liquidity as a floating point decimal number.
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param gammaFloating Equal to 10_000 - fee, in basis points as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   *
+   * @beta
+   */
+  public static exactRiskyOutput(
+    amountOut: number,
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRiskyFloating: number,
+    reserveStableFloating: number,
+    reserveLiquidityFloating: number,
+    strikeFloating: number,
+    sigmaFloating: number,
+    gammaFloating: number,
+    tauYears: number
+  ): ExactOutResult {
+    if (amountOut < 0) throw new Error(`Amount out cannot be negative: ${amountOut}`)
+
+    const K = strikeFloating
+    const gamma = gammaFloating
+    const sigma = sigmaFloating
+    const tau = tauYears
+
+    const x = Floating.from(reserveRiskyFloating, decimalsRisky)
+    const y = Floating.from(reserveStableFloating, decimalsStable)
+    const l = Floating.from(reserveLiquidityFloating, 18)
+
+    // Invariant `k` must always be calculated given the curve with `tau`, else the swap happens on a mismatched curve
+    const k = getInvariantApproximation(
+      x.div(l).normalized, // truncates to appropriate decimals
+      y.div(l).normalized,
+      K,
+      sigma,
+      tau,
+      0
+    )
+    const x1 = x.sub(amountOut).div(l)
+
+    const yAdjusted = Swaps.getStableGivenRisky(K, sigma, tau, x1.normalized) // fix: doesn't use approx (which works?)
+    if (typeof yAdjusted === 'undefined') throw new Error(`Adjusted stable reserve cannot be undefined: ${yAdjusted}`)
+
+    const y1 = Floating.from(yAdjusted, decimalsStable).mul(l)
+
+    const input = y1.sub(y)
+    const inputWithFee = input.div(gamma)
+
+    const res0 = x1
+    const res1 = y.add(input).div(l)
+
+    const invariant = getInvariantApproximation(res0.normalized, res1.normalized, K, sigma, tau, 0)
+    if (invariant < k) throw new Error(`Invariant decreased by: ${k - invariant}`)
+
+    let priceIn: string
+    if (inputWithFee.normalized === 0) priceIn = Floating.INFINITY.toString()
+    else priceIn = inputWithFee.div(amountOut).normalized.toString()
+
+    return {
+      input: inputWithFee.normalized,
+      invariant: invariant,
+      priceIn: priceIn,
+    }
+  }
+
+  /**
+   * Gets input amount of risky tokens given an exact amount of stable tokens out.
+   *
+   * @remarks
+   * Solved numerically on the engine's curve, so the amounts pass its invariant check by at least {@link Swaps.MIN_RESIDUAL},
+   * which is reported as the `residual`. The curve inverted is the engine's fixed point `getStableGivenRisky`, and not
+   * `getStableGivenRiskyApproximation`, as the CDF of the approximation differs from the engine's by up to 3.15e-3,
+   * which is enough for its amounts to revert with `InvariantError`.
+   *
+   * `gammaFloating` is rounded to whole basis points, as the engine stores it.
+   *
+   * {@link https://github.com/primitivefinance/rmms-py}
+   *
+   * @param amountOut Amount of stable tokens to remove from stable reserve.
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRiskyFloating Amount of risky tokens in reserve as a floating point decimal number.
+   * @param reserveStableFloating Amount of stable tokens in reserve as a floating point decimal number.
+   * @param reserveLiquidityFloating Total supply of liquidity as a floating point decimal number.
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param gammaFloating Equal to 10_000 - fee, in basis points as a floating point number in decimal format,
+   * rounded to whole basis points like the engine's `gamma`.
+   * @param tauYears Time until expiry in years.
+   *
+   * @beta
+   */
+  public static exactStableOutput(
+    amountOut: number,
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRiskyFloating: number,
+    reserveStableFloating: number,
+    reserveLiquidityFloating: number,
+    strikeFloating: number,
+    sigmaFloating: number,
+    gammaFloating: number,
+    tauYears: number
+  ): ExactOutResult {
+    if (amountOut < 0) throw new Error(`Amount in cannot be negative: ${amountOut}`)
+    if (amountOut >= reserveStableFloating)
+      throw new Error(`Amount out exceeds stable reserves: ${[amountOut, reserveStableFloating]}`)
+
+    const K = strikeFloating
+    const gamma = Math.round(gammaFloating * Units.PERCENTAGE)
+    const sigma = sigmaFloating
+    // The engine's curve is in years of Units.YEAR seconds, which are 27 seconds longer than the years of `Time`
+    const tau = (tauYears * Time.YearInSeconds) / Units.YEAR
+
+    const x = Swaps.toRaw(reserveRiskyFloating, decimalsRisky)
+    const y = Swaps.toRaw(reserveStableFloating, decimalsStable)
+    const l = Swaps.toRaw(reserveLiquidityFloating, 18)
+
+    // Reserves per liquidity are computed with integers and rounded down, like the engine
+    const perLiquidity = (reserve: BigNumber) => reserve.mul(Units.PRECISION).div(l)
+    const invariantOf = (risky: BigNumber, stable: BigNumber) =>
+      Swaps.getEngineInvariant(decimalsRisky, decimalsStable, perLiquidity(risky), perLiquidity(stable), K, sigma, tau)
+
+    // Invariant `k` must always be calculated given the curve with `tau`, else the swap happens on a mismatched curve
+    const k = invariantOf(x, y)
+    const residualOf = (risky: BigNumber, stable: BigNumber) =>
+      new FixedPointX64(invariantOf(risky, stable).raw.sub(k.raw)).parsed
+    const forward = Swaps.getEngineTradingFunction(decimalsRisky, decimalsStable)
+    const tolerance = Math.max(Math.pow(10, -decimalsRisky), Swaps.ROOT_TOLERANCE)
+
+    const y1 = y.sub(Swaps.toRaw(amountOut, decimalsStable))
+    const stablePerLiquidity = new Wei(perLiquidity(y1), decimalsStable).float
+
+    const solved = Swaps.solveRiskyGivenStable(K, sigma, tau, stablePerLiquidity, k.parsed, forward, tolerance)
+    if (typeof solved === 'undefined')
+      throw new Error(`Next risky reserves are undefined: ${[stablePerLiquidity, K, sigma, tau, k.parsed]}`)
+
+    // Input is rounded up, then bracketed by the invariant increasing by at least the min residual
+    const riskyDelta = Math.max(solved.root * reserveLiquidityFloating - reserveRiskyFloating, 0)
+    let deltaInWithFee = Swaps.toRaw(Swaps.ceil(riskyDelta, decimalsRisky), decimalsRisky)
+
+    const passes = (withFee: BigNumber) => residualOf(x.add(withFee), y1) >= Swaps.MIN_RESIDUAL
+    let lower = BigNumber.from(-1) // below any input, so it is never checked
+    let step = BigNumber.from(1)
+    if (passes(deltaInWithFee)) {
+      while (deltaInWithFee.sub(step).gte(0) && passes(deltaInWithFee.sub(step))) {
+        deltaInWithFee = deltaInWithFee.sub(step)
+        step = step.mul(2)
+      }
+      if (deltaInWithFee.sub(step).gte(0)) lower = deltaInWithFee.sub(step)
+    } else {
+      while (!passes(deltaInWithFee)) {
+        lower = deltaInWithFee
+        deltaInWithFee = deltaInWithFee.add(step)
+        step = step.mul(2)
+        if (perLiquidity(x.add(deltaInWithFee)).gte(Units.PRECISION.div(Math.pow(10, 18 - decimalsRisky))))
+          throw new Error(`Risky reserves per liquidity must be less than 1: ${deltaInWithFee}`)
+      }
+    }
+
+    // Bisect to the smallest input which passes, as the last step can overshoot it by almost the step
+    while (deltaInWithFee.sub(lower).gt(1)) {
+      const middle = deltaInWithFee.add(lower).div(2)
+      if (passes(middle)) deltaInWithFee = middle
+      else lower = middle
+    }
+
+    // Engine applies the fee to the amount in and rounds down, so the amount in is rounded up
+    const deltaIn = deltaInWithFee
+      .mul(Units.PERCENTAGE)
+      .add(gamma - 1)
+      .div(gamma)
+    const x1 = x.add(deltaIn.mul(gamma).div(Units.PERCENTAGE))
+
+    const residual = residualOf(x1, y1)
+    const input = new Wei(deltaIn, decimalsRisky).float
+    const invariant = invariantOf(x1, y1).parsed
+
+    let priceIn: string
+    if (input === 0) priceIn = Floating.INFINITY.toString()
+    else priceIn = Floating.from(amountOut / input, decimalsStable).normalized.toString()
+
+    return {
+      input: input,
+      invariant: invariant,
+      priceIn: priceIn,
+      residual: residual,
+    }
+  }
+}
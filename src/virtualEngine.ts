@@ -0,0 +1,323 @@
+import { constants } from 'ethers'
+import { FixedPointX64, Time, Wei, parseWei } from 'web3-units'
+import { Calibration } from './calibration'
+import { ReserveObservation, accumulate } from './oracle'
+import { ExactOutReturn, LiquidityReturn, VirtualPool, clonePool } from './virtualPool'
+
+/** Margin balances of an account, like the engine's `Margin.Data`. */
+export interface MarginData {
+  balanceRisky: Wei
+  balanceStable: Wei
+}
+
+export interface CreateReturn extends LiquidityReturn {
+  poolId: string
+}
+
+/**
+ * Model of a PrimitiveEngine with many pools, which mirrors its storage and the effects of its actions.
+ *
+ * @remarks
+ * Pools are `VirtualPool`s with the engine's fixed point math, so the state of this model can be compared to a
+ * `MockEngine` to the wei after any sequence of actions. Every action is atomic like a transaction: it either applies
+ * all of its state changes or throws the engine's custom error, formatted like `Calibration.assertValid`, and
+ * changes nothing. Callbacks are assumed to pay the exact amounts requested.
+ *
+ * @beta
+ */
+export class VirtualEngine {
+  /** Pools by poolId, with the clock and lastTimestamp of their last update. */
+  public readonly pools: Map<string, VirtualPool> = new Map()
+  /** Risky tokens held by the engine, i.e. its `balanceRisky()`. */
+  public balanceRisky: Wei
+  /** Stable tokens held by the engine, i.e. its `balanceStable()`. */
+  public balanceStable: Wei
+  /** Current timestamp of the engine, like the `time` of the MockEngine. */
+  public blockTimestamp: Time
+
+  private readonly _margins: Map<string, MarginData> = new Map()
+  private readonly _liquidity: Map<string, Map<string, Wei>> = new Map()
+  private readonly _reserves: Map<string, ReserveObservation> = new Map()
+
+  /**
+   * @param address Address of the modeled engine, which poolIds are computed with.
+   * @param decimalsRisky Decimals of the engine's risky token.
+   * @param decimalsStable Decimals of the engine's stable token.
+   * @param blockTimestamp Initial timestamp in seconds, defaults to the initial `time` of the MockEngine.
+   */
+  constructor(
+    public readonly address: string,
+    public readonly decimalsRisky: number = 18,
+    public readonly decimalsStable: number = 18,
+    blockTimestamp: number = 1
+  ) {
+    this.balanceRisky = parseWei(0, decimalsRisky)
+    this.balanceStable = parseWei(0, decimalsStable)
+    this.blockTimestamp = new Time(blockTimestamp)
+  }
+
+  /**
+   * Advances the engine's clock, like the MockEngine's `advanceTime`.
+   */
+  advanceTime(by: number): Time {
+    this.blockTimestamp = this.blockTimestamp.add(by)
+    return this.blockTimestamp
+  }
+
+  // ===== View =====
+
+  /**
+   * @returns calibration of the pool, with the lastTimestamp of its last swap or update.
+   */
+  calibrations(poolId: string): Calibration {
+    const { cal, lastTimestamp } = this.getPool(poolId)
+    return new Calibration(
+      cal.strike,
+      cal.sigma,
+      cal.maturity,
+      lastTimestamp,
+      cal.referencePrice,
+      cal.gamma,
+      cal.decimalsRisky,
+      cal.decimalsStable
+    )
+  }
+
+  /**
+   * @returns reserves of the pool with their cumulative values, like the engine's `Reserve.Data`.
+   */
+  reserves(poolId: string): ReserveObservation {
+    const reserve = this._reserves.get(poolId)
+    if (!reserve) throw new Error(`UninitializedError()`)
+    return reserve
+  }
+
+  margins(account: string): MarginData {
+    return (
+      this._margins.get(account.toLowerCase()) ?? {
+        balanceRisky: parseWei(0, this.decimalsRisky),
+        balanceStable: parseWei(0, this.decimalsStable),
+      }
+    )
+  }
+
+  liquidity(account: string, poolId: string): Wei {
+    return this._liquidity.get(account.toLowerCase())?.get(poolId) ?? parseWei(0)
+  }
+
+  invariantOf(poolId: string): FixedPointX64 {
+    const pool = this.getPool(poolId)
+    return pool.invariantOf(pool.reserveRisky, pool.reserveStable)
+  }
+
+  // ===== Actions =====
+
+  /**
+   * Creates a pool like the engine's `create`, with the lastTimestamp of the calibration set to the engine's clock.
+   *
+   * @param sender Account which pays for the reserves and receives the liquidity, less the burned `MIN_LIQUIDITY`.
+   * @param cal Strike, sigma, maturity and gamma of the pool.
+   * @param riskyPerLp Risky reserves per 1e18 liquidity.
+   * @param delLiquidity Total liquidity of the pool, including the burned `MIN_LIQUIDITY`.
+   */
+  create(sender: string, cal: Calibration, riskyPerLp: Wei, delLiquidity: Wei): CreateReturn {
+    const calibration = new Calibration(
+      cal.strike,
+      cal.sigma,
+      cal.maturity,
+      this.blockTimestamp,
+      cal.referencePrice,
+      cal.gamma,
+      this.decimalsRisky,
+      this.decimalsStable
+    )
+    const poolId = calibration.poolId(this.address)
+    if (this.pools.has(poolId)) throw new Error(`PoolDuplicateError()`)
+
+    const created = VirtualPool.create(calibration, riskyPerLp, delLiquidity, true)
+    this.pools.set(poolId, created.pool)
+    this.setLiquidity(sender, poolId, this.liquidity(sender, poolId).add(created.delLiquidity))
+    this._reserves.set(poolId, {
+      ...reservesOf(created.pool),
+      blockTimestamp: this.blockTimestamp.raw,
+      cumulativeRisky: constants.Zero,
+      cumulativeStable: constants.Zero,
+      cumulativeLiquidity: constants.Zero,
+    })
+    this.balanceRisky = this.balanceRisky.add(created.delRisky)
+    this.balanceStable = this.balanceStable.add(created.delStable)
+    return { ...created, poolId }
+  }
+
+  /**
+   * Adds tokens paid by the sender to the margin of `recipient`.
+   */
+  deposit(sender: string, recipient: string, delRisky: Wei, delStable: Wei): MarginData {
+    if (delRisky.raw.isZero() && delStable.raw.isZero()) throw new Error(`ZeroDeltasError()`)
+    const margin = this.margins(recipient)
+    this.setMargin(recipient, margin.balanceRisky.add(delRisky), margin.balanceStable.add(delStable))
+    this.balanceRisky = this.balanceRisky.add(delRisky)
+    this.balanceStable = this.balanceStable.add(delStable)
+    return this.margins(recipient)
+  }
+
+  /**
+   * Removes tokens from the margin of the sender, which are sent to a recipient.
+   */
+  withdraw(sender: string, recipient: string, delRisky: Wei, delStable: Wei): MarginData {
+    if (delRisky.raw.isZero() && delStable.raw.isZero()) throw new Error(`ZeroDeltasError()`)
+    this.withdrawMargin(sender, delRisky, delStable)
+    this.balanceRisky = this.balanceRisky.sub(delRisky)
+    this.balanceStable = this.balanceStable.sub(delStable)
+    return this.margins(sender)
+  }
+
+  /**
+   * Adds tokens to the reserves of a pool, minting liquidity to `recipient`.
+   *
+   * @param fromMargin Pays with the margin of the sender instead of a callback.
+   */
+  allocate(
+    sender: string,
+    poolId: string,
+    recipient: string,
+    delRisky: Wei,
+    delStable: Wei,
+    fromMargin: boolean
+  ): LiquidityReturn {
+    if (delRisky.raw.isZero() || delStable.raw.isZero()) throw new Error(`ZeroDeltasError()`)
+    const pool = this.clone(poolId)
+    const allocated = pool.allocate(delRisky, delStable)
+    if (fromMargin) this.withdrawMargin(sender, delRisky, delStable)
+    else {
+      this.balanceRisky = this.balanceRisky.add(delRisky)
+      this.balanceStable = this.balanceStable.add(delStable)
+    }
+
+    this.setLiquidity(recipient, poolId, this.liquidity(recipient, poolId).add(allocated.delLiquidity))
+    this.update(poolId, pool)
+    return allocated
+  }
+
+  /**
+   * Burns liquidity of the sender, adding its share of the reserves to the sender's margin.
+   */
+  remove(sender: string, poolId: string, delLiquidity: Wei): LiquidityReturn {
+    if (delLiquidity.raw.isZero()) throw new Error(`ZeroLiquidityError()`)
+    const pool = this.clone(poolId)
+    const position = this.liquidity(sender, poolId)
+    if (position.lt(delLiquidity)) throw new Error(`Panic(0x11)`)
+
+    const removed = pool.remove(delLiquidity)
+    this.setLiquidity(sender, poolId, position.sub(delLiquidity))
+    const margin = this.margins(sender)
+    this.setMargin(sender, margin.balanceRisky.add(removed.delRisky), margin.balanceStable.add(removed.delStable))
+    this.update(poolId, pool)
+    return removed
+  }
+
+  /**
+   * Swaps like the engine's `swap`, which updates the lastTimestamp of the pool before checking its invariant.
+   *
+   * @param fromMargin Pays deltaIn with the margin of the sender instead of a callback.
+   * @param toMargin Adds deltaOut to the margin of `recipient` instead of sending it.
+   */
+  swap(
+    sender: string,
+    recipient: string,
+    poolId: string,
+    riskyForStable: boolean,
+    deltaIn: Wei,
+    deltaOut: Wei,
+    fromMargin: boolean,
+    toMargin: boolean
+  ): ExactOutReturn {
+    if (deltaIn.raw.isZero()) throw new Error(`DeltaInError()`)
+    if (deltaOut.raw.isZero()) throw new Error(`DeltaOutError()`)
+    const pool = this.clone(poolId)
+    pool.updateLastTimestamp()
+    if (pool.expired) throw new Error(`PoolExpiredError()`)
+    const swapped = pool.swap(riskyForStable, deltaIn, deltaOut)
+
+    const [riskyOut, stableOut] = riskyForStable ? [deltaOut.mul(0), deltaOut] : [deltaOut, deltaOut.mul(0)]
+    const [riskyIn, stableIn] = riskyForStable ? [deltaIn, deltaIn.mul(0)] : [deltaIn.mul(0), deltaIn]
+    // the payment is the only check left, so it is applied first to keep the swap atomic
+    if (fromMargin) this.withdrawMargin(sender, riskyIn, stableIn)
+    else {
+      this.balanceRisky = this.balanceRisky.add(riskyIn)
+      this.balanceStable = this.balanceStable.add(stableIn)
+    }
+
+    if (toMargin) {
+      const margin = this.margins(recipient)
+      this.setMargin(recipient, margin.balanceRisky.add(riskyOut), margin.balanceStable.add(stableOut))
+    } else {
+      this.balanceRisky = this.balanceRisky.sub(riskyOut)
+      this.balanceStable = this.balanceStable.sub(stableOut)
+    }
+
+    this.update(poolId, pool)
+    return swapped
+  }
+
+  /**
+   * Sets the lastTimestamp of a pool to the engine's clock, with a max of its maturity.
+   */
+  updateLastTimestamp(poolId: string): Time {
+    const pool = this.getPool(poolId)
+    pool.blockTimestamp = this.blockTimestamp
+    return pool.updateLastTimestamp()
+  }
+
+  /**
+   * @returns pool of `poolId`, throwing the engine's `UninitializedError` if it was not created.
+   */
+  private getPool(poolId: string): VirtualPool {
+    const pool = this.pools.get(poolId)
+    if (!pool) throw new Error(`UninitializedError()`)
+    return pool
+  }
+
+  /**
+   * @returns copy of a pool at the engine's clock, which replaces the pool in `update` if the action succeeds.
+   */
+  private clone(poolId: string): VirtualPool {
+    const last = this.getPool(poolId)
+    const pool = clonePool(last, last.reserveRisky, last.reserveStable)
+    pool.invariant = last.invariant
+    pool.blockTimestamp = this.blockTimestamp
+    return pool
+  }
+
+  /**
+   * Stores the pool, accumulating the reserves of its last update to the engine's clock like `Reserve.update`.
+   */
+  private update(poolId: string, pool: VirtualPool): void {
+    this.pools.set(poolId, pool)
+    this._reserves.set(poolId, { ...accumulate(this.reserves(poolId), this.blockTimestamp.raw), ...reservesOf(pool) })
+  }
+
+  /**
+   * Removes tokens from the margin of an account, throwing the engine's arithmetic underflow if it is insufficient.
+   */
+  private withdrawMargin(account: string, delRisky: Wei, delStable: Wei): void {
+    const margin = this.margins(account)
+    if (margin.balanceRisky.lt(delRisky) || margin.balanceStable.lt(delStable)) throw new Error(`Panic(0x11)`)
+    this.setMargin(account, margin.balanceRisky.sub(delRisky), margin.balanceStable.sub(delStable))
+  }
+
+  private setMargin(account: string, balanceRisky: Wei, balanceStable: Wei): void {
+    this._margins.set(account.toLowerCase(), { balanceRisky, balanceStable })
+  }
+
+  private setLiquidity(account: string, poolId: string, liquidity: Wei): void {
+    const key = account.toLowerCase()
+    const positions = this._liquidity.get(key) ?? new Map<string, Wei>()
+    positions.set(poolId, liquidity)
+    this._liquidity.set(key, positions)
+  }
+}
+
+function reservesOf(pool: VirtualPool): Pick<ReserveObservation, 'reserveRisky' | 'reserveStable' | 'liquidity'> {
+  return { reserveRisky: pool.reserveRisky.raw, reserveStable: pool.reserveStable.raw, liquidity: pool.liquidity.raw }
+}
@@ -0,0 +1,1059 @@
+import { BigNumber } from 'ethers'
+import { Wei, Time, FixedPointX64, parseFixedPointX64, parseWei, toBN, Percentage } from 'web3-units'
+import {
+  quantilePrime,
+  std_n_pdf,
+  inverse_std_n_cdf,
+  nonNegative,
+  getSpotPriceApproximation,
+} from '@primitivefi/rmm-math'
+import { getStableGivenRisky, getRiskyGivenStable, calcInvariant } from '@primitivefi/rmm-math'
+import { Calibration } from './calibration'
+import { ReplicationMath } from './fixedPointMath'
+import { Greeks, getReplicatedGreeks } from './greeks'
+import { Swaps } from './swaps'
+import { EngineTypes } from '../types'
+
+export const PERCENTAGE = 10 ** Percentage.Mantissa
+export const PRECISION: Wei = parseWei('1', 18)
+export const GAMMA = 9985
+/** Scale of the fee growth per liquidity, so the fees of a swap smaller than the raw liquidity still accrue */
+export const FEE_GROWTH_X128 = toBN(2).pow(128)
+
+export const clonePool = (poolToClone: VirtualPool, newRisky: Wei, newStable: Wei): VirtualPool => {
+  const pool = new VirtualPool(
+    poolToClone.cal,
+    newRisky,
+    poolToClone.liquidity,
+    newStable ?? newStable,
+    parseFixedPointX64(0),
+    poolToClone.exact
+  )
+  // the clone keeps the clock of the pool, so its invariant is computed with the same tau
+  pool.blockTimestamp = poolToClone.blockTimestamp
+  pool.lastTimestamp = poolToClone.lastTimestamp
+  pool.calcTau()
+  if (pool.exact) pool.getAndSetNewInvariant()
+  // the clone keeps the fee ledger, so fees of a sequence of virtual swaps accrue to the last pool
+  pool.feesRisky = poolToClone.feesRisky
+  pool.feesStable = poolToClone.feesStable
+  pool.feeGrowthRiskyX128 = poolToClone.feeGrowthRiskyX128
+  pool.feeGrowthStableX128 = poolToClone.feeGrowthStableX128
+  return pool
+}
+
+export interface SwapReturn {
+  deltaOut: Wei
+  pool: VirtualPool
+  effectivePriceOutStable?: Wei
+}
+
+export interface DebugReturn extends SwapReturn {
+  invariantLast?: FixedPointX64
+  deltaInWithFee?: Wei
+  nextInvariant?: FixedPointX64
+}
+
+export interface ExactOutReturn extends DebugReturn {
+  deltaIn: Wei
+}
+
+export interface ArbitragePlan extends ExactOutReturn {
+  riskyForStable: boolean
+  /** Spot price of the post-trade pool */
+  spotPrice: Wei
+  /** True if the spot price of the post-trade pool is within the tolerance of the target price */
+  reached: boolean
+}
+
+export interface LiquidityReturn {
+  delRisky: Wei
+  delStable: Wei
+  delLiquidity: Wei
+  pool: VirtualPool
+}
+
+/** Cumulative raw fees per raw unit of liquidity, scaled by 2^128 */
+export interface FeeGrowth {
+  feeGrowthRiskyX128: BigNumber
+  feeGrowthStableX128: BigNumber
+}
+
+export interface FeesEarned {
+  feesRisky: Wei
+  feesStable: Wei
+}
+
+export interface PoolState {
+  reserveRisky: Wei
+  reserveStable: Wei
+  liquidity: Wei
+}
+
+/**
+ * @notice Virtualized instance of a pool using any reserve amounts
+ */
+export class VirtualPool {
+  public static readonly PRECISION: Wei = PRECISION
+  public static readonly GAMMA: number = GAMMA
+  public static readonly FEE: number = GAMMA / PERCENTAGE
+  /** Seconds after maturity in which the engine still accepts swaps */
+  public static readonly BUFFER: number = 120
+  public liquidity: Wei
+  public readonly cal: Calibration
+
+  /// ===== State of Virtual Pool =====
+  public _reserveRisky: Wei
+  public _reserveStable: Wei
+  public _invariant: FixedPointX64
+  public tau: Time
+  /** Current timestamp of this pool's clock, like the `time` of the MockEngine */
+  public blockTimestamp: Time
+  /** Timestamp tau is computed from, the clock's timestamp of the last update with a max of the maturity */
+  public lastTimestamp: Time
+  public debug: boolean = false
+  /** Uses the fixed point math of the engine instead of floating point approximations */
+  public exact: boolean
+
+  /// ===== Fee Ledger =====
+  /** Cumulative fees paid to the pool by swaps in risky tokens, the part of deltaIn which is not fee adjusted */
+  public feesRisky: Wei
+  /** Cumulative fees paid to the pool by swaps in stable tokens */
+  public feesStable: Wei
+  /** Cumulative risky fees per raw unit of liquidity scaled by 2^128, each fee divided by the liquidity of its swap */
+  public feeGrowthRiskyX128: BigNumber
+  /** Cumulative stable fees per raw unit of liquidity scaled by 2^128 */
+  public feeGrowthStableX128: BigNumber
+
+  /**
+   * @notice Builds a typescript representation of a single curve within an Engine contract
+   * @param initialRisky Reserve amount to initialize the pool's risky tokens
+   * @param liquidity Total liquidity supply to initialize the pool with
+   * @param overrideStable The initial stable reserve value
+   * @param exact Computes swaps and invariants with the engine's fixed point math, matching it to the wei
+   */
+  constructor(
+    cal: Calibration,
+    initialRisky: Wei,
+    liquidity: Wei,
+    overrideStable?: Wei,
+    overrideInvariant?: FixedPointX64,
+    exact: boolean = false
+  ) {
+    // ===== State =====
+    this._reserveRisky = initialRisky
+    this.liquidity = liquidity
+    this.cal = cal
+    this.exact = exact
+    this.blockTimestamp = cal.lastTimestamp
+    this.lastTimestamp = cal.lastTimestamp
+    this.feesRisky = parseWei(0, cal.decimalsRisky)
+    this.feesStable = parseWei(0, cal.decimalsStable)
+    this.feeGrowthRiskyX128 = toBN(0)
+    this.feeGrowthStableX128 = toBN(0)
+    // ===== Calculations using State ====-
+    this.tau = this.calcTau() // maturity - lastTimestamp
+    this._invariant = overrideInvariant ? overrideInvariant : parseFixedPointX64(0)
+    this._reserveStable = overrideStable ? overrideStable : this.getStableGivenRisky(this._reserveRisky)
+    // the engine always computes the invariant from the reserves, see `invariantOf`
+    if (exact && !overrideInvariant) this.getAndSetNewInvariant()
+  }
+
+  get invariant(): FixedPointX64 {
+    return this._invariant
+  }
+
+  set invariant(i: FixedPointX64) {
+    this._invariant = i
+  }
+
+  get reserveRisky(): Wei {
+    return this._reserveRisky
+  }
+
+  get reserveStable(): Wei {
+    return this._reserveStable
+  }
+
+  set reserveRisky(r: Wei) {
+    this._reserveRisky = r
+  }
+
+  set reserveStable(r: Wei) {
+    this._reserveStable = r
+  }
+
+  /**
+   * @return feeGrowth Snapshot of the cumulative fees per liquidity, to checkpoint a liquidity position
+   */
+  get feeGrowth(): FeeGrowth {
+    return { feeGrowthRiskyX128: this.feeGrowthRiskyX128, feeGrowthStableX128: this.feeGrowthStableX128 }
+  }
+
+  /**
+   * @notice Computes the fees accrued to a liquidity position since a checkpoint of the fee growth
+   * @dev The liquidity must be held for the whole period, so checkpoint again after it changes
+   * @param liquidity Liquidity of the position
+   * @param checkpoint Fee growth when the position was last checkpointed, defaults to the pool's creation
+   * @return feesRisky Risky fees earned by the position, rounded down
+   * @return feesStable Stable fees earned by the position, rounded down
+   */
+  getFeesEarned(
+    liquidity: Wei,
+    checkpoint: FeeGrowth = { feeGrowthRiskyX128: toBN(0), feeGrowthStableX128: toBN(0) }
+  ): FeesEarned {
+    const earned = (growthX128: BigNumber) => growthX128.mul(liquidity.raw).div(FEE_GROWTH_X128)
+    return {
+      feesRisky: new Wei(earned(this.feeGrowthRiskyX128.sub(checkpoint.feeGrowthRiskyX128)), this.cal.decimalsRisky),
+      feesStable: new Wei(
+        earned(this.feeGrowthStableX128.sub(checkpoint.feeGrowthStableX128)),
+        this.cal.decimalsStable
+      ),
+    }
+  }
+
+  /**
+   * @param reserveRisky Amount of risky tokens in reserve
+   * @return reserveStable Expected amount of stable token reserves
+   */
+  getStableGivenRisky(reserveRisky: Wei, noInvariant?: boolean): Wei {
+    const decimals = this.cal.decimalsStable
+    if (this.exact) {
+      const stable = ReplicationMath.getStableGivenRisky(
+        noInvariant ? 0 : this._invariant.raw,
+        this.cal.scaleFactorRisky,
+        this.cal.scaleFactorStable,
+        reserveRisky.raw,
+        this.cal.strike.raw,
+        this.cal.sigma.raw,
+        this.tau.raw
+      )
+      return new Wei(stable, decimals)
+    }
+
+    let invariant = this._invariant.parsed
+
+    let stable = getStableGivenRisky(
+      reserveRisky.float,
+      this.cal.strike.float,
+      this.cal.sigma.float,
+      this.tau.years,
+      noInvariant ? 0 : invariant
+    )
+
+    if (isNaN(stable)) return parseWei(0, decimals)
+    return parseWei(stable, decimals)
+  }
+
+  /**
+   *
+   * @param reserveStable Amount of stable tokens in reserve
+   * @return reserveRisky Expected amount of risky token reserves
+   */
+  getRiskyGivenStable(reserveStable: Wei, noInvariant?: boolean): Wei {
+    const decimals = this.cal.decimalsRisky
+    if (this.exact) {
+      const risky = ReplicationMath.getRiskyGivenStable(
+        noInvariant ? 0 : this._invariant.raw,
+        this.cal.scaleFactorRisky,
+        this.cal.scaleFactorStable,
+        reserveStable.raw,
+        this.cal.strike.raw,
+        this.cal.sigma.raw,
+        this.tau.raw
+      )
+      return new Wei(risky, decimals)
+    }
+
+    let invariant = this._invariant.parsed
+
+    let risky = getRiskyGivenStable(
+      reserveStable.float,
+      this.cal.strike.float,
+      this.cal.sigma.float,
+      this.tau.years,
+      noInvariant ? 0 : invariant
+    )
+
+    if (isNaN(risky)) return parseWei(0, decimals)
+    return parseWei(risky, decimals)
+  }
+
+  /**
+   * @return tau Calculated tau using this Pool's maturity timestamp and lastTimestamp
+   */
+  calcTau(): Time {
+    this.tau = this.cal.maturity.sub(this.lastTimestamp)
+    return this.tau
+  }
+
+  /**
+   * @notice Advances the clock of this pool and updates its lastTimestamp, like swapping after `advanceTime`
+   * @param by Seconds to advance the clock by
+   * @return tau Time until expiry at the new lastTimestamp
+   */
+  advanceTime(by: number): Time {
+    this.blockTimestamp = this.blockTimestamp.add(by)
+    this.updateLastTimestamp()
+    return this.tau
+  }
+
+  /**
+   * @notice Sets the lastTimestamp to the clock's timestamp, with a max of the maturity, like the engine's
+   * `updateLastTimestamp`, then recomputes tau and the invariant of the repriced curve
+   * @return lastTimestamp Timestamp tau is computed from
+   */
+  updateLastTimestamp(): Time {
+    const maturity = this.cal.maturity
+    this.lastTimestamp = this.blockTimestamp.gt(maturity.raw) ? maturity : this.blockTimestamp
+    this.calcTau()
+    this.getAndSetNewInvariant()
+    return this.lastTimestamp
+  }
+
+  /**
+   * @return expired True if the engine would revert swaps with `PoolExpiredError` at the clock's timestamp
+   */
+  get expired(): boolean {
+    return this.blockTimestamp.gt(this.cal.maturity.raw + VirtualPool.BUFFER)
+  }
+
+  /**
+   * @return invariant Calculated invariant using this Pool's state
+   */
+  getAndSetNewInvariant(): FixedPointX64 {
+    this._invariant = this.invariantOf(this._reserveRisky, this._reserveStable)
+    return this._invariant
+  }
+
+  /**
+   * @param reserveRisky Amount of risky tokens in reserve
+   * @param reserveStable Amount of stable tokens in reserve
+   * @return invariant Calculated invariant of the reserves using this Pool's liquidity and curve
+   */
+  invariantOf(reserveRisky: Wei, reserveStable: Wei): FixedPointX64 {
+    if (this.exact) {
+      // same as the engine's `invariantOf`, which uses the reserves of 1e18 liquidity
+      const riskyPerLiquidity = reserveRisky.mul(PRECISION).div(this.liquidity)
+      const stablePerLiquidity = reserveStable.mul(PRECISION).div(this.liquidity)
+      const invariant = ReplicationMath.calcInvariant(
+        this.cal.scaleFactorRisky,
+        this.cal.scaleFactorStable,
+        riskyPerLiquidity.raw,
+        stablePerLiquidity.raw,
+        this.cal.strike.raw,
+        this.cal.sigma.raw,
+        this.tau.raw
+      )
+      return new FixedPointX64(invariant)
+    }
+
+    const risky = reserveRisky.float / this.liquidity.float
+    const stable = reserveStable.float / this.liquidity.float
+    let invariant = calcInvariant(risky, stable, this.cal.strike.float, this.cal.sigma.float, this.tau.years)
+    invariant = Math.floor(invariant * Math.pow(10, 18))
+    return new FixedPointX64(
+      toBN(invariant === NaN ? 0 : invariant)
+        .mul(FixedPointX64.Denominator)
+        .div(PRECISION.raw)
+    )
+  }
+
+  /**
+   * @notice Builds a pool from the calibration, reserves and invariant of a pool in a deployed engine
+   * @param poolId Keccak256 hash of the engine address and calibration parameters
+   * @param referencePrice Price of the risky asset in the stable asset as a float, defaults to the spot price of the
+   * reserves, see `Calibration.fromEngine`
+   * @param exact Computes swaps and invariants with the engine's fixed point math
+   * @return pool In sync with the engine, with its clock at the pool's lastTimestamp
+   */
+  static async fromEngine(
+    engine: EngineTypes,
+    poolId: string,
+    referencePrice?: number,
+    exact: boolean = false
+  ): Promise<VirtualPool> {
+    const [cal, reserve, invariant] = await Promise.all([
+      Calibration.fromEngine(engine, poolId, referencePrice),
+      engine.reserves(poolId),
+      engine.invariantOf(poolId),
+    ])
+    return new VirtualPool(
+      cal,
+      new Wei(reserve.reserveRisky, cal.decimalsRisky),
+      new Wei(reserve.liquidity, 18),
+      new Wei(reserve.reserveStable, cal.decimalsStable),
+      new FixedPointX64(invariant),
+      exact
+    )
+  }
+
+  /**
+   * @notice Liquidity burned when a pool is created, equal to the engine's `MIN_LIQUIDITY`
+   */
+  static minLiquidity(cal: Calibration): Wei {
+    return new Wei(toBN(10).pow(Math.floor(cal.MIN_LIQUIDITY)), 18)
+  }
+
+  /**
+   * @notice Creates a pool like the engine's `create`, which burns `MIN_LIQUIDITY` from the creator's liquidity
+   * @param riskyPerLp Risky reserves per 1e18 liquidity
+   * @param delLiquidity Total liquidity of the pool, including the burned `MIN_LIQUIDITY`
+   * @param exact Computes swaps and invariants with the engine's fixed point math
+   * @return delLiquidity Liquidity of the creator, without the burned `MIN_LIQUIDITY`
+   */
+  static create(cal: Calibration, riskyPerLp: Wei, delLiquidity: Wei, exact: boolean = false): LiquidityReturn {
+    cal.assertValid(riskyPerLp, delLiquidity)
+
+    // the engine computes the stable reserves per liquidity with an invariant of zero
+    const zero = parseFixedPointX64(0)
+    const unitPool = new VirtualPool(cal, riskyPerLp, PRECISION, parseWei(0, cal.decimalsStable), zero, exact)
+    const stablePerLp = unitPool.getStableGivenRisky(riskyPerLp, true)
+
+    const delRisky = riskyPerLp.mul(delLiquidity).div(PRECISION)
+    const delStable = stablePerLp.mul(delLiquidity).div(PRECISION)
+    if (delRisky.raw.isZero() || delStable.raw.isZero())
+      throw new Error(`CalibrationError(${delRisky.raw}, ${delStable.raw})`)
+
+    const pool = new VirtualPool(cal, delRisky, delLiquidity, delStable, undefined, exact)
+    pool.getAndSetNewInvariant()
+    return { delRisky, delStable, delLiquidity: delLiquidity.sub(VirtualPool.minLiquidity(cal)), pool }
+  }
+
+  /**
+   * @notice Amounts of risky and stable tokens of `delLiquidity`, rounded down like the engine's `getAmounts`
+   */
+  getAmounts(delLiquidity: Wei): { delRisky: Wei; delStable: Wei } {
+    const delRisky = this._reserveRisky.mul(delLiquidity).div(this.liquidity)
+    const delStable = this._reserveStable.mul(delLiquidity).div(this.liquidity)
+    return { delRisky, delStable }
+  }
+
+  /**
+   * @notice Adds tokens to the reserves like the engine's `allocate`, which mints the lesser liquidity of the two deltas
+   * @return delLiquidity Liquidity minted, rounded down
+   */
+  allocate(delRisky: Wei, delStable: Wei): LiquidityReturn {
+    if (delRisky.raw.isZero() || delStable.raw.isZero()) throw new Error(`ZeroDeltasError()`)
+
+    const liquidity0 = delRisky.mul(this.liquidity).div(this._reserveRisky)
+    const liquidity1 = delStable.mul(this.liquidity).div(this._reserveStable)
+    const delLiquidity = liquidity0.raw.lt(liquidity1.raw) ? liquidity0 : liquidity1
+    if (delLiquidity.raw.isZero()) throw new Error(`ZeroLiquidityError()`)
+
+    this._reserveRisky = this._reserveRisky.add(delRisky)
+    this._reserveStable = this._reserveStable.add(delStable)
+    this.liquidity = this.liquidity.add(delLiquidity)
+    this.getAndSetNewInvariant()
+    return { delRisky, delStable, delLiquidity, pool: this }
+  }
+
+  /**
+   * @notice Removes liquidity like the engine's `remove`, paying out its amounts from `getAmounts`
+   * @return delRisky Risky tokens removed from the reserves, rounded down
+   * @return delStable Stable tokens removed from the reserves, rounded down
+   */
+  remove(delLiquidity: Wei): LiquidityReturn {
+    if (delLiquidity.raw.isZero()) throw new Error(`ZeroLiquidityError()`)
+    // the burned `MIN_LIQUIDITY` is in no position, so the engine's checked math reverts with an arithmetic underflow
+    // when removing it from the position
+    const removable = this.liquidity.sub(VirtualPool.minLiquidity(this.cal))
+    if (delLiquidity.raw.gt(removable.raw)) throw new Error('Panic(0x11)')
+
+    const { delRisky, delStable } = this.getAmounts(delLiquidity)
+    this._reserveRisky = this._reserveRisky.sub(delRisky)
+    this._reserveStable = this._reserveStable.sub(delStable)
+    this.liquidity = this.liquidity.sub(delLiquidity)
+    this.getAndSetNewInvariant()
+    return { delRisky, delStable, delLiquidity, pool: this }
+  }
+
+  /**
+   * @notice A Risky to Stable token swap
+   */
+  swapAmountInRisky(deltaIn: Wei, invariantLast = this._invariant): DebugReturn {
+    if (deltaIn.raw.isNegative()) return this.defaultSwapReturn
+    if (this.exact) return this.exactSwapAmountIn(true, deltaIn, invariantLast, false)
+    const reserveStableLast = this._reserveStable
+    const reserveRiskyLast = this._reserveRisky
+
+    // 0. Calculate the new risky reserves (we know the new risky reserves because we are swapping in risky)
+    const deltaInWithFee = deltaIn.mul(this.cal.gamma.raw).div(PERCENTAGE)
+    // 1. Calculate the new stable reserve using the new risky reserve
+    const newRiskyReserve = reserveRiskyLast.add(deltaInWithFee).mul(PRECISION).div(this.liquidity)
+
+    const newReserveStable = this.getStableGivenRisky(newRiskyReserve).mul(this.liquidity).div(PRECISION)
+
+    if (newReserveStable.raw.isNegative()) return this.defaultSwapReturn
+
+    const deltaOut = reserveStableLast.sub(newReserveStable)
+
+    this._reserveRisky = this._reserveRisky.add(deltaIn)
+    this._reserveStable = this._reserveStable.sub(deltaOut)
+    this.collectFee(true, deltaIn, deltaInWithFee)
+
+    // 2. Calculate the new invariant with the new reserve values
+    const nextInvariant = this.getAndSetNewInvariant()
+    // 3. Check the nextInvariant is >= invariantLast in the fee-less case, set it if valid
+    if (nextInvariant.percentage < invariantLast.percentage)
+      console.log('invariant not passing', `${nextInvariant.percentage} < ${invariantLast.percentage}`)
+
+    const effectivePriceOutStable = deltaOut
+      .mul(parseWei(1, 18 - deltaOut.decimals))
+      .div(deltaIn.mul(parseWei(1, 18 - deltaIn.decimals))) // stable per risky
+
+    return { invariantLast, deltaInWithFee, nextInvariant, deltaOut, pool: this, effectivePriceOutStable }
+  }
+
+  virtualSwapAmountInRisky(deltaIn: Wei, invariantLast = this.getAndSetNewInvariant()): DebugReturn {
+    if (deltaIn.raw.isNegative()) return this.defaultSwapReturn
+    if (this.exact) return this.exactSwapAmountIn(true, deltaIn, invariantLast, true)
+    const reserveRiskyLast = this._reserveRisky
+    const reserveStableLast = this._reserveStable
+    const deltaInWithFee = deltaIn.mul(this.cal.gamma.raw).div(PERCENTAGE)
+
+    const newReserveRisky = reserveRiskyLast.add(deltaInWithFee).mul(PRECISION).div(this.liquidity)
+
+    const newReserveStable = this.getStableGivenRisky(newReserveRisky).mul(this.liquidity).div(PRECISION)
+
+    if (newReserveStable.raw.isNegative()) return this.defaultSwapReturn
+
+    const deltaOut = reserveStableLast.sub(newReserveStable)
+
+    const risky = reserveRiskyLast.add(deltaIn).float / this.liquidity.float
+    const stable = reserveStableLast.sub(deltaOut).float / this.liquidity.float
+    let nextInvariant: any = calcInvariant(risky, stable, this.cal.strike.float, this.cal.sigma.float, this.tau.years)
+    nextInvariant = Math.floor(nextInvariant * Math.pow(10, 18))
+    nextInvariant = new FixedPointX64(toBN(nextInvariant).mul(FixedPointX64.Denominator).div(PRECISION.raw))
+    const effectivePriceOutStable = deltaOut
+      .mul(parseWei(1, 18 - deltaOut.decimals))
+      .div(deltaIn.mul(parseWei(1, 18 - deltaIn.decimals)))
+
+    const pool = clonePool(this, this._reserveRisky.add(deltaIn), this._reserveStable.sub(deltaOut))
+    pool.collectFee(true, deltaIn, deltaInWithFee)
+    return { invariantLast, deltaInWithFee, nextInvariant, deltaOut, pool, effectivePriceOutStable }
+  }
+
+  /**
+   * @notice A Stable to Risky token swap
+   */
+  swapAmountInStable(deltaIn: Wei, invariantLast = this._invariant): DebugReturn {
+    if (deltaIn.raw.isNegative()) return this.defaultSwapReturn
+    if (this.exact) return this.exactSwapAmountIn(false, deltaIn, invariantLast, false)
+    const reserveRiskyLast = this._reserveRisky
+    const reserveStableLast = this._reserveStable
+
+    // Important: Updates the invariant and tau state of this pool
+
+    // 0. Calculate the new risky reserve since we know how much risky is being swapped out
+    const deltaInWithFee = deltaIn.mul(this.cal.gamma.raw).div(PERCENTAGE)
+    // 1. Calculate the new risky reserves using the known new stable reserves
+    const newReserveStable = reserveStableLast.add(deltaInWithFee).mul(PRECISION).div(this.liquidity)
+
+    const newReserveRisky = this.getRiskyGivenStable(newReserveStable).mul(this.liquidity).div(PRECISION)
+
+    if (newReserveRisky.raw.isNegative()) return this.defaultSwapReturn
+
+    const deltaOut = reserveRiskyLast.sub(newReserveRisky)
+
+    this._reserveStable = this._reserveStable.add(deltaIn)
+    this._reserveRisky = this._reserveRisky.sub(deltaOut)
+    this.collectFee(false, deltaIn, deltaInWithFee)
+
+    // 2. Calculate the new invariant with the new reserves
+    const nextInvariant = this.getAndSetNewInvariant()
+    // 3. Check the nextInvariant is >= invariantLast
+    if (nextInvariant.parsed < invariantLast.parsed)
+      console.log('invariant not passing', `${nextInvariant.parsed} < ${invariantLast.parsed}`)
+
+    // 4. Calculate the change in risky reserve by comparing new reserve to previous
+    const effectivePriceOutStable = deltaIn
+      .mul(parseWei(1, 18 - deltaIn.decimals))
+      .div(deltaOut.mul(parseWei(1, 18 - deltaOut.decimals))) // stable per risky
+
+    return { invariantLast, deltaInWithFee, nextInvariant, deltaOut, pool: this, effectivePriceOutStable }
+  }
+
+  virtualSwapAmountInStable(deltaIn: Wei, invariantLast = this._invariant): DebugReturn {
+    if (deltaIn.raw.isNegative()) return this.defaultSwapReturn
+    if (this.exact) return this.exactSwapAmountIn(false, deltaIn, invariantLast, true)
+    const reserveRiskyLast = this._reserveRisky
+    const reserveStableLast = this._reserveStable
+    const deltaInWithFee = deltaIn.mul(this.cal.gamma.raw).div(PERCENTAGE)
+
+    const newReserveStable = reserveStableLast.add(deltaInWithFee).mul(PRECISION).div(this.liquidity)
+
+    const newReserveRisky = this.getRiskyGivenStable(newReserveStable).mul(this.liquidity).div(PRECISION)
+
+    if (newReserveRisky.raw.isNegative()) return this.defaultSwapReturn
+
+    const deltaOut = reserveRiskyLast.sub(newReserveRisky)
+
+    const risky = reserveRiskyLast.sub(deltaOut).float / this.liquidity.float
+    const stable = reserveStableLast.add(deltaIn).float / this.liquidity.float
+
+    let nextInvariant: any = calcInvariant(risky, stable, this.cal.strike.float, this.cal.sigma.float, this.tau.years)
+    nextInvariant = Math.floor(nextInvariant * Math.pow(10, 18))
+    nextInvariant = new FixedPointX64(toBN(nextInvariant).mul(FixedPointX64.Denominator).div(PRECISION.raw))
+
+    const effectivePriceOutStable = deltaIn
+      .mul(parseWei(1, 18 - deltaIn.decimals))
+      .div(deltaOut.mul(parseWei(1, 18 - deltaOut.decimals)))
+
+    const pool = clonePool(this, this._reserveRisky.sub(deltaOut), this._reserveStable.add(deltaIn))
+    pool.collectFee(false, deltaIn, deltaInWithFee)
+    return { invariantLast, deltaInWithFee, nextInvariant, deltaOut, pool, effectivePriceOutStable }
+  }
+
+  /**
+   * @notice A Stable to Risky token swap with an exact amount of risky tokens out
+   */
+  swapAmountOutRisky(deltaOut: Wei, invariantLast = this._invariant): ExactOutReturn {
+    return this.swapAmountOut(false, deltaOut, invariantLast, false)
+  }
+
+  virtualSwapAmountOutRisky(deltaOut: Wei, invariantLast = this._invariant): ExactOutReturn {
+    return this.swapAmountOut(false, deltaOut, invariantLast, true)
+  }
+
+  /**
+   * @notice A Risky to Stable token swap with an exact amount of stable tokens out
+   */
+  swapAmountOutStable(deltaOut: Wei, invariantLast = this._invariant): ExactOutReturn {
+    return this.swapAmountOut(true, deltaOut, invariantLast, false)
+  }
+
+  virtualSwapAmountOutStable(deltaOut: Wei, invariantLast = this._invariant): ExactOutReturn {
+    return this.swapAmountOut(true, deltaOut, invariantLast, true)
+  }
+
+  /**
+   * @notice Swaps both amounts like the engine's `swap`, which accepts any amounts that do not decrease the invariant
+   * @dev The last invariant is computed from the reserves at this pool's tau, so update the lastTimestamp first like
+   * the engine does. Throws the engine's custom errors formatted like `Calibration.assertValid`
+   * @param virtual Returns a cloned pool with the new reserves instead of updating this pool
+   */
+  swap(riskyForStable: boolean, deltaIn: Wei, deltaOut: Wei, virtual = false): ExactOutReturn {
+    if (deltaIn.raw.isZero()) throw new Error('DeltaInError()')
+    if (deltaOut.raw.isZero()) throw new Error('DeltaOutError()')
+    // the engine's checked math reverts with an arithmetic underflow if deltaOut exceeds the reserve
+    if (deltaOut.gt(this.getMaxDeltaOut(riskyForStable))) throw new Error('Panic(0x11)')
+
+    const invariantLast = this.invariantOf(this._reserveRisky, this._reserveStable)
+    const deltaInWithFee = deltaIn.mul(this.cal.gamma.raw).div(PERCENTAGE)
+    const invariantAfter = this.invariantAfter(riskyForStable, deltaInWithFee, deltaOut)
+    if (invariantAfter.raw.lt(invariantLast.raw))
+      throw new Error(`InvariantError(${invariantLast.raw}, ${invariantAfter.raw})`)
+
+    const { pool, nextInvariant, effectivePriceOutStable } = this.settleSwap(
+      riskyForStable,
+      deltaIn,
+      deltaInWithFee,
+      deltaOut,
+      virtual
+    )
+    return { invariantLast, deltaInWithFee, nextInvariant, deltaIn, deltaOut, pool, effectivePriceOutStable }
+  }
+
+  get spotPrice(): Wei {
+    const risky = this._reserveRisky.float / this.liquidity.float
+    const strike = this.cal.strike.float
+    const sigma = this.cal.sigma.float
+    const tau = this.tau.years
+    const spot = getSpotPriceApproximation(risky, strike, sigma, tau)
+    return parseWei(spot)
+  }
+
+  /**
+   * @param price Spot price as a float
+   * @return reserveRisky Risky reserves per liquidity which have the spot price, within the bounds of `Swaps.RISKY_BOUND`
+   */
+  getRiskyGivenSpotPrice(price: number): Wei {
+    const strike = this.cal.strike.float
+    const sigma = this.cal.sigma.float
+    const tau = this.tau.years
+    const spot = (risky: number) => getSpotPriceApproximation(risky, strike, sigma, tau)
+    const derivative = (risky: number) => -spot(risky) * sigma * Math.sqrt(tau) * quantilePrime(1 - risky)
+
+    const [lower, upper] = [Swaps.RISKY_BOUND, 1 - Swaps.RISKY_BOUND]
+    let risky: number
+    if (price >= spot(lower)) risky = lower
+    else if (price <= spot(upper)) risky = upper
+    else risky = Swaps.findRoot((x) => spot(x) - price, derivative, lower, upper)?.root ?? lower
+    return parseWei(risky.toFixed(this.cal.decimalsRisky), this.cal.decimalsRisky)
+  }
+
+  /**
+   * @notice Plans the swap which moves the spot price of this pool to a target price, like an arbitrageur would
+   * @dev Sizes an exact output swap from the risky reserves at the target price, so it passes the invariant check.
+   * If the swap exceeds `getMaxDeltaIn` or `getMaxDeltaOut`, the largest swap towards the target is planned instead
+   * @param targetPrice Spot price to move the pool to
+   * @param tolerance Distance to the target price relative to it, within which no swap is needed
+   * @return plan Direction and amounts of the swap, with the post-trade pool
+   */
+  planArbitrage(targetPrice: Wei, tolerance = 1e-4): ArbitragePlan {
+    const target = targetPrice.float
+    const reached = (price: Wei) => Math.abs(price.float - target) / target <= tolerance
+    const riskyForStable = this.spotPrice.float > target
+    if (reached(this.spotPrice))
+      return { ...this.defaultExactOutReturn, riskyForStable, spotPrice: this.spotPrice, reached: true }
+
+    // 0. The spot price only depends on the risky reserves, so the swap has to move them to the target's
+    const nextReserveRisky = this.getRiskyGivenSpotPrice(target).mul(this.liquidity).div(PRECISION)
+
+    // 1. Compute the output of the swap, which is the difference of the stable reserves if risky is swapped in
+    const maxOut = this.getMaxDeltaOut(riskyForStable).sub(1)
+    let deltaOut: Wei
+    if (riskyForStable) {
+      const maxIn = this.getMaxDeltaIn(true).sub(1)
+      const deltaIn = nextReserveRisky.sub(this._reserveRisky)
+      const deltaInWithFee = (deltaIn.gt(maxIn) ? maxIn : deltaIn).mul(this.cal.gamma.raw).div(PERCENTAGE)
+      try {
+        const nextStable = this.getStableGivenRisky(
+          this._reserveRisky.add(deltaInWithFee).mul(PRECISION).div(this.liquidity)
+        )
+        deltaOut = this._reserveStable.sub(nextStable.mul(this.liquidity).div(PRECISION))
+      } catch (err) {
+        deltaOut = maxOut
+      }
+    } else {
+      deltaOut = this._reserveRisky.sub(nextReserveRisky)
+    }
+    if (deltaOut.gt(maxOut)) deltaOut = maxOut
+
+    // 2. Bisect to the largest output with a valid swap, if the planned output has none
+    const maxIn = this.getMaxDeltaIn(riskyForStable)
+    const quote = (amountOut: Wei) => {
+      const result = this.swapAmountOut(riskyForStable, amountOut, this._invariant, true)
+      // the entire deltaIn, fee included, is added to the reserves, so it must also be within the max
+      return result.deltaIn.raw.gt(0) && result.deltaIn.lt(maxIn) ? result : undefined
+    }
+
+    let plan = quote(deltaOut)
+    if (!plan) {
+      let [lower, upper] = [deltaOut.mul(0), deltaOut]
+      while (upper.sub(lower).raw.gt(1)) {
+        const middle = upper.add(lower).div(2)
+        const result = quote(middle)
+        if (result) [lower, plan] = [middle, result]
+        else upper = middle
+      }
+    }
+    if (!plan) return { ...this.defaultExactOutReturn, riskyForStable, spotPrice: this.spotPrice, reached: false }
+
+    const spotPrice = plan.pool.spotPrice
+    return { ...plan, riskyForStable, spotPrice, reached: reached(spotPrice) }
+  }
+
+  /**
+   * @param liquidity Amount of liquidity to scale the greeks by, as a float
+   * @return greeks Of the covered call replicated by the liquidity, priced at the spot price implied by the reserves
+   */
+  greeks(liquidity = 1): Greeks {
+    const { strike, sigma } = this.cal
+    return getReplicatedGreeks(strike.float, sigma.float, this.tau.years, this.spotPrice.float, liquidity)
+  }
+
+  /**
+   * @notice See https://arxiv.org/pdf/2012.08040.pdf
+   * @param amountIn Amount of risky token to add to risky reserve
+   * @return Marginal price after a trade with size `amountIn` with the current reserves.
+   */
+  getMarginalPriceSwapRiskyIn(amountIn: number) {
+    if (!nonNegative(amountIn)) return 0
+    const gamma = 1 - VirtualPool.FEE
+    const reserveRisky = this._reserveRisky.float / this.liquidity.float
+    //const invariant = this._invariant
+    const strike = this.cal.strike
+    const sigma = this.cal.sigma
+    const tau = this.tau
+    const step0 = 1 - reserveRisky - gamma * amountIn
+    const step1 = sigma.float * Math.sqrt(tau.years)
+    const step2 = quantilePrime(step0)
+    const step3 = gamma * strike.float
+    const step4 = inverse_std_n_cdf(step0)
+    const step5 = std_n_pdf(step4 - step1)
+    return step3 * step5 * step2
+  }
+
+  /**
+   * @notice See https://arxiv.org/pdf/2012.08040.pdf
+   * @param amountIn Amount of stable token to add to stable reserve
+   * @return Marginal price after a trade with size `amountIn` with the current reserves.
+   */
+  getMarginalPriceSwapStableIn(amountIn: number) {
+    if (!nonNegative(amountIn)) return 0
+    const gamma = 1 - VirtualPool.FEE
+    const reserveStable = this._reserveStable.float / this.liquidity.float
+    const invariant = this._invariant
+    const strike = this.cal.strike
+    const sigma = this.cal.sigma
+    const tau = this.tau
+    const step0 = (reserveStable + gamma * amountIn - invariant.parsed / Math.pow(10, 18)) / strike.float
+    const step1 = sigma.float * Math.sqrt(tau.years)
+    const step3 = inverse_std_n_cdf(step0)
+    const step4 = std_n_pdf(step3 + step1)
+    const step5 = step0 * (1 / strike.float)
+    const step6 = quantilePrime(step5)
+    const step7 = gamma * step4 * step6
+    return 1 / step7
+  }
+
+  getMaxDeltaIn(riskyForStable: boolean): Wei {
+    if (riskyForStable) {
+      const riskyPerLiquidity = this._reserveRisky.mul(PRECISION).div(this.liquidity)
+      return parseWei(1, this.cal.decimalsRisky).sub(riskyPerLiquidity).mul(this.liquidity).div(PRECISION)
+    } else {
+      const stablePerLiquidity = this._reserveStable.mul(PRECISION).div(this.liquidity)
+      return this.cal.strike.sub(stablePerLiquidity).mul(this.liquidity).div(PRECISION)
+    }
+  }
+
+  getMaxDeltaOut(riskyForStable: boolean): Wei {
+    if (riskyForStable) {
+      return this._reserveStable
+    } else {
+      return this._reserveRisky
+    }
+  }
+
+  /**
+   * @notice Exact input swap using the same fixed point math and rounding as the engine's `swap`
+   * @param virtual Returns a cloned pool with the new reserves instead of updating this pool
+   */
+  private exactSwapAmountIn(
+    riskyForStable: boolean,
+    deltaIn: Wei,
+    invariantLast: FixedPointX64,
+    virtual: boolean
+  ): DebugReturn {
+    const reserveRiskyLast = this._reserveRisky
+    const reserveStableLast = this._reserveStable
+    const { scaleFactorRisky, scaleFactorStable, strike, sigma } = this.cal
+
+    // 0. Apply the fee with the pool's gamma, rounding down like the engine
+    const deltaInWithFee = deltaIn.mul(this.cal.gamma.raw).div(PERCENTAGE)
+
+    // 1. Compute the other reserve per liquidity on the curve of the last invariant
+    let deltaOut: Wei
+    if (riskyForStable) {
+      const nextRisky = reserveRiskyLast.add(deltaInWithFee).mul(PRECISION).div(this.liquidity)
+      const nextStable = ReplicationMath.getStableGivenRisky(
+        invariantLast.raw,
+        scaleFactorRisky,
+        scaleFactorStable,
+        nextRisky.raw,
+        strike.raw,
+        sigma.raw,
+        this.tau.raw
+      )
+      deltaOut = reserveStableLast.sub(nextStable.mul(this.liquidity.raw).div(PRECISION.raw))
+    } else {
+      const nextStable = reserveStableLast.add(deltaInWithFee).mul(PRECISION).div(this.liquidity)
+      const nextRisky = ReplicationMath.getRiskyGivenStable(
+        invariantLast.raw,
+        scaleFactorRisky,
+        scaleFactorStable,
+        nextStable.raw,
+        strike.raw,
+        sigma.raw,
+        this.tau.raw
+      )
+      deltaOut = reserveRiskyLast.sub(nextRisky.mul(this.liquidity.raw).div(PRECISION.raw))
+    }
+
+    if (deltaOut.raw.isNegative()) return this.defaultSwapReturn
+
+    // 2. The curve's reserves are rounded down, so deltaOut can be too large for the engine's invariant check, which
+    // is done with the fee adjusted reserves. Lower it until it passes, then bisect to the largest deltaOut which passes
+    const passes = (amountOut: Wei) =>
+      this.passesInvariantCheck(riskyForStable, deltaInWithFee, amountOut, invariantLast)
+    if (!passes(deltaOut)) {
+      let upper = deltaOut
+      let step = toBN(1)
+      while (deltaOut.raw.gt(0) && !passes(deltaOut)) {
+        upper = deltaOut
+        deltaOut = deltaOut.gt(step) ? deltaOut.sub(step) : deltaOut.mul(0)
+        step = step.mul(2)
+      }
+      if (!passes(deltaOut)) {
+        const invariantAfter = this.invariantAfter(riskyForStable, deltaInWithFee, deltaOut)
+        throw new Error(`InvariantError(${invariantLast.raw}, ${invariantAfter.raw})`)
+      }
+
+      while (upper.sub(deltaOut).raw.gt(1)) {
+        const middle = upper.add(deltaOut).div(2)
+        if (passes(middle)) deltaOut = middle
+        else upper = middle
+      }
+    }
+
+    // 3. Update the reserves with the entire deltaIn, fee included
+    const { pool, nextInvariant, effectivePriceOutStable } = this.settleSwap(
+      riskyForStable,
+      deltaIn,
+      deltaInWithFee,
+      deltaOut,
+      virtual
+    )
+    return { invariantLast, deltaInWithFee, nextInvariant, deltaOut, pool, effectivePriceOutStable }
+  }
+
+  /**
+   * @notice Exact output swap which computes the minimum deltaIn, fee included, that passes the engine's invariant check
+   * @param virtual Returns a cloned pool with the new reserves instead of updating this pool
+   */
+  private swapAmountOut(
+    riskyForStable: boolean,
+    deltaOut: Wei,
+    invariantLast: FixedPointX64,
+    virtual: boolean
+  ): ExactOutReturn {
+    const reserveRiskyLast = this._reserveRisky
+    const reserveStableLast = this._reserveStable
+    if (deltaOut.raw.lte(0) || deltaOut.gte(this.getMaxDeltaOut(riskyForStable))) return this.defaultExactOutReturn
+
+    // 0. Estimate the fee adjusted deltaIn by computing the input reserve on the curve, then bracket the minimum
+    const one = new Wei(toBN(1), (riskyForStable ? reserveRiskyLast : reserveStableLast).decimals)
+    let estimate: Wei
+    try {
+      if (riskyForStable) {
+        const nextStable = reserveStableLast.sub(deltaOut).mul(PRECISION).div(this.liquidity)
+        estimate = this.getRiskyGivenStable(nextStable).mul(this.liquidity).div(PRECISION).sub(reserveRiskyLast)
+      } else {
+        const nextRisky = reserveRiskyLast.sub(deltaOut).mul(PRECISION).div(this.liquidity)
+        estimate = this.getStableGivenRisky(nextRisky).mul(this.liquidity).div(PRECISION).sub(reserveStableLast)
+      }
+    } catch (err) {
+      estimate = one
+    }
+
+    const maxIn = this.getMaxDeltaIn(riskyForStable).sub(1)
+    const passes = (withFee: Wei) => this.passesInvariantCheck(riskyForStable, withFee, deltaOut, invariantLast)
+
+    // 1. Grow the upper bound until it passes, then grow the distance to a lower bound until it fails
+    let upper = estimate.gt(0) ? (estimate.gt(maxIn) ? maxIn : estimate) : one
+    let step = toBN(1)
+    while (!passes(upper)) {
+      if (upper.gte(maxIn)) return this.defaultExactOutReturn
+      upper = upper.add(step).gt(maxIn) ? maxIn : upper.add(step)
+      step = step.mul(2)
+    }
+
+    let lower = one.sub(1)
+    step = toBN(1)
+    while (upper.sub(step).gt(0) && passes(upper.sub(step))) {
+      upper = upper.sub(step)
+      step = step.mul(2)
+    }
+    if (upper.sub(step).gt(0)) lower = upper.sub(step)
+
+    // 2. Bisect to the smallest fee adjusted deltaIn which passes
+    while (upper.sub(lower).gt(1)) {
+      const middle = upper.add(lower).div(2)
+      if (passes(middle)) upper = middle
+      else lower = middle
+    }
+
+    // 3. Smallest deltaIn where deltaIn * gamma / 1e4, rounded down, is at least the fee adjusted amount
+    const gamma = this.cal.gamma.raw
+    const deltaIn = upper.mul(PERCENTAGE).add(gamma).sub(1).div(gamma)
+    const deltaInWithFee = deltaIn.mul(gamma).div(PERCENTAGE)
+
+    const { pool, nextInvariant, effectivePriceOutStable } = this.settleSwap(
+      riskyForStable,
+      deltaIn,
+      deltaInWithFee,
+      deltaOut,
+      virtual
+    )
+    return { invariantLast, deltaInWithFee, nextInvariant, deltaIn, deltaOut, pool, effectivePriceOutStable }
+  }
+
+  /**
+   * @return Invariant of the fee adjusted reserves, which the engine compares to the last invariant of the pool
+   */
+  private invariantAfter(riskyForStable: boolean, deltaInWithFee: Wei, deltaOut: Wei): FixedPointX64 {
+    return riskyForStable
+      ? this.invariantOf(this._reserveRisky.add(deltaInWithFee), this._reserveStable.sub(deltaOut))
+      : this.invariantOf(this._reserveRisky.sub(deltaOut), this._reserveStable.add(deltaInWithFee))
+  }
+
+  /**
+   * @return True if a swap would not revert with the engine's `InvariantError`, false if it reverts for any reason
+   */
+  private passesInvariantCheck(
+    riskyForStable: boolean,
+    deltaInWithFee: Wei,
+    deltaOut: Wei,
+    invariantLast: FixedPointX64
+  ): boolean {
+    try {
+      return this.invariantAfter(riskyForStable, deltaInWithFee, deltaOut).raw.gte(invariantLast.raw)
+    } catch (err) {
+      return false
+    }
+  }
+
+  /**
+   * @notice Adds the fee of a swap to the ledger of this pool, as cumulative fees and fees per liquidity
+   * @param riskyForStable True if the fee is paid in risky tokens
+   * @param deltaIn Entire amount of tokens paid to the pool, fee included
+   * @param deltaInWithFee Fee adjusted amount of tokens, which the swap is priced with
+   */
+  private collectFee(riskyForStable: boolean, deltaIn: Wei, deltaInWithFee: Wei): void {
+    const fee = deltaIn.sub(deltaInWithFee)
+    const feeGrowthX128 = fee.raw.mul(FEE_GROWTH_X128).div(this.liquidity.raw)
+    if (riskyForStable) {
+      this.feesRisky = this.feesRisky.add(fee)
+      this.feeGrowthRiskyX128 = this.feeGrowthRiskyX128.add(feeGrowthX128)
+    } else {
+      this.feesStable = this.feesStable.add(fee)
+      this.feeGrowthStableX128 = this.feeGrowthStableX128.add(feeGrowthX128)
+    }
+  }
+
+  /**
+   * @notice Applies the entire deltaIn, fee included, and deltaOut to the reserves of this pool or a clone of it,
+   * and collects the fee to the ledger of that pool
+   */
+  private settleSwap(
+    riskyForStable: boolean,
+    deltaIn: Wei,
+    deltaInWithFee: Wei,
+    deltaOut: Wei,
+    virtual: boolean
+  ): { pool: VirtualPool; nextInvariant: FixedPointX64; effectivePriceOutStable: Wei } {
+    const nextReserveRisky = riskyForStable ? this._reserveRisky.add(deltaIn) : this._reserveRisky.sub(deltaOut)
+    const nextReserveStable = riskyForStable ? this._reserveStable.sub(deltaOut) : this._reserveStable.add(deltaIn)
+
+    let pool: VirtualPool = this
+    let nextInvariant: FixedPointX64
+    if (virtual) {
+      pool = clonePool(this, nextReserveRisky, nextReserveStable)
+      nextInvariant = this.invariantOf(nextReserveRisky, nextReserveStable)
+      pool.invariant = nextInvariant
+    } else {
+      this._reserveRisky = nextReserveRisky
+      this._reserveStable = nextReserveStable
+      nextInvariant = this.getAndSetNewInvariant()
+    }
+    pool.collectFee(riskyForStable, deltaIn, deltaInWithFee)
+
+    const [stableAmount, riskyAmount] = riskyForStable ? [deltaOut, deltaIn] : [deltaIn, deltaOut]
+    const effectivePriceOutStable = stableAmount
+      .mul(10 ** (18 - stableAmount.decimals))
+      .mul(PRECISION)
+      .div(riskyAmount.mul(10 ** (18 - riskyAmount.decimals))) // stable per risky
+
+    return { pool, nextInvariant, effectivePriceOutStable }
+  }
+
+  private get defaultExactOutReturn(): ExactOutReturn {
+    return { ...this.defaultSwapReturn, deltaIn: parseWei(0) }
+  }
+
+  private get defaultSwapReturn(): SwapReturn {
+    return { deltaOut: parseWei(0), pool: this, effectivePriceOutStable: parseWei(0) }
+  }
+}
@@ -0,0 +1,353 @@
+import { BigNumber, constants, Signer } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { FixedPointX64, parseWei, Wei } from 'web3-units'
+import {
+  IERC20__factory,
+  PrimitiveEngine,
+  PrimitiveEngine__factory,
+  PrimitiveFactory__factory,
+  TestRouter,
+  TestRouter__factory,
+  TestToken__factory,
+} from '../typechain'
+import { Calibration, parseCalibration } from '../src/calibration'
+import { decodeEngineLogs } from '../src/engineEvents'
+import { Units } from '../src/fixedPointMath'
+import { Swaps } from '../src/swaps'
+import { VirtualPool } from '../src/virtualPool'
+
+const { HashZero } = constants
+
+/** Precision of the slippage of swaps. */
+const SLIPPAGE_PRECISION = 1e9
+
+export async function deployEngine(
+  args: {
+    factory?: string
+    risky?: string
+    stable?: string
+    decimalsRisky: number
+    decimalsStable: number
+    mint: number
+  },
+  hre: HardhatRuntimeEnvironment
+): Promise<{ factory: string; risky: string; stable: string; engine: string; router: string }> {
+  const [signer] = await hre.ethers.getSigners()
+  const factory = args.factory
+    ? PrimitiveFactory__factory.connect(args.factory, signer)
+    : await (await new PrimitiveFactory__factory(signer).deploy()).deployed()
+
+  const deployToken = async (name: string, symbol: string, decimals: number) => {
+    const token = await (await new TestToken__factory(signer).deploy(name, symbol, decimals)).deployed()
+    await (await token.mint(await signer.getAddress(), parseAmount(args.mint, decimals))).wait()
+    return token.address
+  }
+  const risky = args.risky ?? (await deployToken('Test Risky', 'RISKY', args.decimalsRisky))
+  const stable = args.stable ?? (await deployToken('Test Stable', 'STABLE', args.decimalsStable))
+
+  await (await factory.deploy(risky, stable)).wait()
+  const engine = await factory.getEngine(risky, stable)
+  const router = await (await new TestRouter__factory(signer).deploy(engine)).deployed()
+
+  console.log(`Factory: ${factory.address}`)
+  console.log(`Risky: ${risky}`)
+  console.log(`Stable: ${stable}`)
+  console.log(`Engine: ${engine}`)
+  console.log(`Router: ${router.address}`)
+  return { factory: factory.address, risky, stable, engine, router: router.address }
+}
+
+export async function createPool(
+  args: {
+    engine: string
+    router: string
+    strike: number
+    sigma: number
+    maturity: number
+    gamma: number
+    price: number
+    liquidity: number
+  },
+  hre: HardhatRuntimeEnvironment
+): Promise<string> {
+  const [signer] = await hre.ethers.getSigners()
+  const engine = PrimitiveEngine__factory.connect(args.engine, signer)
+  const router = await connectRouter(args.router, engine, signer)
+  const [decimalsRisky, decimalsStable] = await getDecimals(engine)
+  const { timestamp } = await hre.ethers.provider.getBlock('latest')
+
+  const { strike, sigma, maturity, gamma, price } = args
+  const cal = parseCalibration(strike, sigma, maturity, gamma, timestamp, price, decimalsRisky, decimalsStable)
+  const riskyPerLp = parseAmount(
+    Swaps.getRiskyReservesGivenReferencePrice(strike, sigma, cal.tau.years, price),
+    decimalsRisky
+  )
+  const delLiquidity = parseAmount(args.liquidity, 18)
+  // the router reverts with `Unknown()` for any error of the engine, so the checks of `create` are applied first
+  cal.assertValid(new Wei(riskyPerLp, decimalsRisky), new Wei(delLiquidity))
+  const poolId = cal.poolId(engine.address)
+  if ((await engine.calibrations(poolId)).lastTimestamp !== 0) throw new Error(`PoolDuplicateError(${poolId})`)
+
+  // stable reserves per liquidity are at most the strike
+  await approve(engine.risky(), router, riskyPerLp.mul(delLiquidity).div(Units.PRECISION), signer)
+  await approve(engine.stable(), router, cal.strike.raw.mul(delLiquidity).div(Units.PRECISION), signer)
+  const tx = await router.create(
+    cal.strike.raw,
+    cal.sigma.raw,
+    cal.maturity.raw,
+    cal.gamma.raw,
+    riskyPerLp,
+    delLiquidity,
+    HashZero
+  )
+  const [event] = decodeEngineLogs(engine.address, (await tx.wait()).logs).filter(({ name }) => name === 'Create')
+  console.log(`Created pool ${poolId}`)
+  if (event?.name === 'Create') {
+    console.log(`Risky: ${formatAmount(event.args.delRisky, decimalsRisky)}`)
+    console.log(`Stable: ${formatAmount(event.args.delStable, decimalsStable)}`)
+    console.log(`Liquidity of the router: ${formatAmount(event.args.delLiquidity, 18)}`)
+  }
+  return poolId
+}
+
+export async function inspectPool(
+  args: { engine: string; pool: string; account?: string },
+  hre: HardhatRuntimeEnvironment
+): Promise<void> {
+  const [signer] = await hre.ethers.getSigners()
+  const engine = PrimitiveEngine__factory.connect(args.engine, hre.ethers.provider)
+  const account = args.account ?? (await signer.getAddress())
+  const cal = await Calibration.fromEngine(engine, args.pool)
+  const { decimalsRisky, decimalsStable } = cal
+  const [reserve, invariant, liquidity, margin, { timestamp }] = await Promise.all([
+    engine.reserves(args.pool),
+    engine.invariantOf(args.pool),
+    engine.liquidity(account, args.pool),
+    engine.margins(account),
+    hre.ethers.provider.getBlock('latest'),
+  ])
+  const tau = Math.max(cal.maturity.raw - timestamp, 0)
+  const riskyPerLiquidity = new Wei(reserve.reserveRisky.mul(Units.PRECISION).div(reserve.liquidity), decimalsRisky)
+
+  console.log(`Pool ${args.pool}`)
+  console.log(`Strike: ${cal.strike.float}`)
+  console.log(`Sigma: ${cal.sigma.float}`)
+  console.log(`Maturity: ${cal.maturity.raw} (${new Date(cal.maturity.raw * 1000).toISOString()})`)
+  console.log(`Gamma: ${cal.gamma.float}`)
+  console.log(`Last timestamp: ${cal.lastTimestamp.raw}`)
+  console.log(`Reserve risky: ${formatAmount(reserve.reserveRisky, decimalsRisky)}`)
+  console.log(`Reserve stable: ${formatAmount(reserve.reserveStable, decimalsStable)}`)
+  console.log(`Liquidity: ${formatAmount(reserve.liquidity, 18)}`)
+  console.log(`Invariant: ${new FixedPointX64(invariant).parsed}`)
+  console.log(
+    `Spot price: ${Swaps.getReportedPriceOfRisky(
+      riskyPerLiquidity.float,
+      cal.strike.float,
+      cal.sigma.float,
+      tau / Units.YEAR
+    )}`
+  )
+  console.log(`Liquidity of ${account}: ${formatAmount(liquidity, 18)}`)
+  console.log(
+    `Margin of ${account}: ${formatAmount(margin.balanceRisky, decimalsRisky)} risky, ` +
+      `${formatAmount(margin.balanceStable, decimalsStable)} stable`
+  )
+}
+
+export async function depositMargin(
+  args: { engine: string; router: string; risky: number; stable: number; recipient?: string },
+  hre: HardhatRuntimeEnvironment
+): Promise<void> {
+  const [signer] = await hre.ethers.getSigners()
+  const engine = PrimitiveEngine__factory.connect(args.engine, signer)
+  const router = await connectRouter(args.router, engine, signer)
+  const [decimalsRisky, decimalsStable] = await getDecimals(engine)
+  const recipient = args.recipient ?? (await signer.getAddress())
+  const delRisky = parseAmount(args.risky, decimalsRisky)
+  const delStable = parseAmount(args.stable, decimalsStable)
+
+  await approve(engine.risky(), router, delRisky, signer)
+  await approve(engine.stable(), router, delStable, signer)
+  await (await router.deposit(recipient, delRisky, delStable, HashZero)).wait()
+  console.log(`Deposited ${args.risky} risky and ${args.stable} stable into the margin of ${recipient}`)
+}
+
+export async function withdrawMargin(
+  args: { engine: string; risky: number; stable: number; recipient?: string },
+  hre: HardhatRuntimeEnvironment
+): Promise<void> {
+  const [signer] = await hre.ethers.getSigners()
+  const engine = PrimitiveEngine__factory.connect(args.engine, signer)
+  const [decimalsRisky, decimalsStable] = await getDecimals(engine)
+  const recipient = args.recipient ?? (await signer.getAddress())
+  const delRisky = parseAmount(args.risky, decimalsRisky)
+  const delStable = parseAmount(args.stable, decimalsStable)
+
+  await (await engine.withdraw(recipient, delRisky, delStable)).wait()
+  console.log(`Withdrew ${args.risky} risky and ${args.stable} stable to ${recipient}`)
+}
+
+export async function allocateLiquidity(
+  args: { engine: string; pool: string; liquidity: number; router?: string; recipient?: string; fromMargin: boolean },
+  hre: HardhatRuntimeEnvironment
+): Promise<void> {
+  const [signer] = await hre.ethers.getSigners()
+  const engine = PrimitiveEngine__factory.connect(args.engine, signer)
+  const [decimalsRisky, decimalsStable] = await getDecimals(engine)
+  const recipient = args.recipient ?? (await signer.getAddress())
+
+  // reserves of the liquidity are rounded up, so the engine allocates at least the liquidity
+  const reserve = await engine.reserves(args.pool)
+  if (reserve.liquidity.isZero()) throw new Error(`UninitializedError(${args.pool})`)
+  const delLiquidity = parseAmount(args.liquidity, 18)
+  const roundUp = (amount: BigNumber) => amount.mul(delLiquidity).add(reserve.liquidity.sub(1)).div(reserve.liquidity)
+  const [delRisky, delStable] = [roundUp(reserve.reserveRisky), roundUp(reserve.reserveStable)]
+
+  let tx
+  if (args.fromMargin) {
+    tx = await engine.allocate(args.pool, recipient, delRisky, delStable, true, HashZero)
+  } else {
+    const router = await connectRouter(args.router, engine, signer)
+    await approve(engine.risky(), router, delRisky, signer)
+    await approve(engine.stable(), router, delStable, signer)
+    tx = await router.allocateFromExternal(args.pool, recipient, delRisky, delStable, HashZero)
+  }
+  await tx.wait()
+  console.log(
+    `Allocated ${args.liquidity} liquidity to ${recipient}, paying ${formatAmount(delRisky, decimalsRisky)} risky ` +
+      `and ${formatAmount(delStable, decimalsStable)} stable`
+  )
+}
+
+export async function removeLiquidity(
+  args: { engine: string; pool: string; liquidity: number },
+  hre: HardhatRuntimeEnvironment
+): Promise<void> {
+  const [signer] = await hre.ethers.getSigners()
+  const engine = PrimitiveEngine__factory.connect(args.engine, signer)
+  const [decimalsRisky, decimalsStable] = await getDecimals(engine)
+
+  const tx = await engine.remove(args.pool, parseAmount(args.liquidity, 18))
+  const [event] = decodeEngineLogs(engine.address, (await tx.wait()).logs).filter(({ name }) => name === 'Remove')
+  if (event?.name === 'Remove')
+    console.log(
+      `Removed ${args.liquidity} liquidity into the margin of the signer, ` +
+        `${formatAmount(event.args.delRisky, decimalsRisky)} risky and ` +
+        `${formatAmount(event.args.delStable, decimalsStable)} stable`
+    )
+}
+
+export async function swap(
+  args: {
+    engine: string
+    pool: string
+    exactIn?: number
+    exactOut?: number
+    slippage: number
+    router?: string
+    recipient?: string
+    riskyForStable: boolean
+    fromMargin: boolean
+    toMargin: boolean
+  },
+  hre: HardhatRuntimeEnvironment
+): Promise<{ deltaIn: BigNumber; deltaOut: BigNumber }> {
+  const { exactIn, exactOut, slippage, riskyForStable, fromMargin, toMargin } = args
+  if ((typeof exactIn === 'undefined') === (typeof exactOut === 'undefined'))
+    throw new Error('Set either --exact-in or --exact-out')
+
+  const [signer] = await hre.ethers.getSigners()
+  const engine = PrimitiveEngine__factory.connect(args.engine, signer)
+  const recipient = args.recipient ?? (await signer.getAddress())
+  // quotes with the engine's fixed point math and the reserves, which the reference price does not change
+  const [pool, { timestamp }] = await Promise.all([
+    VirtualPool.fromEngine(engine, args.pool, undefined, true),
+    hre.ethers.provider.send('eth_getBlockByNumber', ['pending', false]),
+  ])
+  const { decimalsRisky, decimalsStable } = pool.cal
+  const [decimalsIn, decimalsOut] = riskyForStable ? [decimalsRisky, decimalsStable] : [decimalsStable, decimalsRisky]
+
+  // quotes at the timestamp of the pending block, which the swap updates the lastTimestamp of the pool to if it is
+  // mined in it. The curve of a later block is repriced by its tau, which the slippage has to cover
+  pool.advanceTime(BigNumber.from(timestamp).toNumber() - pool.blockTimestamp.raw)
+  if (pool.expired) throw new Error(`PoolExpiredError()`)
+
+  let deltaIn: BigNumber, deltaOut: BigNumber
+  if (typeof exactIn !== 'undefined') {
+    const amountIn = new Wei(parseAmount(exactIn, decimalsIn), decimalsIn)
+    const quote = riskyForStable ? pool.virtualSwapAmountInRisky(amountIn) : pool.virtualSwapAmountInStable(amountIn)
+    deltaIn = amountIn.raw
+    deltaOut = applySlippage(quote.deltaOut.raw, -slippage)
+  } else {
+    const amountOut = new Wei(parseAmount(exactOut as number, decimalsOut), decimalsOut)
+    const quote = riskyForStable
+      ? pool.virtualSwapAmountOutStable(amountOut)
+      : pool.virtualSwapAmountOutRisky(amountOut)
+    deltaIn = applySlippage(quote.deltaIn.raw, slippage)
+    deltaOut = amountOut.raw
+  }
+
+  let tx
+  if (fromMargin) {
+    tx = await engine.swap(recipient, args.pool, riskyForStable, deltaIn, deltaOut, true, toMargin, HashZero)
+  } else {
+    const router = await connectRouter(args.router, engine, signer)
+    await approve(riskyForStable ? engine.risky() : engine.stable(), router, deltaIn, signer)
+    tx = await router.swap(recipient, args.pool, riskyForStable, deltaIn, deltaOut, false, toMargin, HashZero)
+  }
+  await tx.wait()
+  const [tokenIn, tokenOut] = riskyForStable ? ['risky', 'stable'] : ['stable', 'risky']
+  console.log(
+    `Swapped ${formatAmount(deltaIn, decimalsIn)} ${tokenIn} for ${formatAmount(deltaOut, decimalsOut)} ${tokenOut}`
+  )
+  return { deltaIn, deltaOut }
+}
+
+/**
+ * Connects to the router of an engine.
+ * @throws if the router is undefined or pays the callbacks of another engine
+ */
+async function connectRouter(
+  address: string | undefined,
+  engine: PrimitiveEngine,
+  signer: Signer
+): Promise<TestRouter> {
+  if (!address) throw new Error('Set --router to pay the engine from the signer')
+  const router = TestRouter__factory.connect(address, signer)
+  const routed = await router.engine()
+  if (routed.toLowerCase() !== engine.address.toLowerCase())
+    throw new Error(`Router ${address} pays the callbacks of engine ${routed}`)
+  return router
+}
+
+/** Approves the router to pull an amount of a token from the signer in the engine's callbacks, unless it can already. */
+async function approve(token: Promise<string>, router: TestRouter, amount: BigNumber, signer: Signer): Promise<void> {
+  const erc20 = IERC20__factory.connect(await token, signer)
+  if ((await erc20.allowance(await signer.getAddress(), router.address)).gte(amount)) return
+  await (await erc20.approve(router.address, amount)).wait()
+}
+
+async function getDecimals(engine: PrimitiveEngine): Promise<[number, number]> {
+  const [risky, stable] = await Promise.all([engine.risky(), engine.stable()])
+  return Promise.all(
+    [risky, stable].map((token) => IERC20__factory.connect(token, engine.provider).decimals())
+  ) as Promise<[number, number]>
+}
+
+/**
+ * Parses a float amount into an integer amount with `decimals`, rounded to the nearest integer.
+ * @dev Formats the shortest decimals of the float, as `toFixed` prints the binary error of e.g. 0.1 with 18 decimals
+ */
+function parseAmount(amount: number, decimals: number): BigNumber {
+  const formatted = amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: decimals })
+  return parseWei(formatted, decimals).raw
+}
+
+/** Raises or lowers an amount by a fraction of it, rounding towards the original amount. */
+function applySlippage(amount: BigNumber, fraction: number): BigNumber {
+  return amount.add(amount.mul(Math.round(fraction * SLIPPAGE_PRECISION)).div(SLIPPAGE_PRECISION))
+}
+
+function formatAmount(amount: BigNumber, decimals: number): number {
+  return new Wei(amount, decimals).float
+}
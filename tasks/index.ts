@@ -0,0 +1,77 @@
+import { task, types } from 'hardhat/config'
+
+/**
+ * Tasks to operate engines on a local node, e.g. `npx hardhat pool:inspect --engine <address> --pool <poolId>`.
+ *
+ * @dev The actions import the typechain bindings, which are generated by compiling, so they are loaded when a task runs.
+ * Amounts are floats in units of the tokens, and the first signer sends every transaction.
+ */
+
+task('engine:deploy', 'Deploys an engine with a factory, and a router which pays its callbacks from the signer')
+  .addOptionalParam('factory', 'Factory to deploy the engine with, deploys a PrimitiveFactory if omitted')
+  .addOptionalParam('risky', 'Risky token, deploys a test token if omitted')
+  .addOptionalParam('stable', 'Stable token, deploys a test token if omitted')
+  .addOptionalParam('decimalsRisky', 'Decimals of the deployed risky token', 18, types.int)
+  .addOptionalParam('decimalsStable', 'Decimals of the deployed stable token', 18, types.int)
+  .addOptionalParam('mint', 'Amount of each deployed test token minted to the signer', 1e6, types.float)
+  .setAction(async (args, hre) => (await import('./actions')).deployEngine(args, hre))
+
+task('pool:create', 'Creates a pool with the risky reserves of the reference price, through the router')
+  .addParam('engine', 'Engine to create the pool in')
+  .addParam('router', 'Router of the engine, which is credited the liquidity')
+  .addParam('strike', 'Strike price in the stable token', undefined, types.float)
+  .addParam('sigma', 'Implied volatility, e.g. 1 = 100%', undefined, types.float)
+  .addParam('maturity', 'Timestamp of expiry in seconds', undefined, types.int)
+  .addParam('gamma', 'One less the fee, e.g. 0.99 for a 1% fee', undefined, types.float)
+  .addParam('price', 'Reference price of the risky token in the stable token', undefined, types.float)
+  .addOptionalParam('liquidity', 'Initial liquidity', 1, types.float)
+  .setAction(async (args, hre) => (await import('./actions')).createPool(args, hre))
+
+task('pool:inspect', 'Prints the calibration, reserves and spot price of a pool, and the position of an account')
+  .addParam('engine', 'Engine of the pool')
+  .addParam('pool', 'PoolId of the pool')
+  .addOptionalParam('account', 'Account to print the liquidity and margin of, defaults to the signer')
+  .setAction(async (args, hre) => (await import('./actions')).inspectPool(args, hre))
+
+task('margin:deposit', 'Deposits tokens into a margin account, through the router')
+  .addParam('engine', 'Engine to deposit into')
+  .addParam('router', 'Router of the engine')
+  .addOptionalParam('risky', 'Amount of risky tokens', 0, types.float)
+  .addOptionalParam('stable', 'Amount of stable tokens', 0, types.float)
+  .addOptionalParam('recipient', 'Owner of the margin account, defaults to the signer')
+  .setAction(async (args, hre) => (await import('./actions')).depositMargin(args, hre))
+
+task('margin:withdraw', 'Withdraws tokens from the margin account of the signer')
+  .addParam('engine', 'Engine to withdraw from')
+  .addOptionalParam('risky', 'Amount of risky tokens', 0, types.float)
+  .addOptionalParam('stable', 'Amount of stable tokens', 0, types.float)
+  .addOptionalParam('recipient', 'Receiver of the tokens, defaults to the signer')
+  .setAction(async (args, hre) => (await import('./actions')).withdrawMargin(args, hre))
+
+task('liquidity:allocate', 'Allocates liquidity to a pool, paying the reserves of the liquidity')
+  .addParam('engine', 'Engine of the pool')
+  .addParam('pool', 'PoolId of the pool')
+  .addParam('liquidity', 'Amount of liquidity', undefined, types.float)
+  .addOptionalParam('router', 'Router of the engine, required unless paying from the margin of the signer')
+  .addOptionalParam('recipient', 'Owner of the liquidity, defaults to the signer')
+  .addFlag('fromMargin', 'Pays from the margin of the signer')
+  .setAction(async (args, hre) => (await import('./actions')).allocateLiquidity(args, hre))
+
+task('liquidity:remove', 'Removes liquidity of the signer from a pool, into the margin of the signer')
+  .addParam('engine', 'Engine of the pool')
+  .addParam('pool', 'PoolId of the pool')
+  .addParam('liquidity', 'Amount of liquidity', undefined, types.float)
+  .setAction(async (args, hre) => (await import('./actions')).removeLiquidity(args, hre))
+
+task('swap', "Swaps an exact amount in or out of a pool, with the other amount quoted with the engine's math")
+  .addParam('engine', 'Engine of the pool')
+  .addParam('pool', 'PoolId of the pool')
+  .addOptionalParam('exactIn', 'Exact amount of tokens in', undefined, types.float)
+  .addOptionalParam('exactOut', 'Exact amount of tokens out', undefined, types.float)
+  .addOptionalParam('slippage', 'Fraction the exact quote is lowered out or raised in by', 0.005, types.float)
+  .addOptionalParam('router', 'Router of the engine, required unless paying from the margin of the signer')
+  .addOptionalParam('recipient', 'Receiver of the tokens out, defaults to the signer')
+  .addFlag('riskyForStable', 'Swaps risky tokens in for stable tokens out, instead of stable for risky')
+  .addFlag('fromMargin', 'Pays from the margin of the signer')
+  .addFlag('toMargin', 'Pays out to the margin of the recipient')
+  .setAction(async (args, hre) => (await import('./actions')).swap(args, hre))
@@ -0,0 +1,184 @@
+import { ethers } from 'hardhat'
+import { BigNumber, constants, Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+import { parseWei, Wei } from 'web3-units'
+import { callDelta, callPremium } from '@primitivefi/rmm-math'
+
+import expect from '../shared/expect'
+import { Contracts } from '../../types'
+import { Calibration } from '../../src/calibration'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll, usePool, useLiquidity } from '../shared/hooks'
+import { VirtualPool } from '../../src/virtualPool'
+import {
+  getCoveredCallValue,
+  getFeesBetween,
+  getPnL,
+  getPositionValue,
+  getReplicationError,
+  getSwapFee,
+} from '../../src/analytics'
+
+const { HashZero } = constants
+
+const POOLS: { description: string; calibration: Calibration }[] = [
+  { description: 'default', calibration: DEFAULT_CONFIG },
+  { description: '10% fee', calibration: calibrations.mingamma },
+  { description: '6 decimal risky and stable', calibration: calibrations.lowdecimals },
+]
+
+POOLS.forEach(function ({ description, calibration }) {
+  describe(`analytics against the MockEngine in the ${description} pool`, function () {
+    const { decimalsRisky, decimalsStable } = calibration
+    const referencePrice = calibration.referencePrice.float
+    let loadFixture: ReturnType<typeof createFixtureLoader>
+    let signer: Wallet, other: Wallet
+    let contracts: Contracts, poolId: string, pool: VirtualPool
+
+    before(async function () {
+      ;[signer, other] = await (ethers as any).getSigners()
+      loadFixture = createFixtureLoader([signer, other])
+    })
+
+    beforeEach(async function () {
+      const fixture = await loadFixture(engineFixture)
+      const { factory, factoryDeploy, router } = fixture
+      const { engine, risky, stable } = await fixture.createEngine(decimalsRisky, decimalsStable)
+      contracts = { factory, factoryDeploy, router, engine, risky, stable }
+      await useTokens(signer, contracts, calibration)
+      await useApproveAll(signer, contracts)
+      ;({ poolId } = await usePool(signer, contracts, calibration))
+      await useLiquidity(signer, contracts, calibration, router.address)
+      pool = await VirtualPool.fromEngine(engine, poolId, referencePrice, true)
+    })
+
+    it('values a position at the tokens the engine removes it for', async function () {
+      const { engine, router } = contracts
+      const liquidity = (await engine.liquidity(router.address, poolId)).div(3)
+      const position = getPositionValue(pool, new Wei(liquidity, 18), referencePrice)
+
+      const margin = await engine.margins(router.address)
+      await router.remove(poolId, liquidity, HashZero)
+      const marginAfter = await engine.margins(router.address)
+      const risky = new Wei(marginAfter.balanceRisky.sub(margin.balanceRisky), decimalsRisky).float
+      const stable = new Wei(marginAfter.balanceStable.sub(margin.balanceStable), decimalsStable).float
+      // the engine rounds the removed amounts down to the token decimals, and floats round to 1e-15
+      const within = (decimals: number, value: number) => Math.max(10 ** -decimals * 2, Math.abs(value) * 1e-15)
+      expect(position.risky).to.be.closeTo(risky, within(decimalsRisky, risky))
+      expect(position.stable).to.be.closeTo(stable, within(decimalsStable, stable))
+      const value = risky * referencePrice + stable
+      expect(position.value).to.be.closeTo(value, within(decimalsStable, value) * referencePrice)
+    })
+
+    it('has the delta of the covered call in the reserves the engine created the pool with', async function () {
+      const error = getReplicationError(pool, referencePrice)
+      expect(error.deltaError).to.be.closeTo(0, 10 ** -decimalsRisky * 2)
+      // the engine's stable reserves follow its fixed point approximation of the curve
+      expect(Math.abs(error.valueError) / error.theoreticalValue).to.be.lt(1e-2)
+    })
+
+    it('collects the fee of each swap the engine accepts in the fee ledger', async function () {
+      const { router } = contracts
+      const deltaIn = pool.getMaxDeltaIn(true).div(10)
+      const { deltaOut, pool: swapped } = pool.virtualSwapAmountInRisky(deltaIn)
+      await router.swap(router.address, poolId, true, deltaIn.raw, deltaOut.raw, false, false, HashZero)
+      expect((await contracts.engine.reserves(poolId)).reserveRisky).to.be.eq(swapped.reserveRisky.raw)
+
+      const fees = getFeesBetween(pool, swapped)
+      expect(fees.risky).to.be.eq(getSwapFee(calibration, deltaIn).float)
+      expect(fees.stable).to.be.eq(0)
+    })
+  })
+})
+
+describe('analytics', function () {
+  const cal = DEFAULT_CONFIG
+  const { strike, sigma } = cal
+  const referencePrice = cal.referencePrice.float
+  let pool: VirtualPool
+
+  beforeEach(function () {
+    const riskyPerLp = parseWei(1).sub(parseWei(cal.delta))
+    pool = VirtualPool.create(cal, riskyPerLp, parseWei(1)).pool
+  })
+
+  it('computes the fee as the remainder of the deltaIn rounded down like the engine', function () {
+    expect(getSwapFee(cal, parseWei(1)).raw).to.be.eq(parseWei(1).raw.mul(15).div(10000))
+    // 10 * 9985 / 10000 rounds down to 9, so the fee is 1
+    expect(getSwapFee(cal, new Wei(BigNumber.from(10))).raw).to.be.eq(1)
+    expect(getSwapFee(calibrations.mingamma, parseWei(1)).float).to.be.closeTo(0.1, 1e-18)
+  })
+
+  it('values a covered call as the reference price less the call premium', function () {
+    const tau = cal.tau.years
+    expect(getCoveredCallValue(cal, referencePrice)).to.be.eq(referencePrice - cal.premium)
+    ;[0.5, 1, 2].forEach((ratio) => {
+      const price = strike.float * ratio
+      const value = getCoveredCallValue(cal, price, tau)
+      expect(value).to.be.eq(price - callPremium(strike.float, sigma.float, tau, price))
+      // worth less than both the risky asset and the strike it is exercised at
+      expect(value).to.be.lt(Math.min(price, strike.float))
+    })
+  })
+
+  it('has no replication error for a pool created with the float curve', function () {
+    const error = getReplicationError(pool, referencePrice)
+    expect(error.theoreticalDelta).to.be.eq(1 - callDelta(strike.float, sigma.float, cal.tau.years, referencePrice))
+    expect(error.deltaError).to.be.closeTo(0, 1e-15)
+    expect(error.valueError).to.be.closeTo(0, 1e-3)
+  })
+
+  it('scales the position value by its share of the liquidity', function () {
+    const whole = getPositionValue(pool, pool.liquidity, referencePrice)
+    const quarter = getPositionValue(pool, pool.liquidity.div(4), referencePrice)
+    expect(whole.value).to.be.closeTo(pool.reserveRisky.float * referencePrice + pool.reserveStable.float, 1e-12)
+    expect(quarter.risky).to.be.closeTo(whole.risky / 4, 1e-15)
+    expect(quarter.value).to.be.closeTo(whole.value / 4, 1e-12)
+  })
+
+  it('has no PnL between the same snapshots', function () {
+    const snapshot = { pool, referencePrice }
+    expect(getPnL(snapshot, snapshot, pool.liquidity)).to.deep.eq({
+      total: 0,
+      market: 0,
+      theta: 0,
+      fees: 0,
+      trackingError: 0,
+    })
+  })
+
+  it('attributes the decay of the covered call value over time to theta', function () {
+    const before = { pool, referencePrice }
+    const later = VirtualPool.create(cal, parseWei(1).sub(parseWei(cal.delta)), parseWei(1)).pool
+    later.advanceTime(86400 * 30)
+    const pnl = getPnL(before, { pool: later, referencePrice }, pool.liquidity)
+
+    // the reserves did not change, so the position's value did not either
+    expect(pnl.total).to.be.eq(0)
+    expect(pnl.market).to.be.eq(0)
+    expect(pnl.theta).to.be.closeTo(
+      getCoveredCallValue(cal, referencePrice, later.tau.years) - getCoveredCallValue(cal, referencePrice),
+      1e-12
+    )
+    expect(pnl.theta).to.be.gt(0)
+    expect(pnl.trackingError).to.be.closeTo(-pnl.theta, 1e-12)
+  })
+
+  it('attributes a small change of the reference price to the market with the delta of the reserves', function () {
+    const price = referencePrice * 1.001
+    const pnl = getPnL({ pool, referencePrice }, { pool, referencePrice: price }, pool.liquidity)
+    const delta = pool.reserveRisky.float / pool.liquidity.float
+    expect(pnl.total).to.be.closeTo(delta * (price - referencePrice), 1e-12)
+    expect(pnl.market).to.be.closeTo(pnl.total, Math.abs(pnl.total) * 1e-2)
+    expect(pnl.theta).to.be.eq(0)
+  })
+
+  it('values the fees of swaps at the later reference price', function () {
+    const exact = VirtualPool.create(cal, parseWei(1).sub(parseWei(cal.delta)), parseWei(1), true).pool
+    const deltaIn = exact.getMaxDeltaIn(false).div(10)
+    const swapped = exact.virtualSwapAmountInStable(deltaIn).pool
+    const pnl = getPnL({ pool: exact, referencePrice }, { pool: swapped, referencePrice }, exact.liquidity.div(2))
+    expect(pnl.fees).to.be.closeTo(getSwapFee(cal, deltaIn).float / 2, 1e-12)
+  })
+})
@@ -0,0 +1,164 @@
+import { ethers } from 'hardhat'
+import { constants, Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+import { parseWei, Percentage, Time, Wei, toBN } from 'web3-units'
+
+import expect from '../shared/expect'
+import { Contracts } from '../../types'
+import { Calibration, CalibrationErrorName, MAX_SIGMA, MIN_GAMMA } from '../../src/calibration'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll } from '../shared/hooks'
+import { VirtualPool } from '../../src/virtualPool'
+import { decodeCustomError, getRevertData } from '../shared/customErrors'
+
+const { HashZero } = constants
+
+/**
+ * Arguments of the engine's `create`, which override the ones of the base calibration.
+ */
+interface CreateCase {
+  description: string
+  base?: Calibration
+  strike?: Wei
+  sigma?: Percentage
+  maturity?: Time
+  gamma?: Percentage
+  riskyPerLp?: Wei
+  delLiquidity?: Wei
+  /** First error of the engine's checks, or undefined if the pool is created */
+  error?: CalibrationErrorName
+}
+
+const CASES: CreateCase[] = [
+  { description: 'the default pool' },
+  { description: 'a 6 decimal risky and stable pool', base: calibrations.lowdecimals },
+  { description: 'a sigma of 0', sigma: new Percentage(toBN(0)), error: 'SigmaError' },
+  { description: 'a sigma above the max', sigma: new Percentage(toBN(MAX_SIGMA + 1)), error: 'SigmaError' },
+  { description: 'a strike of 0', strike: parseWei(0), error: 'StrikeError' },
+  {
+    description: 'the MIN_LIQUIDITY',
+    delLiquidity: VirtualPool.minLiquidity(DEFAULT_CONFIG),
+    error: 'MinLiquidityError',
+  },
+  { description: 'a riskyPerLp of 0', riskyPerLp: parseWei(0), error: 'RiskyPerLpError' },
+  { description: 'a riskyPerLp above 1', riskyPerLp: parseWei(1).add(1), error: 'RiskyPerLpError' },
+  {
+    description: 'a riskyPerLp above 1 of a 6 decimal risky',
+    base: calibrations.lowdecimals,
+    riskyPerLp: parseWei(1, 6).add(1),
+    error: 'RiskyPerLpError',
+  },
+  { description: 'a gamma above 100%', gamma: new Percentage(toBN(10001)), error: 'GammaError' },
+  { description: 'a gamma below the min', gamma: new Percentage(toBN(MIN_GAMMA - 1)), error: 'GammaError' },
+  { description: 'a maturity before the timestamp', maturity: new Time(0), error: 'PoolExpiredError' },
+  {
+    description: 'both a sigma and a strike of 0, checking the sigma first',
+    sigma: new Percentage(toBN(0)),
+    strike: parseWei(0),
+    error: 'SigmaError',
+  },
+]
+
+CASES.forEach(function (test) {
+  describe(`Calibration validation of ${test.description} against the engine`, function () {
+    const base = test.base ?? DEFAULT_CONFIG
+    const { decimalsRisky, decimalsStable } = base
+    let loadFixture: ReturnType<typeof createFixtureLoader>
+    let signer: Wallet, other: Wallet
+    let contracts: Contracts, cal: Calibration, riskyPerLp: Wei, delLiquidity: Wei
+
+    before(async function () {
+      ;[signer, other] = await (ethers as any).getSigners()
+      loadFixture = createFixtureLoader([signer, other])
+    })
+
+    beforeEach(async function () {
+      const fixture = await loadFixture(engineFixture)
+      const { factory, factoryDeploy, router } = fixture
+      const { engine, risky, stable } = await fixture.createEngine(decimalsRisky, decimalsStable)
+      contracts = { factory, factoryDeploy, router, engine, risky, stable }
+      await useTokens(signer, contracts, base)
+      await useApproveAll(signer, contracts)
+
+      // the engine sets the lastTimestamp of the pool to its clock
+      const lastTimestamp = new Time((await engine.time()).toNumber())
+      cal = new Calibration(
+        test.strike ?? base.strike,
+        test.sigma ?? base.sigma,
+        test.maturity ?? base.maturity,
+        lastTimestamp,
+        base.referencePrice,
+        test.gamma ?? base.gamma,
+        decimalsRisky,
+        decimalsStable
+      )
+      riskyPerLp = test.riskyPerLp ?? parseWei(1, decimalsRisky).sub(parseWei(base.delta, decimalsRisky))
+      delLiquidity = test.delLiquidity ?? parseWei(1)
+    })
+
+    const create = () =>
+      contracts.router.create(
+        cal.strike.raw,
+        cal.sigma.raw,
+        cal.maturity.raw,
+        cal.gamma.raw,
+        riskyPerLp.raw,
+        delLiquidity.raw,
+        HashZero
+      )
+
+    if (!test.error) {
+      it('validates the calibration, which the engine creates', async function () {
+        expect(cal.validate(riskyPerLp, delLiquidity)).to.be.empty
+        expect(() => cal.assertValid(riskyPerLp, delLiquidity)).to.not.throw()
+        await expect(create()).to.emit(contracts.engine, 'Create')
+      })
+
+      it('fetches the calibration of the created pool, with the decimals of the tokens', async function () {
+        await create()
+        const poolId = cal.poolId(contracts.engine.address)
+        const fetched = await Calibration.fromEngine(contracts.engine, poolId, base.referencePrice.float)
+        expect(fetched).to.deep.eq(cal)
+      })
+
+      it('fetches the calibration priced at the spot price of the reserves without a reference price', async function () {
+        await create()
+        const fetched = await Calibration.fromEngine(contracts.engine, cal.poolId(contracts.engine.address))
+        const price = base.referencePrice.float
+        expect(fetched.referencePrice.float).to.be.closeTo(price, price * 1e-3)
+        expect({ ...fetched, referencePrice: cal.referencePrice }).to.deep.eq({ ...cal })
+      })
+      return
+    }
+
+    it(`fails with the ${test.error} of the engine`, async function () {
+      const [error] = cal.validate(riskyPerLp, delLiquidity)
+      expect(error.name).to.be.eq(test.error)
+
+      // the router reverts with `Unknown()` for errors with arguments, so the engine is called from the router
+      let revertData: string | undefined
+      try {
+        await contracts.engine
+          .connect(ethers.provider)
+          .callStatic.create(
+            cal.strike.raw,
+            cal.sigma.raw,
+            cal.maturity.raw,
+            cal.gamma.raw,
+            riskyPerLp.raw,
+            delLiquidity.raw,
+            HashZero,
+            { from: contracts.router.address }
+          )
+      } catch (err) {
+        revertData = await getRevertData(err)
+      }
+      const decoded = decodeCustomError(revertData ?? '0x')
+      expect(decoded?.name).to.be.eq(error.name)
+      expect(decoded?.args.map((arg: any) => arg.toString())).to.deep.eq(error.params)
+
+      expect(() => cal.assertValid(riskyPerLp, delLiquidity)).to.throw(`${error.name}(${error.params.join(', ')})`)
+    })
+  })
+})
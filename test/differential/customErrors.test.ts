@@ -0,0 +1,71 @@
+import { BigNumber, utils } from 'ethers'
+
+import expect from '../shared/expect'
+import { ENGINE_ERRORS, decodeCustomError, getRevertData } from '../shared/customErrors'
+
+/** Error with the argument types Hardhat formats with commas, to encode from its revert messages */
+const MIXED_ERRORS = new utils.Interface([
+  'error MixedError((uint256 amount, string name) pair, string note, bool flag, int128[] changes, address account)',
+])
+const ACCOUNT = '0x000000000000000000000000000000000000dEaD'
+
+describe('getRevertData', function () {
+  it('encodes the tuples, arrays and strings with commas of a Hardhat revert message', async function () {
+    const message =
+      'VM Exception while processing transaction: reverted with custom error ' +
+      `'MixedError([7, "a, [b]"], "c, d", true, [-1, 2], "${ACCOUNT}")'`
+    const data = await getRevertData({ message }, [MIXED_ERRORS])
+    expect(data).to.be.eq(MIXED_ERRORS.encodeErrorResult('MixedError', [[7, 'a, [b]'], 'c, d', true, [-1, 2], ACCOUNT]))
+
+    const decoded = decodeCustomError(data!, [MIXED_ERRORS])!
+    expect(decoded.args.pair.amount).to.be.eq(7)
+    expect(decoded.args.pair.name).to.be.eq('a, [b]')
+    expect(decoded.args.note).to.be.eq('c, d')
+    expect(decoded.args.changes.map((value: BigNumber) => value.toNumber())).to.deep.eq([-1, 2])
+  })
+
+  it('encodes the errors without arguments and the panics of a Hardhat revert message', async function () {
+    const message = 'VM Exception while processing transaction: reverted with custom error'
+    expect(await getRevertData({ message: `${message} 'PoolDuplicateError()'` })).to.be.eq(
+      ENGINE_ERRORS.encodeErrorResult('PoolDuplicateError', [])
+    )
+    const panic = await getRevertData({ message: 'reverted with panic code 0x11 (Arithmetic overflow)' })
+    expect(decodeCustomError(panic!)?.args.code).to.be.eq(0x11)
+  })
+
+  it('has no revert data for a message of an unknown error', async function () {
+    const message = "VM Exception while processing transaction: reverted with custom error 'MixedError(1)'"
+    expect(await getRevertData({ message })).to.be.undefined
+  })
+})
+
+describe('revertWithCustomError', function () {
+  const error = { data: ENGINE_ERRORS.encodeErrorResult('InvariantError', [1, -2]) }
+
+  it('matches the error of a promise, or of a function returning one', async function () {
+    await expect(Promise.reject(error)).to.revertWithCustomError('InvariantError', [1, -2])
+    await expect(() => Promise.reject(error)).to.revertWithCustomError('InvariantError', { nextInvariant: -2 })
+    await expect(() => Promise.reject(error)).to.not.revertWithCustomError('PoolDuplicateError')
+  })
+
+  it('fails with the error it expected instead of the other', async function () {
+    let failure: Error | undefined
+    try {
+      await expect(() => Promise.reject(error)).to.revertWithCustomError('InvariantError', [1, -3])
+    } catch (err) {
+      failure = err as Error
+    }
+    expect(failure?.message).to.be.eq('Expected InvariantError argument 1 of -2 to be -3')
+  })
+
+  it('throws for a subject which is not a promise or a function returning one', async function () {
+    let failure: Error | undefined
+    try {
+      await expect(42).to.revertWithCustomError('InvariantError')
+    } catch (err) {
+      failure = err as Error
+    }
+    expect(failure).to.be.instanceOf(TypeError)
+    expect(failure?.message).to.match(/expects a promise of a transaction or call, or a function returning one/)
+  })
+})
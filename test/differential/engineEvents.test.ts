@@ -0,0 +1,90 @@
+import { ethers } from 'hardhat'
+import { constants, Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+import { parseWei } from 'web3-units'
+
+import expect from '../shared/expect'
+import { Contracts } from '../../types'
+import { DEFAULT_CONFIG } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll } from '../shared/hooks'
+import { decodeEngineLogs, filterEngineEvents } from '../../src/engineEvents'
+
+const { HashZero } = constants
+
+describe('emitEngineEvent against the MockEngine', function () {
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let signer: Wallet, other: Wallet
+  let contracts: Contracts
+
+  before(async function () {
+    ;[signer, other] = await (ethers as any).getSigners()
+    loadFixture = createFixtureLoader([signer, other])
+  })
+
+  beforeEach(async function () {
+    const fixture = await loadFixture(engineFixture)
+    const { factory, factoryDeploy, router } = fixture
+    const { engine, risky, stable } = await fixture.createEngine(
+      DEFAULT_CONFIG.decimalsRisky,
+      DEFAULT_CONFIG.decimalsStable
+    )
+    contracts = { factory, factoryDeploy, router, engine, risky, stable }
+    await useTokens(signer, contracts, DEFAULT_CONFIG)
+    await useApproveAll(signer, contracts)
+  })
+
+  it('decodes the events of the engine from the logs of a receipt, by name', async function () {
+    const { engine, router } = contracts
+    const tx = await router.deposit(other.address, 10, 20, HashZero)
+    const events = decodeEngineLogs(engine.address, (await tx.wait()).logs)
+    // the token transfers of the deposit are skipped
+    expect(events.map((event) => event.name)).to.deep.eq(['Deposit'])
+
+    const [deposit] = filterEngineEvents(events, 'Deposit')
+    expect(deposit.args.from).to.be.eq(router.address)
+    expect(deposit.args.recipient).to.be.eq(other.address)
+    expect(deposit.args.delRisky).to.be.eq(10)
+    expect(filterEngineEvents(events, 'Withdraw')).to.be.empty
+  })
+
+  it('matches the arguments of an event, within their tolerances', async function () {
+    const { engine, router } = contracts
+    const deposit = () => router.deposit(other.address, parseWei('1').raw, 20, HashZero)
+    await expect(deposit).to.emitEngineEvent(engine, 'Deposit', {
+      recipient: other.address.toLowerCase(),
+      delRisky: { value: parseWei('1.001'), relative: 0.001 },
+      delStable: { value: 21, absolute: 1 },
+    })
+    await expect(deposit).to.not.emitEngineEvent(engine, 'Deposit', { delStable: 21 })
+  })
+
+  it('fails with the arguments of each event with the name, marking the arguments which do not match', async function () {
+    const { engine, router } = contracts
+    let failure: Error | undefined
+    try {
+      await expect(router.deposit(other.address, 10, 20, HashZero)).to.emitEngineEvent(engine, 'Deposit', {
+        recipient: other.address,
+        delStable: { value: 22, absolute: 1 },
+      })
+    } catch (err) {
+      failure = err as Error
+    }
+    expect(failure?.message).to.be.eq(
+      'Expected engine to emit Deposit with the arguments, Deposit #0:\n' +
+        `  recipient: expected ${other.address}, actual ${other.address}\n` +
+        `x delStable: expected 22 ± 1, actual 20`
+    )
+  })
+
+  it('fails with the events emitted instead of an event with the name', async function () {
+    const { engine, router } = contracts
+    let failure: Error | undefined
+    try {
+      await expect(router.deposit(other.address, 10, 20, HashZero)).to.emitEngineEvent(engine, 'Withdraw')
+    } catch (err) {
+      failure = err as Error
+    }
+    expect(failure?.message).to.be.eq('Expected engine to emit Withdraw with the arguments, but it emitted Deposit')
+  })
+})
@@ -0,0 +1,178 @@
+import { ethers } from 'hardhat'
+import { BigNumber, constants, Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+import { parseWei } from 'web3-units'
+
+import expect from '../shared/expect'
+import { Contracts } from '../../types'
+import { DEFAULT_CONFIG } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll, usePool, useLiquidity, useMargin } from '../shared/hooks'
+import { diffEngineState, formatEngineStateDiff, getEngineState, getEngineStateEntries } from '../shared/engineState'
+import { VirtualPool } from '../../src/virtualPool'
+
+const { HashZero } = constants
+
+describe('changeEngineState against the MockEngine', function () {
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let signer: Wallet, other: Wallet
+  let contracts: Contracts, poolId: string, pool: VirtualPool
+
+  before(async function () {
+    ;[signer, other] = await (ethers as any).getSigners()
+    loadFixture = createFixtureLoader([signer, other])
+  })
+
+  beforeEach(async function () {
+    const fixture = await loadFixture(engineFixture)
+    const { factory, factoryDeploy, router } = fixture
+    const { engine, risky, stable } = await fixture.createEngine(
+      DEFAULT_CONFIG.decimalsRisky,
+      DEFAULT_CONFIG.decimalsStable
+    )
+    contracts = { factory, factoryDeploy, router, engine, risky, stable }
+    await useTokens(signer, contracts, DEFAULT_CONFIG)
+    await useApproveAll(signer, contracts)
+    ;({ poolId } = await usePool(signer, contracts, DEFAULT_CONFIG))
+    await useLiquidity(signer, contracts, DEFAULT_CONFIG, router.address)
+    await useMargin(signer, contracts, parseWei('1'), parseWei('1'), router.address)
+    pool = await VirtualPool.fromEngine(engine, poolId, DEFAULT_CONFIG.referencePrice.float, true)
+  })
+
+  it('changes the reserves, margins and positions by the amounts a remove moves', async function () {
+    const { engine, router } = contracts
+    const delLiquidity = pool.liquidity.div(10)
+    const { delRisky, delStable } = pool.remove(delLiquidity)
+    await expect(() => router.remove(poolId, delLiquidity.raw, HashZero)).to.changeEngineState(engine, {
+      reserves: {
+        [poolId]: {
+          reserveRisky: delRisky.raw.mul(-1),
+          reserveStable: delStable.raw.mul(-1),
+          liquidity: delLiquidity.raw.mul(-1),
+        },
+      },
+      margins: { [router.address]: { balanceRisky: delRisky.raw, balanceStable: delStable.raw } },
+      liquidity: { [router.address]: { [poolId]: delLiquidity.raw.mul(-1) } },
+    })
+  })
+
+  it('leaves the invariant of a pool unchanged by a deposit, and changes it by a swap', async function () {
+    const { engine, router } = contracts
+    await expect(() =>
+      router.deposit(router.address, parseWei('1').raw, parseWei('1').raw, HashZero)
+    ).to.changeEngineState(engine, {
+      margins: { [router.address]: { balanceRisky: parseWei('1').raw, balanceStable: parseWei('1').raw } },
+      invariant: { [poolId]: 0 },
+    })
+
+    const deltaIn = pool.getMaxDeltaIn(true).div(10)
+    const { deltaOut } = pool.virtualSwapAmountInRisky(deltaIn)
+    const before = await engine.invariantOf(poolId)
+    await expect(() =>
+      router.swap(router.address, poolId, true, deltaIn.raw, deltaOut.raw, false, false, HashZero)
+    ).to.not.changeEngineState(engine, { invariant: { [poolId]: 0 } })
+    // the fee the swap leaves in the pool raises its invariant
+    expect(await engine.invariantOf(poolId)).to.be.gt(before)
+  })
+
+  it('changes the state within the tolerance', async function () {
+    const { engine, router } = contracts
+    const deposit = () => router.deposit(router.address, 10, 0, HashZero)
+    await expect(deposit).to.changeEngineState(
+      engine,
+      { margins: { [router.address]: { balanceRisky: 11 } } },
+      { tolerance: 1 }
+    )
+    await expect(deposit).to.not.changeEngineState(engine, { margins: { [router.address]: { balanceRisky: 11 } } })
+  })
+
+  it('compares the changes of the reserve matchers exactly, unless given a tolerance', async function () {
+    const { engine, router } = contracts
+    const delLiquidity = pool.liquidity.div(10)
+    const { delRisky } = pool.remove(delLiquidity)
+    const snapshot = await ethers.provider.send('evm_snapshot', [])
+    await expect(() => router.remove(poolId, delLiquidity.raw, HashZero)).to.not.decreaseReserveRisky(
+      engine,
+      poolId,
+      delRisky.raw.add(1)
+    )
+    await ethers.provider.send('evm_revert', [snapshot])
+    await expect(() => router.remove(poolId, delLiquidity.raw, HashZero)).to.decreaseReserveRisky(
+      engine,
+      poolId,
+      delRisky.raw.add(1),
+      { tolerance: 1 }
+    )
+  })
+
+  it('fails with the diff of every value it compared', async function () {
+    const { engine, router } = contracts
+    const account = router.address
+    let failure: Error | undefined
+    try {
+      await expect(() => router.deposit(account, 10, 0, HashZero)).to.changeEngineState(engine, {
+        margins: { [account]: { balanceRisky: 10, balanceStable: 1 } },
+        liquidity: { [account]: { [poolId]: 0 } },
+      })
+    } catch (err) {
+      failure = err as Error
+    }
+    const { balanceRisky, balanceStable } = await engine.margins(account)
+    const liquidity = await engine.liquidity(account, poolId)
+    expect(failure?.message).to.be.eq(
+      'Expected engine state to change by:\n' +
+        `  margins[${account}].balanceRisky: expected +10, actual +10 (${balanceRisky.sub(10)} -> ${balanceRisky})\n` +
+        `x margins[${account}].balanceStable: expected +1, actual +0 (${balanceStable} -> ${balanceStable})\n` +
+        `  liquidity[${account}][${poolId}]: expected +0, actual +0 (${liquidity} -> ${liquidity})`
+    )
+  })
+})
+
+describe('engineState', function () {
+  it('lists the values of the changes of reserves, margins, positions and invariants in order', function () {
+    const entries = getEngineStateEntries({
+      invariant: { pool: -1 },
+      liquidity: { account: { pool: 2 } },
+      margins: { account: { balanceStable: 3 } },
+      reserves: { pool: { reserveRisky: 4, cumulativeLiquidity: '5' } },
+    })
+    expect(entries.map(({ path, expected }) => [path, expected.toNumber()])).to.deep.eq([
+      ['reserves[pool].reserveRisky', 4],
+      ['reserves[pool].cumulativeLiquidity', 5],
+      ['margins[account].balanceStable', 3],
+      ['liquidity[account][pool]', 2],
+      ['invariant[pool]', -1],
+    ])
+  })
+
+  it('reads the reserves of each pool and the margins of each account once', async function () {
+    const calls: string[] = []
+    const engine: any = {
+      reserves: async (poolId: string) => (calls.push(`reserves ${poolId}`), { reserveRisky: 1, liquidity: 2 }),
+      margins: async (account: string) => (calls.push(`margins ${account}`), { balanceRisky: 3, balanceStable: 4 }),
+      liquidity: async (account: string, poolId: string) => (calls.push(`liquidity ${account} ${poolId}`), 5),
+      invariantOf: async (poolId: string) => (calls.push(`invariantOf ${poolId}`), 6),
+    }
+    const entries = getEngineStateEntries({
+      reserves: { pool: { reserveRisky: 0, liquidity: 0 } },
+      margins: { account: { balanceRisky: 0, balanceStable: 0 } },
+      liquidity: { account: { pool: 0 } },
+      invariant: { pool: 0 },
+    })
+    const values = await getEngineState(engine, entries)
+    expect(values.map((value) => value.toNumber())).to.deep.eq([1, 2, 3, 4, 5, 6])
+    expect(calls.sort()).to.deep.eq(['invariantOf pool', 'liquidity account pool', 'margins account', 'reserves pool'])
+  })
+
+  it('marks the values which change by more than the tolerance', function () {
+    const entries = getEngineStateEntries({ reserves: { pool: { reserveRisky: 10, reserveStable: -10 } } })
+    const before = [BigNumber.from(100), BigNumber.from(100)]
+    const after = [BigNumber.from(112), BigNumber.from(89)]
+    const diffs = diffEngineState(entries, before, after, { tolerance: 1 })
+    expect(diffs.map((diff) => diff.ok)).to.deep.eq([false, true])
+    expect(formatEngineStateDiff(diffs)).to.be.eq(
+      'x reserves[pool].reserveRisky: expected +10, actual +12 (100 -> 112)\n' +
+        '  reserves[pool].reserveStable: expected -10, actual -11 (100 -> 89)'
+    )
+  })
+})
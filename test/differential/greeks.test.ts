@@ -0,0 +1,95 @@
+import { parseWei } from 'web3-units'
+import { std_n_cdf } from '@primitivefi/rmm-math'
+
+import expect from '../shared/expect'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { Greeks, getReplicatedGreeks } from '../../src/greeks'
+import { VirtualPool } from '../../src/virtualPool'
+
+/**
+ * @returns Black-Scholes value of a covered call, the reference price minus a call premium with a risk free `rate`
+ */
+function coveredCallValue(strike: number, sigma: number, tau: number, price: number, rate = 0): number {
+  const d1 = (Math.log(price / strike) + (rate + (sigma * sigma) / 2) * tau) / (sigma * Math.sqrt(tau))
+  const d2 = d1 - sigma * Math.sqrt(tau)
+  const call = price * std_n_cdf(d1) - strike * Math.exp(-rate * tau) * std_n_cdf(d2)
+  return price - call
+}
+
+/**
+ * @returns greeks of a covered call from central finite differences of its value
+ */
+function differentiate(strike: number, sigma: number, tau: number, price: number): Greeks {
+  const value = (s = price, v = sigma, t = tau, r = 0) => coveredCallValue(strike, v, t, s, r)
+  const dS = price * 1e-4
+  const [dSigma, dTau, dRate] = [1e-5, 1e-6, 1e-6]
+  return {
+    delta: (value(price + dS) - value(price - dS)) / (2 * dS),
+    gamma: (value(price + dS) - 2 * value() + value(price - dS)) / (dS * dS),
+    vega: (value(price, sigma + dSigma) - value(price, sigma - dSigma)) / (2 * dSigma),
+    // a year passing lowers tau
+    theta: -(value(price, sigma, tau + dTau) - value(price, sigma, tau - dTau)) / (2 * dTau),
+    rho: (value(price, sigma, tau, dRate) - value(price, sigma, tau, -dRate)) / (2 * dRate),
+  }
+}
+
+const CASES = [
+  { description: 'at the money', strike: 10, sigma: 1, tau: 1, price: 10 },
+  { description: 'in the money', strike: 10, sigma: 0.5, tau: 0.5, price: 8 },
+  { description: 'out of the money', strike: 10, sigma: 0.8, tau: 2, price: 14 },
+  { description: 'close to expiry', strike: 2000, sigma: 1.2, tau: 0.01, price: 2100 },
+]
+
+describe('getReplicatedGreeks', function () {
+  CASES.forEach(function ({ description, strike, sigma, tau, price }) {
+    it(`matches the finite differences of a covered call ${description}`, function () {
+      const greeks = getReplicatedGreeks(strike, sigma, tau, price)
+      const expected = differentiate(strike, sigma, tau, price)
+      Object.entries(expected).forEach(([name, value]) => {
+        const actual = greeks[name as keyof Greeks]
+        expect(actual, name).to.be.closeTo(value, Math.max(Math.abs(value), 1) * 1e-4)
+      })
+    })
+  })
+
+  it('scales every greek by the liquidity', function () {
+    const { strike, sigma, tau, price } = CASES[0]
+    const unit = getReplicatedGreeks(strike, sigma, tau, price)
+    const scaled = getReplicatedGreeks(strike, sigma, tau, price, 3)
+    Object.keys(unit).forEach((name) => {
+      const key = name as keyof Greeks
+      expect(scaled[key], name).to.be.closeTo(unit[key] * 3, Math.abs(unit[key]) * 1e-12)
+    })
+  })
+
+  it('has the greeks of the min(price, strike) payoff at expiry', function () {
+    expect(getReplicatedGreeks(10, 1, 0, 8, 2)).to.deep.eq({ delta: 2, gamma: 0, vega: 0, theta: 0, rho: 0 })
+    expect(getReplicatedGreeks(10, 1, 0, 12, 2)).to.deep.eq({ delta: 0, gamma: 0, vega: 0, theta: 0, rho: 0 })
+  })
+})
+
+describe('greeks of calibrations and pools', function () {
+  ;[
+    { description: 'default', cal: DEFAULT_CONFIG },
+    { description: 'in the money', cal: calibrations.itm },
+    { description: 'out of the money', cal: calibrations.otm },
+  ].forEach(function ({ description, cal }) {
+    const { strike, sigma, tau, referencePrice } = cal
+
+    it(`prices the greeks of the ${description} calibration at its reference price`, function () {
+      const greeks = cal.greeks()
+      expect(greeks).to.deep.eq(getReplicatedGreeks(strike.float, sigma.float, tau.years, referencePrice.float))
+      expect(greeks.delta).to.be.closeTo(1 - cal.delta, 1e-12)
+    })
+
+    it(`has a delta of the risky reserves per liquidity of the ${description} pool`, function () {
+      const riskyPerLp = parseWei(1, cal.decimalsRisky).sub(parseWei(cal.delta, cal.decimalsRisky))
+      const { pool } = VirtualPool.create(cal, riskyPerLp, parseWei(1))
+      // the spot price of the reserves approximates the reference price the pool was created at
+      const greeks = pool.greeks()
+      expect(pool.spotPrice.float).to.be.closeTo(referencePrice.float, referencePrice.float * 1e-3)
+      expect(greeks.delta).to.be.closeTo(pool.reserveRisky.float / pool.liquidity.float, 1e-4)
+      expect(pool.greeks(2).delta).to.be.closeTo(greeks.delta * 2, 1e-12)
+    })
+  })
+})
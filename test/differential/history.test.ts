@@ -0,0 +1,88 @@
+import { ethers } from 'hardhat'
+import { Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+
+import expect from '../shared/expect'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll } from '../shared/hooks'
+import { FuzzContext, generateActions, runActions } from '../shared/fuzz'
+import { Random } from '../../src/simulation/random'
+import { EngineHistory, decodeEngineRecords } from '../../src/history'
+
+/**
+ * @dev Set FUZZ_SEED to replay a single seed, and FUZZ_RUNS or FUZZ_STEPS to replay more actions
+ */
+const SEED = process.env.FUZZ_SEED ? +process.env.FUZZ_SEED : 1
+const RUNS = process.env.FUZZ_RUNS ? +process.env.FUZZ_RUNS : 2
+const STEPS = process.env.FUZZ_STEPS ? +process.env.FUZZ_STEPS : 20
+
+const CALIBRATIONS = [DEFAULT_CONFIG, calibrations.itm, calibrations.otm, calibrations.mingamma, calibrations.maxgamma]
+
+describe('replaying the history of the MockEngine from its logs', function () {
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let signer: Wallet, other: Wallet
+  before(async function () {
+    ;[signer, other] = await (ethers as any).getSigners()
+    loadFixture = createFixtureLoader([signer, other])
+  })
+
+  async function setup(): Promise<FuzzContext> {
+    const fixture = await loadFixture(engineFixture)
+    const { factory, factoryDeploy, router } = fixture
+    const { engine, risky, stable } = await fixture.createEngine(
+      DEFAULT_CONFIG.decimalsRisky,
+      DEFAULT_CONFIG.decimalsStable
+    )
+    const contracts = { factory, factoryDeploy, router, engine, risky, stable }
+    await useTokens(signer, contracts, DEFAULT_CONFIG)
+    await useApproveAll(signer, contracts)
+    return { contracts, signer, accounts: [router.address, signer.address, other.address] }
+  }
+
+  for (let seed = SEED; seed < SEED + RUNS; seed++) {
+    it(`matches the engine at every block of ${STEPS} random actions of seed ${seed}`, async function () {
+      const context = await setup()
+      const { engine, risky, stable } = context.contracts
+      const startBlock = await ethers.provider.getBlockNumber()
+      const actions = generateActions(new Random(seed), STEPS, CALIBRATIONS.length, context.accounts.length)
+      expect(await runActions(context, actions, CALIBRATIONS)).to.be.undefined
+      const endBlock = await ethers.provider.getBlockNumber()
+
+      const logs = (
+        await Promise.all(
+          [engine, risky, stable].map((contract) =>
+            ethers.provider.getLogs({ address: contract.address, fromBlock: startBlock, toBlock: endBlock })
+          )
+        )
+      ).flat()
+      const records = decodeEngineRecords(engine.address, logs, { risky: risky.address, stable: stable.address })
+      const history = new EngineHistory(engine.address, await engine.MIN_LIQUIDITY(), records)
+
+      for (let blockTag = startBlock; blockTag <= endBlock; blockTag++) {
+        const state = history.at(blockTag)
+        for (const poolId of state.poolIds) {
+          const reserve = await engine.reserves(poolId, { blockTag })
+          const { reserveRisky, reserveStable, liquidity } = state.reserves(poolId)
+          expect(
+            [reserveRisky, reserveStable, liquidity].map(String),
+            `reserves of ${poolId} at ${blockTag}`
+          ).to.deep.eq([reserve.reserveRisky, reserve.reserveStable, reserve.liquidity].map(String))
+          for (const account of context.accounts) {
+            const position = await engine.liquidity(account, poolId, { blockTag })
+            expect(state.liquidity(account, poolId).toString(), `liquidity of ${account} at ${blockTag}`).to.eq(
+              position.toString()
+            )
+          }
+        }
+        for (const account of context.accounts) {
+          const margin = await engine.margins(account, { blockTag })
+          const { balanceRisky, balanceStable } = state.margins(account)
+          expect([balanceRisky, balanceStable].map(String), `margin of ${account} at ${blockTag}`).to.deep.eq(
+            [margin.balanceRisky, margin.balanceStable].map(String)
+          )
+        }
+      }
+    })
+  }
+})
@@ -0,0 +1,124 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ethers } from 'hardhat'
+import { Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+
+import expect from '../shared/expect'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll } from '../shared/hooks'
+import { FuzzContext, generateActions, runActions } from '../shared/fuzz'
+import { Random } from '../../src/simulation/random'
+import {
+  createStore,
+  getMargins,
+  getPools,
+  getPositions,
+  getSwaps,
+  IndexStore,
+  loadStore,
+  saveStore,
+} from '../../scripts/indexer/store'
+import { syncStore } from '../../scripts/indexer/sync'
+
+const STEPS = 20
+const CALIBRATIONS = [DEFAULT_CONFIG, calibrations.itm, calibrations.mingamma]
+
+describe('indexing a factory of the local network', function () {
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let signer: Wallet, other: Wallet
+  let context: FuzzContext, fromBlock: number, chainId: number
+
+  before(async function () {
+    ;[signer, other] = await (ethers as any).getSigners()
+    loadFixture = createFixtureLoader([signer, other])
+    ;({ chainId } = await ethers.provider.getNetwork())
+  })
+
+  beforeEach(async function () {
+    const fixture = await loadFixture(engineFixture)
+    const { factory, factoryDeploy, router } = fixture
+    fromBlock = (await ethers.provider.getBlockNumber()) + 1
+    const { engine, risky, stable } = await fixture.createEngine(
+      DEFAULT_CONFIG.decimalsRisky,
+      DEFAULT_CONFIG.decimalsStable
+    )
+    const contracts = { factory, factoryDeploy, router, engine, risky, stable }
+    await useTokens(signer, contracts, DEFAULT_CONFIG)
+    await useApproveAll(signer, contracts)
+    context = { contracts, signer, accounts: [router.address, signer.address, other.address] }
+    const actions = generateActions(new Random(1), STEPS, CALIBRATIONS.length, context.accounts.length)
+    expect(await runActions(context, actions, CALIBRATIONS)).to.be.undefined
+  })
+
+  async function sync(store: IndexStore, toBlock?: number): Promise<IndexStore> {
+    // small batches, to index the events of the actions over many requests
+    await syncStore(ethers.provider, store, { toBlock, batchSize: 5 })
+    return store
+  }
+
+  it('indexes the engine with the pools, positions and margins of the engine, and its swaps', async function () {
+    const { factory, engine } = context.contracts
+    const store = await sync(createStore(chainId, factory.address, fromBlock))
+    expect(store.lastBlock).to.be.eq(await ethers.provider.getBlockNumber())
+    expect(Object.keys(store.engines)).to.deep.eq([engine.address])
+
+    const pools = getPools(store, engine.address)
+    expect(pools).to.not.be.empty
+    for (const pool of pools) {
+      const reserve = await engine.reserves(pool.poolId)
+      expect([pool.reserveRisky, pool.reserveStable, pool.liquidity], `reserves of ${pool.poolId}`).to.deep.eq(
+        [reserve.reserveRisky, reserve.reserveStable, reserve.liquidity].map(String)
+      )
+    }
+
+    for (const account of context.accounts) {
+      for (const pool of pools) {
+        const position = getPositions(store, account).find((entry) => entry.poolId === pool.poolId)
+        const liquidity = await engine.liquidity(account, pool.poolId)
+        expect(position?.liquidity ?? '0', `liquidity of ${account} in ${pool.poolId}`).to.be.eq(liquidity.toString())
+      }
+      const [margin] = getMargins(store, account)
+      const { balanceRisky, balanceStable } = await engine.margins(account)
+      expect([margin?.balanceRisky ?? '0', margin?.balanceStable ?? '0'], `margin of ${account}`).to.deep.eq(
+        [balanceRisky, balanceStable].map(String)
+      )
+    }
+
+    const swaps = await engine.queryFilter(engine.filters.Swap(), fromBlock)
+    expect(swaps).to.not.be.empty
+    expect(getSwaps(store).map((swap) => swap.transactionHash)).to.deep.eq(swaps.map((swap) => swap.transactionHash))
+  })
+
+  it('continues a saved store from its last block, like a store synced at once', async function () {
+    const { factory } = context.contracts
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-')), 'store.json')
+    const lastBlock = await ethers.provider.getBlockNumber()
+    try {
+      saveStore(
+        file,
+        await sync(createStore(chainId, factory.address, fromBlock), Math.floor((fromBlock + lastBlock) / 2))
+      )
+      const loaded = loadStore(file, chainId, factory.address)!
+      const continued = await sync(loaded)
+      const once = await sync(createStore(chainId, factory.address, fromBlock))
+      expect(JSON.parse(JSON.stringify(continued))).to.deep.eq(JSON.parse(JSON.stringify(once)))
+
+      // the integers of the records are written as decimal strings
+      saveStore(file, continued)
+      const { engines } = JSON.parse(fs.readFileSync(file, 'utf8'))
+      const records: any[] = Object.values(engines).flatMap((engine: any) => engine.records)
+      const args = records.flatMap((record) => Object.values(record.args))
+      expect(records.find((record) => 'delRisky' in record.args).args.delRisky).to.match(/^\d+$/)
+      expect(args.filter((arg) => typeof arg === 'object')).to.be.empty
+      const reloaded = loadStore(file, chainId, factory.address)!
+      expect(JSON.parse(JSON.stringify(reloaded))).to.deep.eq(JSON.parse(JSON.stringify(once)))
+
+      expect(() => loadStore(file, chainId, other.address)).to.throw(`indexes factory ${factory.address}`)
+    } finally {
+      fs.rmSync(path.dirname(file), { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,204 @@
+import { ethers } from 'hardhat'
+import { constants, Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+import { parseWei, Time, Wei } from 'web3-units'
+import { getSpotPriceApproximation } from '@primitivefi/rmm-math'
+
+import expect from '../shared/expect'
+import { Contracts } from '../../types'
+import { Calibration } from '../../src/calibration'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll, usePool, useLiquidity } from '../shared/hooks'
+import { VirtualPool } from '../../src/virtualPool'
+import {
+  Q256,
+  Q32,
+  ReserveObservation,
+  ReserveOracle,
+  accumulate,
+  getTimeWeightedAverage,
+  getTwapSpotPrice,
+  hasWrapped,
+  toObservation,
+} from '../../src/oracle'
+
+const { HashZero } = constants
+
+const POOLS: { description: string; calibration: Calibration }[] = [
+  { description: 'default', calibration: DEFAULT_CONFIG },
+  { description: '6 decimal risky and stable', calibration: calibrations.lowdecimals },
+]
+
+/**
+ * @returns fields of an observation as strings, to deep compare observations of the engine and the oracle
+ */
+function format(observation: ReserveObservation): string[] {
+  return [
+    observation.reserveRisky,
+    observation.reserveStable,
+    observation.liquidity,
+    observation.blockTimestamp,
+    observation.cumulativeRisky,
+    observation.cumulativeStable,
+    observation.cumulativeLiquidity,
+  ].map((value) => value.toString())
+}
+
+POOLS.forEach(function ({ description, calibration }) {
+  describe(`ReserveOracle against the MockEngine in the ${description} pool`, function () {
+    const { decimalsRisky, decimalsStable } = calibration
+    let loadFixture: ReturnType<typeof createFixtureLoader>
+    let signer: Wallet, other: Wallet
+    let contracts: Contracts, poolId: string, pool: VirtualPool, oracle: ReserveOracle
+
+    const observe = async () => toObservation(await contracts.engine.reserves(poolId))
+
+    /** Advances the engine and the pool by `by` seconds, then swaps or allocates the same amounts in both */
+    const step = async (by: number, action: 'swapRisky' | 'swapStable' | 'allocate') => {
+      const { engine, router } = contracts
+      await engine.advanceTime(by)
+      pool.advanceTime(by)
+      if (action === 'allocate') {
+        const [delRisky, delStable] = [pool.reserveRisky.div(4), pool.reserveStable.div(4)]
+        pool.allocate(delRisky, delStable)
+        await router.allocateFromExternal(poolId, signer.address, delRisky.raw, delStable.raw, HashZero)
+      } else {
+        const riskyForStable = action === 'swapRisky'
+        const deltaIn = pool.getMaxDeltaIn(riskyForStable).div(8)
+        const { deltaOut } = riskyForStable
+          ? pool.virtualSwapAmountInRisky(deltaIn)
+          : pool.virtualSwapAmountInStable(deltaIn)
+        pool.swap(riskyForStable, deltaIn, deltaOut)
+        await router.swap(router.address, poolId, riskyForStable, deltaIn.raw, deltaOut.raw, false, false, HashZero)
+      }
+    }
+
+    before(async function () {
+      ;[signer, other] = await (ethers as any).getSigners()
+      loadFixture = createFixtureLoader([signer, other])
+    })
+
+    beforeEach(async function () {
+      const fixture = await loadFixture(engineFixture)
+      const { factory, factoryDeploy, router } = fixture
+      const { engine, risky, stable } = await fixture.createEngine(decimalsRisky, decimalsStable)
+      contracts = { factory, factoryDeploy, router, engine, risky, stable }
+      await useTokens(signer, contracts, calibration)
+      await useApproveAll(signer, contracts)
+      ;({ poolId } = await usePool(signer, contracts, calibration))
+      await useLiquidity(signer, contracts, calibration, router.address)
+      pool = await VirtualPool.fromEngine(engine, poolId, calibration.referencePrice.float, true)
+      oracle = new ReserveOracle(pool)
+    })
+
+    it('starts from the reserves of the engine', async function () {
+      expect(format(oracle.latest)).to.deep.eq(format(await observe()))
+    })
+
+    it('accumulates the reserves of swaps and allocates like the engine', async function () {
+      for (const [by, action] of [
+        [3600, 'swapRisky'],
+        [86400, 'allocate'],
+        [600, 'swapStable'],
+      ] as const) {
+        await step(by, action)
+        expect(format(oracle.record())).to.deep.eq(format(await observe()))
+      }
+    })
+
+    it('observes the cumulative reserves the engine accumulates at its next update', async function () {
+      await step(3600, 'swapRisky')
+      oracle.record()
+      await step(7200, 'allocate')
+      const next = await observe()
+      const observed = oracle.observeAt(next.blockTimestamp)
+      expect(format(observed).slice(3)).to.deep.eq(format(next).slice(3))
+    })
+
+    it('averages the reserves between observations of the engine', async function () {
+      const first = await observe()
+      await step(3600, 'swapRisky')
+      oracle.record()
+      await step(86400, 'swapStable')
+      oracle.record()
+      const last = await observe()
+
+      const expected = getTimeWeightedAverage(first, last, calibration)
+      const twap = oracle.consult(first.blockTimestamp, last.blockTimestamp)
+      expect(twap.period).to.be.eq(3600 + 86400)
+      expect(twap.averageRisky.raw).to.be.eq(expected.averageRisky.raw)
+      expect(twap.averageStable.raw).to.be.eq(expected.averageStable.raw)
+      expect(twap.averageLiquidity.raw).to.be.eq(expected.averageLiquidity.raw)
+      expect(twap.wrapped).to.be.false
+    })
+  })
+})
+
+describe('ReserveOracle', function () {
+  let pool: VirtualPool
+
+  beforeEach(function () {
+    const riskyPerLp = parseWei(1).sub(parseWei(DEFAULT_CONFIG.delta))
+    pool = VirtualPool.create(DEFAULT_CONFIG, riskyPerLp, parseWei(1), true).pool
+  })
+
+  it('observes across a wrap of the uint32 timestamp', function () {
+    // only the clock, as the pool expires long before
+    pool.blockTimestamp = new Time(Q32 - 100)
+    const oracle = new ReserveOracle(pool)
+    const reserveRisky = pool.reserveRisky.raw
+    pool.blockTimestamp = pool.blockTimestamp.add(200)
+    pool.allocate(pool.reserveRisky, pool.reserveStable)
+    expect(oracle.record().blockTimestamp).to.be.eq(100)
+
+    // the first observation is before the timestamp, though its uint32 timestamp is larger
+    expect(oracle.observeAt(Q32 - 50).cumulativeRisky).to.be.eq(reserveRisky.mul(50))
+    expect(oracle.observeAt(150).cumulativeRisky).to.be.eq(reserveRisky.mul(200).add(pool.reserveRisky.raw.mul(50)))
+
+    const twap = oracle.consult(Q32 - 100, 100)
+    expect(twap.period).to.be.eq(200)
+    expect(twap.averageRisky.raw).to.be.eq(reserveRisky)
+    expect(twap.wrapped).to.be.true
+  })
+
+  it('averages the reserves across a wrap of the cumulative reserves', function () {
+    const oracle = new ReserveOracle(pool)
+    const before: ReserveObservation = { ...oracle.latest, cumulativeRisky: Q256.sub(1) }
+    const after = accumulate(before, before.blockTimestamp + 10)
+
+    expect(after.cumulativeRisky).to.be.eq(pool.reserveRisky.raw.mul(10).sub(1))
+    expect(hasWrapped(before, after)).to.be.true
+    const twap = getTimeWeightedAverage(before, after, pool.cal)
+    expect(twap.averageRisky.raw).to.be.eq(pool.reserveRisky.raw)
+    expect(twap.wrapped).to.be.true
+  })
+
+  it('prices the time weighted spot price of constant reserves like the average reserves', function () {
+    const oracle = new ReserveOracle(pool)
+    pool.advanceTime(3600)
+    expect(oracle.consultSpotPrice(undefined, undefined, pool.cal.tau).raw).to.be.eq(
+      getTwapSpotPrice(oracle.consult(), pool.cal).raw
+    )
+  })
+
+  it('weights the spot price of each observation by the seconds its reserves were held', function () {
+    const { strike, sigma, tau } = pool.cal
+    const spotOf = (risky: Wei, liquidity: Wei) =>
+      getSpotPriceApproximation(risky.float / liquidity.float, strike.float, sigma.float, tau.years)
+
+    const oracle = new ReserveOracle(pool)
+    const spot0 = spotOf(pool.reserveRisky, pool.liquidity)
+    pool.advanceTime(1000)
+    pool.swapAmountInRisky(pool.getMaxDeltaIn(true).div(2))
+    oracle.record()
+    const spot1 = spotOf(pool.reserveRisky, pool.liquidity)
+    pool.advanceTime(3000)
+
+    const expected = (spot0 * 1000 + spot1 * 3000) / 4000
+    const spotPrice = oracle.consultSpotPrice(undefined, undefined, tau)
+    expect(spotPrice.float).to.be.closeTo(expected, 1e-9)
+    // the spot price of the average reserves is a different value, as the spot price is not linear in the reserves
+    expect(getTwapSpotPrice(oracle.consult(), pool.cal, tau).float).to.not.be.closeTo(expected, 1e-6)
+  })
+})
@@ -0,0 +1,176 @@
+import { ethers } from 'hardhat'
+import { constants, Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+import { parseWei, Wei } from 'web3-units'
+
+import expect from '../shared/expect'
+import { Contracts } from '../../types'
+import { Calibration } from '../../src/calibration'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll } from '../shared/hooks'
+import { Swaps } from '../../src/swaps'
+import { VirtualPool } from '../../src/virtualPool'
+import { SimulationConfig, simulate, toCSV } from '../../src/simulation'
+
+const { HashZero } = constants
+
+const DAY = 86400
+
+const POOLS: { description: string; calibration: Calibration }[] = [
+  { description: 'default', calibration: DEFAULT_CONFIG },
+  { description: '6 decimal risky and stable', calibration: calibrations.lowdecimals },
+]
+
+POOLS.forEach(function ({ description, calibration }) {
+  describe(`exact simulation against the MockEngine in the ${description} pool`, function () {
+    const { decimalsRisky, decimalsStable } = calibration
+    const config: SimulationConfig = {
+      cal: calibration,
+      liquidity: parseWei(1),
+      seed: 7,
+      stepSeconds: DAY,
+      steps: 8,
+      process: { volatility: 2 },
+      exact: true,
+    }
+    let loadFixture: ReturnType<typeof createFixtureLoader>
+    let signer: Wallet, other: Wallet
+    let contracts: Contracts
+
+    before(async function () {
+      ;[signer, other] = await (ethers as any).getSigners()
+      loadFixture = createFixtureLoader([signer, other])
+    })
+
+    beforeEach(async function () {
+      const fixture = await loadFixture(engineFixture)
+      const { factory, factoryDeploy, router } = fixture
+      const { engine, risky, stable } = await fixture.createEngine(decimalsRisky, decimalsStable)
+      contracts = { factory, factoryDeploy, router, engine, risky, stable }
+      await useTokens(signer, contracts, calibration)
+      await useApproveAll(signer, contracts)
+    })
+
+    it('records the reserves of an engine pool traded by the same arbitrageur', async function () {
+      const { records } = simulate(config)
+      const { engine, router } = contracts
+      const { strike, sigma, maturity, gamma, tau } = calibration
+
+      // created with the reserves of the initial reference price, like the simulation
+      const riskyPerLp = Swaps.getRiskyReservesGivenReferencePrice(
+        strike.float,
+        sigma.float,
+        tau.years,
+        records[0].referencePrice
+      )
+      await router.create(
+        strike.raw,
+        sigma.raw,
+        maturity.raw,
+        gamma.raw,
+        parseWei(riskyPerLp.toFixed(decimalsRisky), decimalsRisky).raw,
+        config.liquidity.raw,
+        HashZero
+      )
+      const poolId = calibration.poolId(engine.address)
+
+      let trades = 0
+      for (const record of records) {
+        if (record.step > 0) {
+          await engine.advanceTime(config.stepSeconds)
+          const pool = await VirtualPool.fromEngine(engine, poolId, record.referencePrice, true)
+          pool.advanceTime((await engine.time()).toNumber() - pool.blockTimestamp.raw)
+          const plan = pool.planArbitrage(parseWei(record.referencePrice.toFixed(18)))
+          expect(plan.deltaIn.raw.isZero() ? undefined : plan.riskyForStable).to.be.eq(record.riskyForStable)
+          if (!plan.deltaIn.raw.isZero()) {
+            trades++
+            await router.swap(
+              router.address,
+              poolId,
+              plan.riskyForStable,
+              plan.deltaIn.raw,
+              plan.deltaOut.raw,
+              false,
+              false,
+              HashZero
+            )
+          }
+        }
+
+        const reserve = await engine.reserves(poolId)
+        expect(record.timestamp).to.be.eq((await engine.time()).toNumber())
+        // same amounts in wei have the same floats
+        expect(record.reserveRisky).to.be.eq(new Wei(reserve.reserveRisky, decimalsRisky).float)
+        expect(record.reserveStable).to.be.eq(new Wei(reserve.reserveStable, decimalsStable).float)
+        expect(record.liquidity).to.be.eq(new Wei(reserve.liquidity, 18).float)
+      }
+      expect(trades).to.be.gt(0)
+    })
+  })
+})
+
+describe('simulate', function () {
+  const config: SimulationConfig = {
+    cal: DEFAULT_CONFIG,
+    liquidity: parseWei(1),
+    seed: 42,
+    stepSeconds: DAY,
+    steps: 30,
+  }
+
+  it('simulates the same records for the same seed, and others for another seed', function () {
+    const { records } = simulate(config)
+    expect(simulate(config).records).to.deep.eq(records)
+    expect(simulate({ ...config, seed: 43 }).records).to.not.deep.eq(records)
+  })
+
+  it('creates the pool with the reserves of the initial reference price', function () {
+    const [created] = simulate(config).records
+    const { strike, sigma, tau, referencePrice } = DEFAULT_CONFIG
+    expect(created.step).to.be.eq(0)
+    expect(created.referencePrice).to.be.eq(referencePrice.float)
+    expect(created.reserveRisky / created.liquidity).to.be.closeTo(
+      Swaps.getRiskyReservesGivenReferencePrice(strike.float, sigma.float, tau.years, referencePrice.float),
+      1e-12
+    )
+    expect(created.riskyForStable).to.be.undefined
+  })
+
+  it('trades the spot price to the reference price every step', function () {
+    const { records } = simulate(config)
+    expect(records).to.have.length(config.steps! + 1)
+    records.slice(1).forEach((record, i) => {
+      expect(record.timestamp - records[i].timestamp).to.be.eq(DAY)
+      expect(record.tau).to.be.lt(records[i].tau)
+      // an arbitrage reached its target or no swap was needed
+      expect(Math.abs(record.spotPrice - record.referencePrice) / record.referencePrice).to.be.lte(1e-4)
+      expect(record.lpValue).to.be.closeTo(record.reserveRisky * record.referencePrice + record.reserveStable, 1e-12)
+    })
+    // the arbitrageur paid fees to the pool
+    const last = records[records.length - 1]
+    expect(last.feesRisky + last.feesStable).to.be.gt(0)
+  })
+
+  it('stops at the maturity of the pool', function () {
+    const { records } = simulate({ ...config, stepSeconds: Math.ceil(DEFAULT_CONFIG.tau.raw / 4), steps: 10 })
+    expect(records).to.have.length(4)
+    expect(records[records.length - 1].tau).to.be.gt(0)
+  })
+
+  it('formats the records as comma separated values with a header row', function () {
+    const { records } = simulate({ ...config, steps: 3 })
+    const [header, ...rows] = toCSV(records).split('\n')
+    const fields = header.split(',')
+    expect(fields[0]).to.be.eq('step')
+    expect(rows).to.have.length(records.length)
+    rows.forEach((row, i) => {
+      const values = row.split(',')
+      expect(values).to.have.length(fields.length)
+      fields.forEach((field, j) => {
+        const value = records[i][field as keyof typeof records[number]]
+        expect(values[j]).to.be.eq(typeof value === 'undefined' ? '' : String(value))
+      })
+    })
+  })
+})
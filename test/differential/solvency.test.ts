@@ -0,0 +1,109 @@
+import { ethers } from 'hardhat'
+import { constants, Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+import { parseWei } from 'web3-units'
+
+import expect from '../shared/expect'
+import { Contracts } from '../../types'
+import { DEFAULT_CONFIG } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll, usePool, useLiquidity, useMargin } from '../shared/hooks'
+import { assertEngineSolvent, getShortfall } from '../shared/solvency'
+
+const { HashZero } = constants
+
+describe('assertEngineSolvent against the MockEngine', function () {
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let signer: Wallet, other: Wallet
+  let contracts: Contracts, poolId: string, accounts: string[]
+
+  before(async function () {
+    ;[signer, other] = await (ethers as any).getSigners()
+    loadFixture = createFixtureLoader([signer, other])
+  })
+
+  beforeEach(async function () {
+    const fixture = await loadFixture(engineFixture)
+    const { factory, factoryDeploy, router } = fixture
+    const { engine, risky, stable } = await fixture.createEngine(
+      DEFAULT_CONFIG.decimalsRisky,
+      DEFAULT_CONFIG.decimalsStable
+    )
+    contracts = { factory, factoryDeploy, router, engine, risky, stable }
+    await useTokens(signer, contracts, DEFAULT_CONFIG)
+    await useApproveAll(signer, contracts)
+    ;({ poolId } = await usePool(signer, contracts, DEFAULT_CONFIG))
+    await useLiquidity(signer, contracts, DEFAULT_CONFIG, router.address)
+    await useMargin(signer, contracts, parseWei('100'), parseWei('200'), signer.address)
+    await useMargin(signer, contracts, parseWei('3'), parseWei('4'), router.address)
+    accounts = [signer.address, router.address]
+  })
+
+  it('sums the reserves and margins the token balances of the engine cover', async function () {
+    const { engine, risky, stable } = contracts
+    const snapshot = await assertEngineSolvent(engine, [poolId], accounts)
+    const reserve = await engine.reserves(poolId)
+
+    expect(snapshot.balanceRisky).to.be.eq(await risky.balanceOf(engine.address))
+    expect(snapshot.balanceStable).to.be.eq(await stable.balanceOf(engine.address))
+    expect(snapshot.reserveRisky).to.be.eq(reserve.reserveRisky)
+    expect(snapshot.reserveStable).to.be.eq(reserve.reserveStable)
+    expect(snapshot.marginRisky).to.be.eq(parseWei('103').raw)
+    expect(snapshot.marginStable).to.be.eq(parseWei('204').raw)
+    // the engine holds exactly what it owes
+    expect(snapshot.balanceRisky).to.be.eq(snapshot.reserveRisky.add(snapshot.marginRisky))
+    expect(snapshot.balanceStable).to.be.eq(snapshot.reserveStable.add(snapshot.marginStable))
+  })
+
+  it('counts the same pool and account once, in any case of the address', async function () {
+    const { engine } = contracts
+    const snapshot = await assertEngineSolvent(engine, [poolId, poolId], [...accounts, signer.address.toLowerCase()])
+    expect(snapshot).to.deep.eq(await assertEngineSolvent(engine, [poolId], accounts))
+  })
+
+  it('is solvent for a subset of the pools and accounts', async function () {
+    const snapshot = await assertEngineSolvent(contracts.engine, [], [contracts.router.address])
+    expect(snapshot.reserveRisky).to.be.eq(0)
+    expect(snapshot.marginRisky).to.be.eq(parseWei('3').raw)
+  })
+
+  it('throws with the shortfall of the engine if its balance is less than what it owes', async function () {
+    const { engine, risky } = contracts
+    await risky.burn(engine.address, 1)
+    let error: Error | undefined
+    try {
+      await assertEngineSolvent(engine, [poolId], accounts)
+    } catch (err) {
+      error = err as Error
+    }
+    expect(error?.message).to.be.eq(`Engine ${engine.address} is insolvent by 1 risky and 0 stable`)
+    // the balance still covers the reserves alone
+    await assertEngineSolvent(engine, [poolId], [])
+  })
+
+  it('has no shortfall for more balance than what the engine owes', async function () {
+    const { engine, stable } = contracts
+    await stable.mint(engine.address, parseWei('1').raw)
+    const snapshot = await assertEngineSolvent(engine, [poolId], accounts)
+    expect(getShortfall(snapshot)).to.deep.eq({ risky: parseWei(0).raw, stable: parseWei(0).raw })
+  })
+
+  it('keeps the engine solvent in a transaction which changes pools or accounts not given', async function () {
+    const { engine, router } = contracts
+    const deposit = () => router.deposit(signer.address, parseWei('1').raw, parseWei('2').raw, HashZero)
+    await expect(deposit).to.keepEngineSolvent(engine, [poolId], [router.address])
+  })
+
+  it('fails if exact and the balances change by more than the given reserves and margins', async function () {
+    const { engine, router } = contracts
+    const deposit = () => router.deposit(signer.address, parseWei('1').raw, parseWei('2').raw, HashZero)
+    await expect(deposit).to.keepEngineSolvent(engine, [poolId], accounts, { exact: true })
+    let failure: Error | undefined
+    try {
+      await expect(deposit).to.keepEngineSolvent(engine, [poolId], [router.address], { exact: true })
+    } catch (err) {
+      failure = err as Error
+    }
+    expect(failure?.message).to.be.eq(`Expected risky balance change of ${parseWei('1').raw} to be 0`)
+  })
+})
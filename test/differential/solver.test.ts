@@ -0,0 +1,125 @@
+import { ethers } from 'hardhat'
+import { Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+import { parseWei, Time, Wei } from 'web3-units'
+
+import expect from '../shared/expect'
+import { Contracts } from '../../types'
+import { Calibration } from '../../src/calibration'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll, usePool } from '../shared/hooks'
+import { Swaps } from '../../src/swaps'
+import { VirtualPool } from '../../src/virtualPool'
+import { getImpliedSigma, getMispricing, getReservesGivenReferencePrice } from '../../src/solver'
+
+const POOLS: { description: string; calibration: Calibration }[] = [
+  { description: 'default', calibration: DEFAULT_CONFIG },
+  { description: 'in the money', calibration: calibrations.itm },
+  { description: 'out of the money', calibration: calibrations.otm },
+  { description: '6 decimal risky and stable', calibration: calibrations.lowdecimals },
+]
+
+POOLS.forEach(function ({ description, calibration }) {
+  describe(`solver against the engine in the ${description} pool`, function () {
+    const { decimalsRisky, decimalsStable } = calibration
+    const referencePrice = calibration.referencePrice.float
+    let loadFixture: ReturnType<typeof createFixtureLoader>
+    let signer: Wallet, other: Wallet
+    let contracts: Contracts, poolId: string
+
+    before(async function () {
+      ;[signer, other] = await (ethers as any).getSigners()
+      loadFixture = createFixtureLoader([signer, other])
+    })
+
+    beforeEach(async function () {
+      const fixture = await loadFixture(engineFixture)
+      const { factory, factoryDeploy, router } = fixture
+      const { engine, risky, stable } = await fixture.createEngine(decimalsRisky, decimalsStable)
+      contracts = { factory, factoryDeploy, router, engine, risky, stable }
+      await useTokens(signer, contracts, calibration)
+      await useApproveAll(signer, contracts)
+      ;({ poolId } = await usePool(signer, contracts, calibration))
+    })
+
+    it('computes the reserves the engine creates the pool with at the reference price', async function () {
+      const reserve = await contracts.engine.reserves(poolId)
+      const target = getReservesGivenReferencePrice(calibration, referencePrice, new Wei(reserve.liquidity, 18))
+      expect(target.reserveRisky.float).to.be.closeTo(new Wei(reserve.reserveRisky, decimalsRisky).float, 1e-6)
+      // the engine computes the stable reserves with its fixed point approximation of the inverse normal cdf, which is
+      // within 1% of the float curve
+      const reserveStable = new Wei(reserve.reserveStable, decimalsStable).float
+      expect(target.reserveStable.float).to.be.closeTo(reserveStable, reserveStable * 1e-2)
+    })
+
+    it('recovers the sigma of the pool from the reserves of the engine', async function () {
+      const reserve = await contracts.engine.reserves(poolId)
+      const liquidity = new Wei(reserve.liquidity, 18).float
+      const result = getImpliedSigma(
+        calibration,
+        new Wei(reserve.reserveRisky, decimalsRisky).float / liquidity,
+        new Wei(reserve.reserveStable, decimalsStable).float / liquidity,
+        referencePrice
+      )
+      expect(result).to.not.be.undefined
+      expect(result!.root).to.be.closeTo(calibration.sigma.float, calibration.sigma.float * 1e-3)
+    })
+
+    it('has no mispricing at the reference price the engine created the pool at', async function () {
+      const pool = await VirtualPool.fromEngine(contracts.engine, poolId, referencePrice)
+      expect(getMispricing(pool, referencePrice).deviation).to.be.closeTo(0, 1e-3)
+      const lower = getMispricing(pool, referencePrice * 0.9)
+      expect(lower.deviation).to.be.closeTo(1 / 0.9 - 1, 2e-3)
+      // a lower price is replicated with more risky reserves
+      expect(lower.reserveRisky.raw.gt(pool.reserveRisky.raw)).to.be.true
+    })
+  })
+})
+
+describe('getImpliedSigma', function () {
+  const cal = DEFAULT_CONFIG
+  const strike = cal.strike.float
+  const tau = cal.tau.years
+
+  /** Reserves per liquidity of a covered call at `sigma` and `price` */
+  const reservesAt = (sigma: number, price: number): [number, number] => {
+    const risky = Swaps.getRiskyReservesGivenReferencePrice(strike, sigma, tau, price)
+    return [risky, Swaps.getStableGivenRisky(strike, sigma, tau, risky) as number]
+  }
+
+  ;[0.2, 0.5, 1, 2.5].forEach(function (sigma) {
+    it(`recovers a sigma of ${sigma} below the strike`, function () {
+      const price = strike * 0.8
+      const result = getImpliedSigma(cal, ...reservesAt(sigma, price), price)
+      expect(result!.root).to.be.closeTo(sigma, 1e-6)
+    })
+  })
+
+  it('picks the root with the stable reserves on either side of the peak above the strike', function () {
+    const price = strike * 1.5
+    const peak = Math.sqrt((2 * Math.log(price / strike)) / tau)
+    ;[peak * 0.5, peak * 2].forEach((sigma) => {
+      const result = getImpliedSigma(cal, ...reservesAt(sigma, price), price)
+      expect(result!.root).to.be.closeTo(sigma, 1e-6)
+    })
+  })
+
+  it('has no sigma for more risky reserves than the peak above the strike', function () {
+    const price = strike * 1.5
+    const peak = Math.sqrt((2 * Math.log(price / strike)) / tau)
+    const [risky, stable] = reservesAt(peak, price)
+    expect(getImpliedSigma(cal, risky + 1e-3, stable, price)).to.be.undefined
+  })
+
+  it('has no sigma at expiry', function () {
+    expect(getImpliedSigma(cal, ...reservesAt(1, strike), strike, new Time(0))).to.be.undefined
+  })
+
+  it('scales the reserves given the reference price by the liquidity', function () {
+    const unit = getReservesGivenReferencePrice(cal, strike)
+    const scaled = getReservesGivenReferencePrice(cal, strike, parseWei(4))
+    expect(scaled.reserveRisky.float).to.be.closeTo(unit.reserveRisky.float * 4, 1e-12)
+    expect(scaled.reserveStable.float).to.be.closeTo(unit.reserveStable.float * 4, 1e-9)
+  })
+})
@@ -0,0 +1,162 @@
+import hre, { ethers } from 'hardhat'
+import { constants, Wallet } from 'ethers'
+import { parseWei } from 'web3-units'
+
+import expect from '../shared/expect'
+import { IERC20__factory, PrimitiveEngine, PrimitiveEngine__factory } from '../../typechain'
+import { Units } from '../../src/fixedPointMath'
+
+const STRIKE = 10
+const SIGMA = 1
+const GAMMA = 0.9985
+const PRICE = 8
+
+/** Runs a task, with the lines it prints instead of printing them. */
+async function run(name: string, args: any): Promise<{ result: any; lines: string[] }> {
+  const log = console.log
+  const lines: string[] = []
+  console.log = (...data: any[]) => lines.push(data.join(' '))
+  try {
+    return { result: await hre.run(name, args), lines }
+  } finally {
+    console.log = log
+  }
+}
+
+describe('the tasks on the local network', function () {
+  let signer: Wallet
+  let contracts: { factory: string; risky: string; stable: string; engine: string; router: string }
+  let engine: PrimitiveEngine, poolId: string
+
+  before(async function () {
+    ;[signer] = await (ethers as any).getSigners()
+  })
+
+  beforeEach(async function () {
+    ;({ result: contracts } = await run('engine:deploy', { decimalsRisky: 18, decimalsStable: 6, mint: 1e6 }))
+    engine = PrimitiveEngine__factory.connect(contracts.engine, signer)
+    const { timestamp } = await ethers.provider.getBlock('latest')
+    ;({ result: poolId } = await run('pool:create', {
+      engine: contracts.engine,
+      router: contracts.router,
+      strike: STRIKE,
+      sigma: SIGMA,
+      maturity: timestamp + Units.YEAR,
+      gamma: GAMMA,
+      price: PRICE,
+      liquidity: 10,
+    }))
+  })
+
+  async function approveRouter(): Promise<void> {
+    for (const token of [contracts.risky, contracts.stable])
+      await (await IERC20__factory.connect(token, signer).approve(contracts.router, constants.MaxUint256)).wait()
+  }
+
+  it('creates a pool of the calibration, and inspects it', async function () {
+    const cal = await engine.calibrations(poolId)
+    expect(cal.strike).to.be.eq(parseWei(STRIKE, 6).raw)
+    expect(cal.sigma).to.be.eq(SIGMA * 1e4)
+    expect(cal.gamma).to.be.eq(GAMMA * 1e4)
+    expect((await engine.reserves(poolId)).liquidity).to.be.eq(parseWei(10).raw)
+
+    const { lines } = await run('pool:inspect', { engine: contracts.engine, pool: poolId, account: contracts.router })
+    expect(lines).to.include(`Pool ${poolId}`)
+    expect(lines).to.include(`Strike: ${STRIKE}`)
+    expect(lines).to.include(`Liquidity: 10`)
+    const spot = lines.find((line) => line.startsWith('Spot price: '))
+    expect(+spot!.slice('Spot price: '.length)).to.be.closeTo(PRICE, PRICE * 1e-2)
+  })
+
+  it('deposits into and withdraws from a margin', async function () {
+    await run('margin:deposit', { engine: contracts.engine, router: contracts.router, risky: 1.5, stable: 2 })
+    expect((await engine.margins(signer.address)).balanceRisky).to.be.eq(parseWei('1.5').raw)
+    expect((await engine.margins(signer.address)).balanceStable).to.be.eq(parseWei(2, 6).raw)
+
+    await run('margin:withdraw', { engine: contracts.engine, risky: 0.5, stable: 2 })
+    expect((await engine.margins(signer.address)).balanceRisky).to.be.eq(parseWei(1).raw)
+    expect((await engine.margins(signer.address)).balanceStable).to.be.eq(0)
+  })
+
+  it('allocates at least the liquidity from the tokens or the margin of the signer, and removes it', async function () {
+    const { engine: address, router } = contracts
+    await run('liquidity:allocate', { engine: address, pool: poolId, liquidity: 1, router, fromMargin: false })
+    expect(await engine.liquidity(signer.address, poolId)).to.be.gte(parseWei(1).raw)
+
+    await run('liquidity:remove', { engine: address, pool: poolId, liquidity: 1 })
+    const margin = await engine.margins(signer.address)
+    expect(margin.balanceRisky).to.be.gt(0)
+
+    await run('liquidity:allocate', { engine: address, pool: poolId, liquidity: 0.5, fromMargin: true })
+    expect(await engine.liquidity(signer.address, poolId)).to.be.gte(parseWei(0.5).raw)
+    expect((await engine.margins(signer.address)).balanceRisky).to.be.lt(margin.balanceRisky)
+  })
+
+  it('swaps the exact amounts in and out quoted with the math of the engine, without slippage', async function () {
+    const { engine: address, router } = contracts
+    const swaps = [
+      { exactIn: 0.1, riskyForStable: true },
+      { exactIn: 0.5, riskyForStable: false },
+      { exactOut: 0.5, riskyForStable: true },
+      { exactOut: 0.1, riskyForStable: false },
+    ]
+    // approves the router up front and pins the timestamp of the swap to the one of the pending block it is quoted at
+    await approveRouter()
+    for (const swap of swaps) {
+      const { timestamp } = await ethers.provider.getBlock('latest')
+      await ethers.provider.send('evm_setNextBlockTimestamp', [timestamp + 1])
+      const before = await engine.reserves(poolId)
+      const { result } = await run('swap', {
+        engine: address,
+        pool: poolId,
+        router,
+        slippage: 0,
+        fromMargin: false,
+        toMargin: false,
+        ...swap,
+      })
+      const after = await engine.reserves(poolId)
+      const [changeIn, changeOut] = swap.riskyForStable
+        ? [after.reserveRisky.sub(before.reserveRisky), before.reserveStable.sub(after.reserveStable)]
+        : [after.reserveStable.sub(before.reserveStable), before.reserveRisky.sub(after.reserveRisky)]
+      expect([changeIn, changeOut].map(String), JSON.stringify(swap)).to.deep.eq(
+        [result.deltaIn, result.deltaOut].map(String)
+      )
+      const [decimalsIn, decimalsOut] = swap.riskyForStable ? [18, 6] : [6, 18]
+      if (swap.exactIn) expect(result.deltaIn).to.be.eq(parseWei(swap.exactIn, decimalsIn).raw)
+      else expect(result.deltaOut).to.be.eq(parseWei(swap.exactOut!, decimalsOut).raw)
+    }
+  })
+
+  it('lowers the quoted amount out by the slippage', async function () {
+    const args = {
+      engine: contracts.engine,
+      pool: poolId,
+      router: contracts.router,
+      exactIn: 0.1,
+      riskyForStable: true,
+    }
+    await approveRouter()
+    const { timestamp } = await ethers.provider.getBlock('latest')
+    const snapshot = await ethers.provider.send('evm_snapshot', [])
+    await ethers.provider.send('evm_setNextBlockTimestamp', [timestamp + 1])
+    const { result: exact } = await run('swap', { ...args, slippage: 0, fromMargin: false, toMargin: false })
+    await ethers.provider.send('evm_revert', [snapshot])
+    await ethers.provider.send('evm_setNextBlockTimestamp', [timestamp + 1])
+    const { result } = await run('swap', { ...args, slippage: 0.01, fromMargin: false, toMargin: false })
+    expect(result.deltaOut).to.be.eq(exact.deltaOut.sub(exact.deltaOut.div(100)))
+  })
+
+  it('throws for a swap without either an exact amount in or out, or with both', async function () {
+    const args = { engine: contracts.engine, pool: poolId, riskyForStable: true, slippage: 0, fromMargin: true }
+    for (const amounts of [{}, { exactIn: 1, exactOut: 1 }]) {
+      let failure: Error | undefined
+      try {
+        await run('swap', { ...args, ...amounts })
+      } catch (err) {
+        failure = err as Error
+      }
+      expect(failure?.message).to.be.eq('Set either --exact-in or --exact-out')
+    }
+  })
+})
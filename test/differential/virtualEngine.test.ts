@@ -0,0 +1,113 @@
+import { ethers } from 'hardhat'
+import { Wallet } from 'ethers'
+import { Wei } from 'web3-units'
+import { createFixtureLoader } from 'ethereum-waffle'
+
+import expect from '../shared/expect'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll } from '../shared/hooks'
+import { Action, FuzzContext, fuzz, formatFuzzResult, runActions, shrink } from '../shared/fuzz'
+import { VirtualEngine } from '../../src/virtualEngine'
+
+/**
+ * @dev Set FUZZ_SEED to run a single seed, e.g. to reproduce a failure, and FUZZ_RUNS or FUZZ_STEPS to fuzz longer
+ */
+const SEED = process.env.FUZZ_SEED ? +process.env.FUZZ_SEED : 1
+const RUNS = process.env.FUZZ_RUNS ? +process.env.FUZZ_RUNS : 2
+const STEPS = process.env.FUZZ_STEPS ? +process.env.FUZZ_STEPS : 20
+
+/** Model which credits one more wei of risky to the margin of each deposit. */
+class MisdepositingEngine extends VirtualEngine {
+  deposit(sender: string, recipient: string, delRisky: Wei, delStable: Wei) {
+    return super.deposit(sender, recipient, delRisky.add(1), delStable)
+  }
+}
+
+const CALIBRATIONS = [DEFAULT_CONFIG, calibrations.itm, calibrations.otm, calibrations.mingamma, calibrations.maxgamma]
+
+describe('differential fuzzing of the VirtualEngine against the MockEngine', function () {
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let signer: Wallet, other: Wallet
+  before(async function () {
+    ;[signer, other] = await (ethers as any).getSigners()
+    loadFixture = createFixtureLoader([signer, other])
+  })
+
+  async function setup(): Promise<FuzzContext> {
+    const fixture = await loadFixture(engineFixture)
+    const { factory, factoryDeploy, router } = fixture
+    const { engine, risky, stable } = await fixture.createEngine(
+      DEFAULT_CONFIG.decimalsRisky,
+      DEFAULT_CONFIG.decimalsStable
+    )
+    const contracts = { factory, factoryDeploy, router, engine, risky, stable }
+    await useTokens(signer, contracts, DEFAULT_CONFIG)
+    await useApproveAll(signer, contracts)
+    return { contracts, signer, accounts: [router.address, signer.address, other.address] }
+  }
+
+  it('matches the errors of actions which revert on both, and accepts the swaps quoted by Swaps', async function () {
+    const swap = { type: 'swap', pool: 0, recipient: 0, size: 0.1, slippage: 0, fromMargin: false, toMargin: false }
+    const actions: Action[] = [
+      // the router reverts with `Unknown()`, but the engine's error is compared
+      { type: 'create', calibration: 0, riskyPerLp: 0, delLiquidity: 1 },
+      { type: 'create', calibration: 0, riskyPerLp: 0.5, delLiquidity: 1 },
+      { type: 'create', calibration: 0, riskyPerLp: 0.5, delLiquidity: 1 },
+      { type: 'remove', pool: 0, size: 1.1 },
+      { ...swap, riskyForStable: true } as Action,
+      { ...swap, riskyForStable: false } as Action,
+      { ...swap, riskyForStable: true, slippage: -0.01 } as Action,
+    ]
+    expect(await runActions(await setup(), actions, CALIBRATIONS)).to.be.undefined
+  })
+
+  for (let seed = SEED; seed < SEED + RUNS; seed++) {
+    it(`matches the engine after ${STEPS} random actions of seed ${seed}`, async function () {
+      const result = await fuzz({ seed, steps: STEPS, calibrations: CALIBRATIONS, setup })
+      expect(result.divergence, formatFuzzResult(result)).to.be.undefined
+    })
+  }
+
+  it('shrinks the actions which diverge from a model that mis-applies deposits to the single deposit', async function () {
+    const result = await fuzz({
+      seed: SEED,
+      steps: STEPS,
+      calibrations: CALIBRATIONS,
+      setup,
+      createModel: (...args) => new MisdepositingEngine(...args),
+    })
+    const deposits = result.actions.filter((action) => action.type === 'deposit')
+    expect(deposits.length).to.be.gt(0)
+    expect(result.divergence?.action.type).to.be.eq('deposit')
+    expect(result.reproducer).to.have.length(1)
+    expect(result.reproducer?.[0].type).to.be.eq('deposit')
+    expect(result.reproducerDivergence?.step).to.be.eq(0)
+  })
+})
+
+describe('shrink', function () {
+  it('removes every item which a failing sequence does not need', async function () {
+    const items = Array.from({ length: 20 }, (_, i) => i)
+    const fails = async (candidate: number[]) => candidate.includes(3) && candidate.includes(11)
+    expect(await shrink(items, fails)).to.deep.eq([3, 11])
+  })
+
+  it('keeps the order of the items', async function () {
+    const items = [5, 1, 4, 2, 3]
+    const fails = async (candidate: number[]) => candidate.indexOf(4) > candidate.indexOf(1) && candidate.includes(1)
+    expect(await shrink(items, fails)).to.deep.eq([1, 4])
+  })
+
+  it('stops after the maximum number of runs, returning a sequence which fails', async function () {
+    const items = Array.from({ length: 20 }, (_, i) => i)
+    let runs = 0
+    const fails = async (candidate: number[]) => {
+      runs++
+      return candidate.includes(3) && candidate.includes(11)
+    }
+    const shrunk = await shrink(items, fails, 3)
+    expect(runs).to.be.eq(3)
+    expect(await fails(shrunk)).to.be.true
+  })
+})
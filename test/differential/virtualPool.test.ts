@@ -0,0 +1,360 @@
+import { ethers } from 'hardhat'
+import { constants, Wallet } from 'ethers'
+import { createFixtureLoader } from 'ethereum-waffle'
+import { parseWei, Wei } from 'web3-units'
+
+import expect from '../shared/expect'
+import { Contracts } from '../../types'
+import { Calibration, parseCalibration } from '../../src/calibration'
+import { DEFAULT_CONFIG, calibrations } from '../shared/poolConfigs'
+import { engineFixture } from '../shared/fixtures'
+import { useTokens, useApproveAll, usePool, useLiquidity } from '../shared/hooks'
+import { FEE_GROWTH_X128, VirtualPool } from '../../src/virtualPool'
+import { decodeCustomError, getRevertData } from '../shared/customErrors'
+
+const { HashZero } = constants
+
+const POOLS: { description: string; calibration: Calibration }[] = [
+  { description: 'default', calibration: DEFAULT_CONFIG },
+  { description: 'in the money', calibration: calibrations.itm },
+  { description: 'out of the money', calibration: calibrations.otm },
+  { description: '10% fee', calibration: calibrations.mingamma },
+  { description: '6 decimal risky and stable', calibration: calibrations.lowdecimals },
+]
+
+/**
+ * @returns reserves and invariant of a pool in the engine, to compare to the reserves and invariant of a VirtualPool
+ */
+async function engineState(contracts: Contracts, poolId: string): Promise<string[]> {
+  const [res, invariant] = await Promise.all([contracts.engine.reserves(poolId), contracts.engine.invariantOf(poolId)])
+  return [res.reserveRisky, res.reserveStable, res.liquidity, invariant].map((value) => value.toString())
+}
+
+function poolState(pool: VirtualPool): string[] {
+  return [pool.reserveRisky.raw, pool.reserveStable.raw, pool.liquidity.raw, pool.invariant.raw].map((value) =>
+    value.toString()
+  )
+}
+
+POOLS.forEach(function ({ description, calibration }) {
+  describe(`exact VirtualPool against the MockEngine in the ${description} pool`, function () {
+    const { decimalsRisky, decimalsStable } = calibration
+    let loadFixture: ReturnType<typeof createFixtureLoader>
+    let signer: Wallet, other: Wallet
+    let contracts: Contracts, poolId: string, pool: VirtualPool
+    let createdState: string[], createdLiquidity: string
+
+    before(async function () {
+      ;[signer, other] = await (ethers as any).getSigners()
+      loadFixture = createFixtureLoader([signer, other])
+    })
+
+    beforeEach(async function () {
+      const fixture = await loadFixture(engineFixture)
+      const { factory, factoryDeploy, router } = fixture
+      const { engine, risky, stable } = await fixture.createEngine(decimalsRisky, decimalsStable)
+      contracts = { factory, factoryDeploy, router, engine, risky, stable }
+      await useTokens(signer, contracts, calibration)
+      await useApproveAll(signer, contracts)
+      ;({ poolId } = await usePool(signer, contracts, calibration))
+      createdState = await engineState(contracts, poolId)
+      createdLiquidity = (await engine.liquidity(router.address, poolId)).toString()
+      await useLiquidity(signer, contracts, calibration, router.address)
+      pool = await VirtualPool.fromEngine(engine, poolId, calibration.referencePrice.float, true)
+    })
+
+    it('burns the MIN_LIQUIDITY of the engine', async function () {
+      expect(VirtualPool.minLiquidity(calibration).raw).to.be.eq(await contracts.engine.MIN_LIQUIDITY())
+    })
+
+    it('creates the pool like the engine to the wei', async function () {
+      // same arguments as `usePool`
+      const riskyPerLp = parseWei(1, decimalsRisky).sub(parseWei(calibration.delta, decimalsRisky))
+      const created = VirtualPool.create(calibration, riskyPerLp, parseWei('1', 18), true)
+      expect(poolState(created.pool)).to.deep.eq(createdState)
+      expect(created.delLiquidity.raw.toString()).to.be.eq(createdLiquidity)
+    })
+
+    it('allocates like the engine to the wei', async function () {
+      const { router, engine } = contracts
+      // more stable than the reserves' ratio, so the risky amount sets the liquidity minted
+      const delRisky = pool.reserveRisky.div(3)
+      const delStable = pool.reserveStable.div(2)
+      const { delLiquidity } = pool.allocate(delRisky, delStable)
+
+      await router.allocateFromExternal(poolId, signer.address, delRisky.raw, delStable.raw, HashZero)
+      expect(await engine.liquidity(signer.address, poolId)).to.be.eq(delLiquidity.raw)
+      expect(await engineState(contracts, poolId)).to.deep.eq(poolState(pool))
+    })
+
+    it('removes like the engine to the wei', async function () {
+      const { router, engine } = contracts
+      const delLiquidity = (await engine.liquidity(router.address, poolId)).div(3)
+      const { delRisky, delStable } = pool.remove(new Wei(delLiquidity, 18))
+
+      const margin = await engine.margins(router.address)
+      await router.remove(poolId, delLiquidity, HashZero)
+      const marginAfter = await engine.margins(router.address)
+      expect(marginAfter.balanceRisky.sub(margin.balanceRisky)).to.be.eq(delRisky.raw)
+      expect(marginAfter.balanceStable.sub(margin.balanceStable)).to.be.eq(delStable.raw)
+      expect(await engineState(contracts, poolId)).to.deep.eq(poolState(pool))
+    })
+
+    it('reverts removing the MIN_LIQUIDITY with the arithmetic underflow of the engine', async function () {
+      const { router } = contracts
+      const delLiquidity = pool.liquidity.sub(VirtualPool.minLiquidity(calibration)).add(1)
+      expect(() => pool.remove(delLiquidity)).to.throw('Panic(0x11)')
+      await expect(router.remove(poolId, delLiquidity.raw, HashZero)).to.revertWithCustomError('Panic', [0x11])
+    })
+
+    it('follows the lastTimestamp and invariant of the engine as time advances', async function () {
+      const { engine } = contracts
+      const tau = calibration.tau.raw
+      for (const by of [86400, Math.floor(tau / 2), tau]) {
+        await engine.advanceTime(by)
+        await engine.updateLastTimestamp(poolId)
+        pool.advanceTime(by)
+
+        const cal = await engine.calibrations(poolId)
+        expect(pool.blockTimestamp.raw).to.be.eq((await engine.time()).toNumber())
+        expect(pool.lastTimestamp.raw).to.be.eq(cal.lastTimestamp)
+        expect(pool.tau.raw).to.be.eq(cal.maturity - cal.lastTimestamp)
+        expect(pool.invariant.raw).to.be.eq(await engine.invariantOf(poolId))
+      }
+      expect(pool.lastTimestamp.raw).to.be.eq(calibration.maturity.raw)
+    })
+
+    it('expires after the buffer past maturity like the engine', async function () {
+      const { engine, router } = contracts
+      const swap = () => router.swap(router.address, poolId, true, 1e6, 1, false, false, HashZero)
+      const expiredError = async () => {
+        try {
+          await swap()
+          return false
+        } catch (err) {
+          const data = await getRevertData(err)
+          return decodeCustomError(data ?? '0x')?.name === 'PoolExpiredError'
+        }
+      }
+
+      const untilBuffer = calibration.maturity.raw + VirtualPool.BUFFER - pool.blockTimestamp.raw
+      await engine.advanceTime(untilBuffer)
+      pool.advanceTime(untilBuffer)
+      expect(pool.expired).to.be.false
+      expect(await expiredError()).to.be.false
+
+      await engine.advanceTime(1)
+      pool.advanceTime(1)
+      expect(pool.expired).to.be.true
+      expect(await expiredError()).to.be.true
+    })
+
+    it('computes the invariant of the engine', async function () {
+      expect(pool.invariantOf(pool.reserveRisky, pool.reserveStable).raw).to.be.eq(
+        await contracts.engine.invariantOf(poolId)
+      )
+    })
+    ;[true, false].forEach((riskyForStable) => {
+      const tokenIn = riskyForStable ? 'risky' : 'stable'
+
+      it(`swaps an exact amount of ${tokenIn} in like the engine to the wei`, async function () {
+        const deltaIn = pool.getMaxDeltaIn(riskyForStable).div(4)
+        const quote = riskyForStable ? pool.virtualSwapAmountInRisky(deltaIn) : pool.virtualSwapAmountInStable(deltaIn)
+        expect(quote.deltaOut.raw.gt(0)).to.be.true
+
+        const { router } = contracts
+        await router.swap(
+          router.address,
+          poolId,
+          riskyForStable,
+          deltaIn.raw,
+          quote.deltaOut.raw,
+          false,
+          false,
+          HashZero
+        )
+        expect(await engineState(contracts, poolId)).to.deep.eq(poolState(quote.pool))
+      })
+
+      it(`swaps both amounts with ${tokenIn} in like the engine to the wei`, async function () {
+        const deltaIn = pool.getMaxDeltaIn(riskyForStable).div(10)
+        const { deltaOut } = riskyForStable
+          ? pool.virtualSwapAmountInRisky(deltaIn)
+          : pool.virtualSwapAmountInStable(deltaIn)
+        const swapped = pool.swap(riskyForStable, deltaIn, deltaOut.mul(99).div(100), true)
+
+        const { router, risky, stable } = contracts
+        const [tokenIn, tokenOut] = riskyForStable ? [risky, stable] : [stable, risky]
+        const [balanceIn, balanceOut] = await Promise.all([
+          tokenIn.balanceOf(contracts.engine.address),
+          tokenOut.balanceOf(contracts.engine.address),
+        ])
+        await router.swap(
+          router.address,
+          poolId,
+          riskyForStable,
+          deltaIn.raw,
+          swapped.deltaOut.raw,
+          false,
+          false,
+          HashZero
+        )
+        expect((await tokenIn.balanceOf(contracts.engine.address)).sub(balanceIn)).to.be.eq(swapped.deltaIn.raw)
+        expect(balanceOut.sub(await tokenOut.balanceOf(contracts.engine.address))).to.be.eq(swapped.deltaOut.raw)
+        expect(await engineState(contracts, poolId)).to.deep.eq(poolState(swapped.pool))
+      })
+
+      it(`reverts both swaps with ${tokenIn} in with InvariantError if the output is too large`, async function () {
+        const deltaIn = pool.getMaxDeltaIn(riskyForStable).div(10)
+        const { deltaOut } = riskyForStable
+          ? pool.virtualSwapAmountInRisky(deltaIn)
+          : pool.virtualSwapAmountInStable(deltaIn)
+        const raised = deltaOut.mul(101).div(100)
+        expect(() => pool.swap(riskyForStable, deltaIn, raised, true)).to.throw('InvariantError')
+
+        const { router } = contracts
+        await expect(
+          router.swap(router.address, poolId, riskyForStable, deltaIn.raw, raised.raw, false, false, HashZero)
+        ).to.revertWithCustomError('InvariantError')
+      })
+
+      it(`swaps ${tokenIn} in for an exact amount out like the engine to the wei`, async function () {
+        const deltaOut = pool.getMaxDeltaOut(riskyForStable).div(4)
+        const quote = riskyForStable
+          ? pool.virtualSwapAmountOutStable(deltaOut)
+          : pool.virtualSwapAmountOutRisky(deltaOut)
+        expect(quote.deltaIn.raw.gt(0)).to.be.true
+
+        const { router } = contracts
+        await router.swap(
+          router.address,
+          poolId,
+          riskyForStable,
+          quote.deltaIn.raw,
+          deltaOut.raw,
+          false,
+          false,
+          HashZero
+        )
+        expect(await engineState(contracts, poolId)).to.deep.eq(poolState(quote.pool))
+      })
+
+      it(`quotes the minimum ${tokenIn} in for an exact amount out`, async function () {
+        const deltaOut = pool.getMaxDeltaOut(riskyForStable).div(4)
+        const { deltaIn } = riskyForStable
+          ? pool.virtualSwapAmountOutStable(deltaOut)
+          : pool.virtualSwapAmountOutRisky(deltaOut)
+        const lowered = deltaIn.sub(1)
+        expect(() => pool.swap(riskyForStable, lowered, deltaOut, true)).to.throw('InvariantError')
+
+        const { router } = contracts
+        await expect(
+          router.swap(router.address, poolId, riskyForStable, lowered.raw, deltaOut.raw, false, false, HashZero)
+        ).to.revertWithCustomError('InvariantError')
+      })
+    })
+    ;[0.9, 1.1].forEach((ratio) => {
+      it(`plans the arbitrage to ${ratio}x the spot price which the engine swaps to the wei`, async function () {
+        const target = pool.spotPrice.mul(Math.round(ratio * 100)).div(100)
+        const plan = pool.planArbitrage(target, 1e-3)
+        expect(plan.riskyForStable).to.be.eq(ratio < 1)
+        expect(plan.reached).to.be.true
+        expect(plan.spotPrice.float).to.be.closeTo(target.float, target.float * 1e-3)
+
+        const { router } = contracts
+        await router.swap(
+          router.address,
+          poolId,
+          plan.riskyForStable,
+          plan.deltaIn.raw,
+          plan.deltaOut.raw,
+          false,
+          false,
+          HashZero
+        )
+        expect(await engineState(contracts, poolId)).to.deep.eq(poolState(plan.pool))
+      })
+    })
+
+    it('plans no swap to a target price within the tolerance', async function () {
+      const plan = pool.planArbitrage(pool.spotPrice.mul(10001).div(10000), 1e-3)
+      expect(plan.reached).to.be.true
+      expect(plan.deltaIn.raw).to.be.eq(0)
+      expect(plan.deltaOut.raw).to.be.eq(0)
+    })
+
+    it('plans a swap the engine accepts towards an unreachable target price', async function () {
+      const plan = pool.planArbitrage(pool.spotPrice.div(1e9))
+      expect(plan.riskyForStable).to.be.true
+      expect(plan.reached).to.be.false
+      expect(plan.spotPrice.lt(pool.spotPrice)).to.be.true
+
+      const { router } = contracts
+      await router.swap(router.address, poolId, true, plan.deltaIn.raw, plan.deltaOut.raw, false, false, HashZero)
+      expect(await engineState(contracts, poolId)).to.deep.eq(poolState(plan.pool))
+    })
+
+    it('collects the fees of swaps the engine accepts for the liquidity which held it', async function () {
+      const { router } = contracts
+      const fee = (deltaIn: Wei) => deltaIn.sub(deltaIn.mul(calibration.gamma.raw).div(10000))
+      const position = pool.liquidity.div(4)
+
+      const riskyIn = pool.getMaxDeltaIn(true).div(10)
+      const first = pool.swap(true, riskyIn, pool.virtualSwapAmountInRisky(riskyIn).deltaOut)
+      await router.swap(router.address, poolId, true, riskyIn.raw, first.deltaOut.raw, false, false, HashZero)
+      expect(pool.feesRisky.raw).to.be.eq(fee(riskyIn).raw)
+      expect(pool.feeGrowthRiskyX128).to.be.eq(fee(riskyIn).raw.mul(FEE_GROWTH_X128).div(pool.liquidity.raw))
+      const earned = pool.getFeesEarned(position)
+      expect(earned.feesRisky.raw).to.be.eq(pool.feeGrowthRiskyX128.mul(position.raw).div(FEE_GROWTH_X128))
+      expect(earned.feesRisky.raw.lte(fee(riskyIn).div(4).raw)).to.be.true
+      expect(earned.feesStable.raw).to.be.eq(0)
+
+      // a position checkpointed after the first swap only earns the fees of the second
+      const checkpoint = pool.feeGrowth
+      const stableIn = pool.getMaxDeltaIn(false).div(10)
+      const second = pool.swap(false, stableIn, pool.virtualSwapAmountInStable(stableIn).deltaOut)
+      await router.swap(router.address, poolId, false, stableIn.raw, second.deltaOut.raw, false, false, HashZero)
+      expect(pool.feesStable.raw).to.be.eq(fee(stableIn).raw)
+      const earnedSince = pool.getFeesEarned(position, checkpoint)
+      expect(earnedSince.feesRisky.raw).to.be.eq(0)
+      const growthSince = pool.feeGrowthStableX128.sub(checkpoint.feeGrowthStableX128)
+      expect(earnedSince.feesStable.raw).to.be.eq(growthSince.mul(position.raw).div(FEE_GROWTH_X128))
+      expect(await engineState(contracts, poolId)).to.deep.eq(poolState(pool))
+    })
+
+    it('quotes no swap for an output of the entire reserves', async function () {
+      expect(pool.virtualSwapAmountOutStable(pool.reserveStable).deltaIn.raw).to.be.eq(0)
+      expect(pool.virtualSwapAmountOutRisky(pool.reserveRisky).deltaIn.raw).to.be.eq(0)
+    })
+  })
+})
+
+describe('VirtualPool with float math', function () {
+  it('charges the fee of the calibration on swaps', function () {
+    // 6 decimals, as the effective price of the float swaps scales by 10 ** (18 - decimals)
+    const cal = parseCalibration(10, 1, DEFAULT_CONFIG.maturity.raw, 0.9, 1, 10, 6, 6)
+    const riskyPerLp = parseWei(1, 6).sub(parseWei(cal.delta, 6))
+    ;[true, false].forEach((riskyForStable) => {
+      const { pool } = VirtualPool.create(cal, riskyPerLp, parseWei(1))
+      const deltaIn = pool.getMaxDeltaIn(riskyForStable).div(10)
+      const { deltaInWithFee } = riskyForStable ? pool.swapAmountInRisky(deltaIn) : pool.swapAmountInStable(deltaIn)
+      expect(deltaInWithFee?.raw).to.be.eq(deltaIn.raw.mul(9000).div(10000))
+      const fees = riskyForStable ? pool.feesRisky : pool.feesStable
+      expect(fees.raw).to.be.eq(deltaIn.sub(deltaInWithFee!).raw)
+    })
+  })
+
+  it('accrues the fees smaller than the raw liquidity to the positions', function () {
+    // a fee of 0.15 stable with 6 decimals is less than one raw unit per 1e6 liquidity with 18 decimals
+    const cal = parseCalibration(10, 1, DEFAULT_CONFIG.maturity.raw, 0.9985, 1, 10, 6, 6)
+    const riskyPerLp = parseWei(1, 6).sub(parseWei(cal.delta, 6))
+    const { pool } = VirtualPool.create(cal, riskyPerLp, parseWei(1e6))
+    const deltaIn = parseWei(100, 6)
+    pool.swapAmountInStable(deltaIn)
+    expect(pool.feesStable.raw).to.be.eq(150000)
+
+    const position = pool.liquidity.div(3)
+    expect(pool.getFeesEarned(position).feesStable.raw).to.be.eq(49999)
+    expect(pool.getFeesEarned(pool.liquidity).feesStable.raw).to.be.eq(149999)
+  })
+})
@@ -0,0 +1,241 @@
+import { ethers } from 'hardhat'
+import { BigNumber, BigNumberish, utils } from 'ethers'
+import { IPrimitiveEngineErrors__factory, PrimitiveFactory__factory } from '../../typechain'
+
+/** Custom errors of the engine. */
+export const ENGINE_ERRORS = new utils.Interface(IPrimitiveEngineErrors__factory.abi)
+
+/** Custom errors of the factory, which are declared in the contract instead of an interface. */
+export const FACTORY_ERRORS = new utils.Interface(
+  PrimitiveFactory__factory.abi.filter((fragment) => fragment.type === 'error')
+)
+
+/** Interfaces which revert data is decoded against, by default. */
+export const CUSTOM_ERRORS = [ENGINE_ERRORS, FACTORY_ERRORS]
+
+/**
+ * Errors built into solidity, for reason strings and panics, e.g. overflows, which ethers does not allow in interfaces.
+ */
+const BUILTIN_ERRORS = [
+  { name: 'Error', inputs: [utils.ParamType.from('string reason')] },
+  { name: 'Panic', inputs: [utils.ParamType.from('uint256 code')] },
+].map((error) => {
+  const signature = `${error.name}(${error.inputs.map((input) => input.type).join(',')})`
+  return { ...error, signature, selector: utils.id(signature).slice(0, 10) }
+})
+
+/**
+ * Custom error decoded from revert data.
+ */
+export interface DecodedCustomError {
+  /** Name of the error, e.g. `InvariantError` */
+  name: string
+  /** Signature of the error, e.g. `InvariantError(int128,int128)` */
+  signature: string
+  /** Arguments of the error, by index and by name, with integers as BigNumbers */
+  args: utils.Result
+  /** Revert data the error was decoded from */
+  data: string
+}
+
+/**
+ * Expected argument of a custom error, where `undefined` matches any value and a function is a predicate.
+ */
+export type CustomErrorParam = BigNumberish | boolean | undefined | ((actual: any) => boolean)
+
+/**
+ * Expected arguments of a custom error, by index or by name, or a predicate of all of them.
+ *
+ * @remarks
+ * Lists can be shorter than the arguments and objects can omit names, to only match some arguments.
+ */
+export type CustomErrorParams =
+  | CustomErrorParam[]
+  | { [name: string]: CustomErrorParam }
+  | ((args: utils.Result) => boolean)
+
+/**
+ * Decodes revert data against the ABIs of custom errors.
+ *
+ * @param data Revert data, with or without its 0x prefix.
+ * @param interfaces ABIs with the errors which can be decoded.
+ *
+ * @returns decoded error, or undefined if the data has no selector of the interfaces.
+ *
+ * @beta
+ */
+export function decodeCustomError(
+  data: string,
+  interfaces: utils.Interface[] = CUSTOM_ERRORS
+): DecodedCustomError | undefined {
+  const hex = data.startsWith('0x') ? data : `0x${data}`
+  if (hex.length < 10) return undefined
+  const builtin = BUILTIN_ERRORS.find((error) => error.selector === hex.slice(0, 10))
+  if (builtin) {
+    const args = utils.defaultAbiCoder.decode(builtin.inputs, `0x${hex.slice(10)}`)
+    // the test router reverts with the signature of an expected error as a reason string
+    if (builtin.name === 'Error' && /^\w+\(\)$/.test(args.reason)) {
+      const unwrapped = decodeCustomError(utils.id(args.reason).slice(0, 10), interfaces)
+      if (unwrapped) return { ...unwrapped, data: hex }
+    }
+    return { name: builtin.name, signature: builtin.signature, args, data: hex }
+  }
+  for (const iface of interfaces) {
+    let fragment: utils.ErrorFragment
+    try {
+      fragment = iface.getError(hex.slice(0, 10))
+    } catch (err) {
+      continue
+    }
+    return {
+      name: fragment.name,
+      signature: fragment.format(),
+      args: iface.decodeErrorResult(fragment, hex),
+      data: hex,
+    }
+  }
+  return undefined
+}
+
+/**
+ * Gets the revert data of an error thrown by a provider.
+ *
+ * @remarks
+ * JSON-RPC providers return the data with the error. The in-process Hardhat network does not, so the data of failed
+ * transactions is traced, and else the custom error of the message is encoded with the interfaces.
+ *
+ * @param error Error thrown by a transaction or call.
+ * @param interfaces ABIs with the errors which can be encoded from a message.
+ *
+ * @returns revert data, or undefined if the error has none.
+ *
+ * @beta
+ */
+export async function getRevertData(
+  error: any,
+  interfaces: utils.Interface[] = CUSTOM_ERRORS
+): Promise<string | undefined> {
+  const data = findData(error)
+  if (data) return data
+
+  if (typeof error?.transactionHash === 'string') {
+    try {
+      const trace = await ethers.provider.send('debug_traceTransaction', [
+        error.transactionHash,
+        { disableStorage: true, disableMemory: true, disableStack: true },
+      ])
+      if (trace?.failed && typeof trace.returnValue === 'string' && trace.returnValue.length > 0)
+        return trace.returnValue.startsWith('0x') ? trace.returnValue : `0x${trace.returnValue}`
+    } catch (err) {
+      // providers without the debug namespace, fallback to the message
+    }
+  }
+
+  const message: string = typeof error?.message === 'string' ? error.message : ''
+  const match = message.match(/reverted with custom error '(\w+)\((.*)\)'/)
+  if (match) return encodeFromMessage(match[1], match[2], interfaces)
+  const reason = message.match(/reverted with reason string '(.*)'/)
+  if (reason) return encodeBuiltin('Error', reason[1])
+  const panic = message.match(/reverted with panic code (0x[0-9a-f]+)/)
+  if (panic) return encodeBuiltin('Panic', panic[1])
+  return undefined
+}
+
+/**
+ * Checks if a decoded argument matches an expected one, comparing integers as BigNumbers.
+ *
+ * @beta
+ */
+export function matchesCustomErrorParam(actual: any, expected: CustomErrorParam): boolean {
+  if (typeof expected === 'undefined') return true
+  if (typeof expected === 'function') return expected(actual)
+  if (BigNumber.isBigNumber(actual)) return actual.eq(expected as BigNumberish)
+  return actual === expected
+}
+
+/**
+ * Finds revert data in the error of a JSON-RPC provider, which ethers can nest in other errors or a response body.
+ */
+function findData(error: any, depth = 0): string | undefined {
+  if (!error || typeof error !== 'object' || depth > 3) return undefined
+  const { data } = error
+  if (typeof data === 'string' && utils.isHexString(data) && data.length >= 10) return data
+  if (typeof data === 'object') {
+    const nested = findData(data, depth + 1)
+    if (nested) return nested
+  }
+  if (typeof error.body === 'string') {
+    try {
+      const nested = findData(JSON.parse(error.body).error, depth + 1)
+      if (nested) return nested
+    } catch (err) {
+      // not a JSON body
+    }
+  }
+  return findData(error.error, depth + 1)
+}
+
+/**
+ * Encodes a custom error from the name and arguments formatted in a Hardhat revert message.
+ */
+function encodeFromMessage(name: string, params: string, interfaces: utils.Interface[]): string | undefined {
+  const args = splitArgs(params)
+  for (const iface of interfaces) {
+    const fragment = Object.values(iface.errors).find(
+      (error) => error.name === name && error.inputs.length === args.length
+    )
+    if (!fragment) continue
+    try {
+      const values = fragment.inputs.map((input, i) => parseArg(input, args[i]))
+      return iface.encodeErrorResult(fragment, values)
+    } catch (err) {
+      // arguments of other types than the fragment's, e.g. of an error with the same name in another interface
+    }
+  }
+  return undefined
+}
+
+/**
+ * Splits arguments formatted by Hardhat at their top level commas, as Hardhat formats tuples and arrays in brackets,
+ * e.g. `[1, 2]`, and strings, addresses and bytes in double quotes, which can contain commas.
+ */
+function splitArgs(params: string): string[] {
+  if (params.trim().length === 0) return []
+  const args: string[] = []
+  let depth = 0
+  let quoted = false
+  let start = 0
+  for (let i = 0; i < params.length; i++) {
+    const char = params[i]
+    if (char === '"') quoted = !quoted
+    else if (quoted) continue
+    else if (char === '[') depth++
+    else if (char === ']') depth--
+    else if (char === ',' && depth === 0) {
+      args.push(params.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+  args.push(params.slice(start).trim())
+  return args
+}
+
+/**
+ * Parses an argument formatted by Hardhat into a value of its ABI type.
+ */
+function parseArg(type: utils.ParamType, arg: string): any {
+  const unwrap = (open: string, close: string) => (arg.startsWith(open) && arg.endsWith(close) ? arg.slice(1, -1) : arg)
+  if (type.baseType === 'tuple') return splitArgs(unwrap('[', ']')).map((item, i) => parseArg(type.components[i], item))
+  if (type.baseType === 'array') return splitArgs(unwrap('[', ']')).map((item) => parseArg(type.arrayChildren, item))
+  if (type.baseType === 'bool') return arg === 'true'
+  if (type.baseType.match(/^u?int/)) return BigNumber.from(arg)
+  return unwrap('"', '"')
+}
+
+/**
+ * Encodes a reason string or a panic code as revert data.
+ */
+function encodeBuiltin(name: string, value: string): string {
+  const builtin = BUILTIN_ERRORS.find((error) => error.name === name)!
+  return `${builtin.selector}${utils.defaultAbiCoder.encode(builtin.inputs, [value]).slice(2)}`
+}
@@ -0,0 +1,68 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { Wei } from 'web3-units'
+import { EngineEventArgs, EngineEventName } from '../../src/engineEvents'
+
+/**
+ * Expected value of an event argument, with an optional tolerance of integers.
+ *
+ * @remarks
+ * Absolute tolerances are amounts, and relative tolerances are fractions of the expected value, e.g. 0.01 is 1%.
+ * If both are given, a value within either of them matches.
+ */
+export type EventArgExpectation =
+  | BigNumberish
+  | Wei
+  | boolean
+  | { value: BigNumberish | Wei; absolute?: BigNumberish; relative?: number }
+
+/** Expected arguments of an event, where omitted arguments match any value. */
+export type EventArgsExpectation<Name extends EngineEventName> = {
+  [Arg in keyof EngineEventArgs[Name]]?: EventArgExpectation
+}
+
+/** Precision of relative tolerances. */
+const RELATIVE_PRECISION = 1e9
+
+/**
+ * Checks if an event argument matches an expected value, within its tolerance.
+ *
+ * @beta
+ */
+export function matchesEventArg(actual: any, expected: EventArgExpectation): boolean {
+  if (typeof expected === 'boolean') return actual === expected
+  if (typeof actual === 'string' && typeof expected === 'string') return actual.toLowerCase() === expected.toLowerCase()
+  const { value, absolute = 0, relative = 0 } = isTolerance(expected) ? expected : { value: expected }
+  const target = BigNumber.from(value instanceof Wei ? value.raw : value)
+  const error = BigNumber.from(actual).sub(target).abs()
+  const relativeError = target
+    .abs()
+    .mul(Math.round(relative * RELATIVE_PRECISION))
+    .div(RELATIVE_PRECISION)
+  return error.lte(absolute) || error.lte(relativeError)
+}
+
+/**
+ * Formats an expected value with its tolerance, e.g. `100 ± 1%`.
+ *
+ * @beta
+ */
+export function formatEventArgExpectation(expected: EventArgExpectation): string {
+  if (!isTolerance(expected)) return `${expected instanceof Wei ? expected.raw : expected}`
+  const { value, absolute, relative } = expected
+  const tolerances = [
+    ...(typeof absolute !== 'undefined' ? [`± ${absolute}`] : []),
+    ...(typeof relative !== 'undefined' ? [`± ${relative * 100}%`] : []),
+  ]
+  return [`${value instanceof Wei ? value.raw : value}`, ...tolerances].join(' ')
+}
+
+function isTolerance(
+  expected: EventArgExpectation
+): expected is { value: BigNumberish | Wei; absolute?: BigNumberish; relative?: number } {
+  return (
+    typeof expected === 'object' &&
+    !(expected instanceof Wei) &&
+    !BigNumber.isBigNumber(expected) &&
+    'value' in expected
+  )
+}
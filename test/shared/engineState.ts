@@ -0,0 +1,169 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { EngineTypes } from '../../types'
+
+export type ReserveField =
+  | 'reserveRisky'
+  | 'reserveStable'
+  | 'liquidity'
+  | 'blockTimestamp'
+  | 'cumulativeRisky'
+  | 'cumulativeStable'
+  | 'cumulativeLiquidity'
+
+export type MarginField = 'balanceRisky' | 'balanceStable'
+
+/**
+ * Expected changes of the engine's state, as signed amounts which are added to the values before a transaction.
+ *
+ * @remarks
+ * Only the given pools, accounts and fields are read and compared, and a change of zero asserts a value is unchanged.
+ */
+export interface EngineStateChanges {
+  /** Changes of the reserves of pools, by poolId */
+  reserves?: { [poolId: string]: Partial<Record<ReserveField, BigNumberish>> }
+  /** Changes of the margins of accounts, by address */
+  margins?: { [account: string]: Partial<Record<MarginField, BigNumberish>> }
+  /** Changes of the liquidity of positions, by address and then poolId */
+  liquidity?: { [account: string]: { [poolId: string]: BigNumberish } }
+  /** Changes of the invariants of pools, by poolId, as signed 64.64 fixed point numbers */
+  invariant?: { [poolId: string]: BigNumberish }
+}
+
+export interface EngineStateOptions {
+  /** Maximum absolute difference between the actual and expected change of each value, defaults to 0 */
+  tolerance?: BigNumberish
+}
+
+/**
+ * Location of a value of the engine's state, by the view function which returns it.
+ */
+export type EngineStateKey =
+  | { view: 'reserves'; poolId: string; field: ReserveField }
+  | { view: 'margins'; account: string; field: MarginField }
+  | { view: 'liquidity'; account: string; poolId: string }
+  | { view: 'invariantOf'; poolId: string }
+
+/**
+ * Value of the engine's state which is compared, e.g. `reserves[poolId].reserveRisky`.
+ */
+export interface EngineStateEntry {
+  path: string
+  key: EngineStateKey
+  expected: BigNumber
+}
+
+/**
+ * Comparison of the expected and actual change of a value of the engine's state.
+ */
+export interface EngineStateDiff {
+  path: string
+  before: BigNumber
+  after: BigNumber
+  expected: BigNumber
+  actual: BigNumber
+  ok: boolean
+}
+
+/**
+ * Lists the values of the engine's state which have expected changes, with how to read them.
+ *
+ * @beta
+ */
+export function getEngineStateEntries(changes: EngineStateChanges): EngineStateEntry[] {
+  const entries: EngineStateEntry[] = []
+  for (const [poolId, fields] of Object.entries(changes.reserves ?? {}))
+    for (const [field, change] of Object.entries(fields))
+      entries.push({
+        path: `reserves[${poolId}].${field}`,
+        key: { view: 'reserves', poolId, field: field as ReserveField },
+        expected: BigNumber.from(change),
+      })
+  for (const [account, fields] of Object.entries(changes.margins ?? {}))
+    for (const [field, change] of Object.entries(fields))
+      entries.push({
+        path: `margins[${account}].${field}`,
+        key: { view: 'margins', account, field: field as MarginField },
+        expected: BigNumber.from(change),
+      })
+  for (const [account, pools] of Object.entries(changes.liquidity ?? {}))
+    for (const [poolId, change] of Object.entries(pools))
+      entries.push({
+        path: `liquidity[${account}][${poolId}]`,
+        key: { view: 'liquidity', account, poolId },
+        expected: BigNumber.from(change),
+      })
+  for (const [poolId, change] of Object.entries(changes.invariant ?? {}))
+    entries.push({
+      path: `invariant[${poolId}]`,
+      key: { view: 'invariantOf', poolId },
+      expected: BigNumber.from(change),
+    })
+  return entries
+}
+
+/**
+ * Reads the values of entries in one pass, with one call of `reserves` per pool and of `margins` per account.
+ *
+ * @beta
+ */
+export async function getEngineState(engine: EngineTypes, entries: EngineStateEntry[]): Promise<BigNumber[]> {
+  const keys = entries.map((entry) => entry.key)
+  const poolIds = new Set(keys.flatMap((key) => (key.view === 'reserves' ? [key.poolId] : [])))
+  const accounts = new Set(keys.flatMap((key) => (key.view === 'margins' ? [key.account] : [])))
+  const [reserves, margins, values] = await Promise.all([
+    Promise.all([...poolIds].map(async (poolId) => [poolId, await engine.reserves(poolId)] as const)),
+    Promise.all([...accounts].map(async (account) => [account, await engine.margins(account)] as const)),
+    Promise.all(
+      keys.map((key) => {
+        if (key.view === 'liquidity') return engine.liquidity(key.account, key.poolId)
+        if (key.view === 'invariantOf') return engine.invariantOf(key.poolId)
+        return undefined
+      })
+    ),
+  ])
+  const reservesOf = new Map(reserves)
+  const marginsOf = new Map(margins)
+
+  return keys.map((key, i) => {
+    switch (key.view) {
+      case 'reserves':
+        return BigNumber.from(reservesOf.get(key.poolId)![key.field])
+      case 'margins':
+        return BigNumber.from(marginsOf.get(key.account)![key.field])
+      default:
+        return BigNumber.from(values[i])
+    }
+  })
+}
+
+/**
+ * Compares the actual changes of the values of entries to their expected changes.
+ *
+ * @beta
+ */
+export function diffEngineState(
+  entries: EngineStateEntry[],
+  before: BigNumber[],
+  after: BigNumber[],
+  { tolerance = 0 }: EngineStateOptions = {}
+): EngineStateDiff[] {
+  return entries.map(({ path, expected }, i) => {
+    const actual = after[i].sub(before[i])
+    return { path, before: before[i], after: after[i], expected, actual, ok: actual.sub(expected).abs().lte(tolerance) }
+  })
+}
+
+/**
+ * Formats diffs as one line per value, marking the values which do not change as expected.
+ *
+ * @beta
+ */
+export function formatEngineStateDiff(diffs: EngineStateDiff[]): string {
+  const signed = (value: BigNumber) => (value.isNegative() ? `${value}` : `+${value}`)
+  return diffs
+    .map(
+      ({ path, before, after, expected, actual, ok }) =>
+        `${ok ? ' ' : 'x'} ${path}: expected ${signed(expected)}, actual ${signed(actual)} (${before} -> ${after})`
+    )
+    .join('\n')
+}
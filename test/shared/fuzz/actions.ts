@@ -0,0 +1,137 @@
+import { Time } from 'web3-units'
+import { Random } from '../../../src/simulation/random'
+
+/**
+ * Action sent to both the engine and the model.
+ *
+ * @remarks
+ * Amounts are fractions of the state at the time of the action, e.g. of a pool's reserves, which the harness converts
+ * to token amounts with the model. So an action stays meaningful after the actions before it are removed by shrinking.
+ * Pools are indexes into the created pools, modulo their count, and accounts are indexes into the harness's accounts.
+ */
+export type Action =
+  | { type: 'create'; calibration: number; riskyPerLp: number; delLiquidity: number }
+  | { type: 'deposit'; recipient: number; delRisky: number; delStable: number }
+  | { type: 'withdraw'; recipient: number; delRisky: number; delStable: number }
+  | { type: 'allocate'; pool: number; recipient: number; size: number; skew: number; fromMargin: boolean }
+  | { type: 'remove'; pool: number; size: number }
+  | {
+      type: 'swap'
+      pool: number
+      recipient: number
+      riskyForStable: boolean
+      size: number
+      /** Relative change of the minimum deltaIn of the size, negative values underpay the swap */
+      slippage: number
+      fromMargin: boolean
+      toMargin: boolean
+    }
+  | { type: 'advanceTime'; by: number }
+
+export type ActionType = Action['type']
+
+/** Relative frequencies of the action types. */
+export const DEFAULT_WEIGHTS: Record<ActionType, number> = {
+  create: 1,
+  deposit: 2,
+  withdraw: 1,
+  allocate: 2,
+  remove: 1,
+  swap: 4,
+  advanceTime: 2,
+}
+
+/**
+ * Generates a random sequence of actions.
+ *
+ * @remarks
+ * The sequence starts with a create, so the actions on pools are not all skipped. Sizes sometimes exceed the state,
+ * e.g. removing more liquidity than a position has, and swaps sometimes underpay, so reverts are also compared.
+ *
+ * @param random Seeded generator of the actions.
+ * @param steps Number of actions.
+ * @param calibrations Number of calibrations which can be created.
+ * @param accounts Number of accounts which can receive tokens, margin and liquidity.
+ * @param weights Relative frequencies of the action types.
+ *
+ * @returns actions of the sequence.
+ *
+ * @beta
+ */
+export function generateActions(
+  random: Random,
+  steps: number,
+  calibrations: number,
+  accounts: number,
+  weights: Record<ActionType, number> = DEFAULT_WEIGHTS
+): Action[] {
+  const integer = (max: number) => Math.floor(random.uniform() * max)
+  const chance = (p: number) => random.uniform() < p
+  const types = Object.keys(weights) as ActionType[]
+  const total = types.reduce((sum, type) => sum + weights[type], 0)
+  const pick = (): ActionType => {
+    let draw = random.uniform() * total
+    return types.find((type) => (draw -= weights[type]) < 0) ?? types[types.length - 1]
+  }
+
+  const actions: Action[] = []
+  for (let step = 0; step < steps; step++) {
+    const type: ActionType = step === 0 ? 'create' : pick()
+    switch (type) {
+      case 'create':
+        actions.push({
+          type,
+          calibration: integer(calibrations),
+          riskyPerLp: 0.05 + 0.9 * random.uniform(),
+          delLiquidity: 1 + 9 * random.uniform(),
+        })
+        break
+      case 'deposit':
+        actions.push({
+          type,
+          recipient: integer(accounts),
+          delRisky: 10 * random.uniform(),
+          delStable: 100 * random.uniform(),
+        })
+        break
+      case 'withdraw':
+        actions.push({
+          type,
+          recipient: integer(accounts),
+          delRisky: 1.1 * random.uniform(),
+          delStable: 1.1 * random.uniform(),
+        })
+        break
+      case 'allocate':
+        actions.push({
+          type,
+          pool: integer(calibrations),
+          recipient: integer(accounts),
+          size: random.uniform(),
+          skew: chance(0.2) ? 0.5 + random.uniform() : 1,
+          fromMargin: chance(0.5),
+        })
+        break
+      case 'remove':
+        actions.push({ type, pool: integer(calibrations), size: 1.1 * random.uniform() })
+        break
+      case 'swap':
+        actions.push({
+          type,
+          pool: integer(calibrations),
+          recipient: integer(accounts),
+          riskyForStable: chance(0.5),
+          size: 0.3 * random.uniform(),
+          slippage: chance(0.2) ? -0.01 * random.uniform() : 0.01 * random.uniform(),
+          fromMargin: chance(0.5),
+          toMargin: chance(0.5),
+        })
+        break
+      case 'advanceTime':
+        // rarely skip close to or past the maturity of the pools
+        actions.push({ type, by: chance(0.05) ? integer(Time.YearInSeconds) : integer(86400 * 7) })
+        break
+    }
+  }
+  return actions
+}
@@ -0,0 +1,463 @@
+import { BigNumber, constants, Wallet } from 'ethers'
+import { Wei, parseWei } from 'web3-units'
+import { Contracts } from '../../../types'
+import { Calibration } from '../../../src/calibration'
+import { decodeCustomError, getRevertData } from '../customErrors'
+import { Swaps } from '../../../src/swaps'
+import { Random } from '../../../src/simulation/random'
+import { VirtualEngine } from '../../../src/virtualEngine'
+import { clonePool } from '../../../src/virtualPool'
+import { Action, generateActions } from './actions'
+import { shrink } from './shrink'
+
+const { HashZero } = constants
+
+/** Deployed contracts which the actions are sent to. */
+export interface FuzzContext {
+  contracts: Contracts
+  /** Sends every transaction, paying the callbacks of the router, so it must hold and approve enough tokens. */
+  signer: Wallet
+  /** Accounts which receive tokens, margin and liquidity, the router being the sender of every engine call. */
+  accounts: string[]
+}
+
+/** Creates the model of an engine, which replaces the `VirtualEngine` in tests of the harness. */
+export type CreateModel = (
+  address: string,
+  decimalsRisky: number,
+  decimalsStable: number,
+  blockTimestamp: number
+) => VirtualEngine
+
+export interface FuzzConfig {
+  seed: number
+  /** Number of actions of the sequence. */
+  steps: number
+  /** Calibrations which can be created, with the decimals of the engine's tokens. */
+  calibrations: Calibration[]
+  /** Deploys the contracts, or restores them to the same state, before each run of a sequence. */
+  setup: () => Promise<FuzzContext>
+  /** Maximum number of sequences to run when shrinking a failing sequence. */
+  maxShrinkRuns?: number
+  /** Creates the model the engine is compared to, defaults to a `VirtualEngine`. */
+  createModel?: CreateModel
+}
+
+/** First difference between the engine and the model. */
+export interface Divergence {
+  /** Index of the action after which the state diverged. */
+  step: number
+  action: Action
+  /**
+   * Name of the value which differs, `outcome` if only one of them reverted, `error` if they reverted with other errors,
+   * or the `Swaps` quote which the engine rejected.
+   */
+  field: string
+  engine: string
+  model: string
+}
+
+export interface FuzzResult {
+  seed: number
+  actions: Action[]
+  divergence?: Divergence
+  /** Minimal sequence of actions which still diverges, if the actions diverged. */
+  reproducer?: Action[]
+  /** Divergence of the reproducer. */
+  reproducerDivergence?: Divergence
+}
+
+/** Transaction to the engine and the same action on the model, with the amounts of the model's state. */
+interface Call {
+  send: () => Promise<unknown>
+  apply: () => void
+  /** Quotes the action with the float model and checks the quote on the engine, before the action is sent. */
+  quote?: () => Promise<Omit<Divergence, 'step' | 'action'> | undefined>
+}
+
+/**
+ * Sends the same sequence of actions to the MockEngine, through the TestRouter, and to a VirtualEngine.
+ *
+ * @remarks
+ * After each action, the outcomes and the names of their errors are compared, then the reserves, invariants,
+ * calibrations, margins, positions and token balances of the engine. The swaps are also quoted by the float `Swaps`
+ * model, which must be accepted by the engine if the exact model's swap is. Actions on pools are skipped if no pool was
+ * created.
+ *
+ * @param context Contracts in the state before any action.
+ * @param actions Sequence of actions.
+ * @param calibrations Calibrations the create actions refer to.
+ * @param createModel Creates the model the engine is compared to.
+ *
+ * @returns first divergence, or undefined if the engine and the model match after every action.
+ *
+ * @beta
+ */
+export async function runActions(
+  context: FuzzContext,
+  actions: Action[],
+  calibrations: Calibration[],
+  createModel: CreateModel = createVirtualEngine
+): Promise<Divergence | undefined> {
+  const { engine } = context.contracts
+  const [{ decimalsRisky, decimalsStable }] = calibrations
+  const model = createModel(engine.address, decimalsRisky, decimalsStable, (await engine.time()).toNumber())
+  const poolIds: string[] = []
+
+  for (const [step, action] of actions.entries()) {
+    const call = toCall(context, model, poolIds, calibrations, action)
+    if (!call) continue
+
+    const quoted = call.quote ? await call.quote() : undefined
+    let engineError: unknown
+    let modelError: unknown
+    try {
+      await call.send()
+    } catch (err) {
+      engineError = err
+    }
+    try {
+      call.apply()
+    } catch (err) {
+      modelError = err
+    }
+
+    if (!!engineError !== !!modelError) {
+      const engineOutcome = engineError ? `reverted: ${messageOf(engineError)}` : 'succeeded'
+      const modelOutcome = modelError ? `reverted: ${messageOf(modelError)}` : 'succeeded'
+      return { step, action, field: 'outcome', engine: engineOutcome, model: modelOutcome }
+    }
+    if (engineError && modelError) {
+      const [engineName, modelName] = [await engineErrorName(engineError), modelErrorName(modelError)]
+      if (engineName !== modelName) return { step, action, field: 'error', engine: engineName, model: modelName }
+    } else if (quoted) {
+      return { step, action, ...quoted }
+    }
+    if (action.type === 'create' && !modelError) {
+      const poolId = calibrations[action.calibration % calibrations.length].poolId(engine.address)
+      if (!poolIds.includes(poolId)) poolIds.push(poolId)
+    }
+
+    const difference = await compare(context, model, poolIds)
+    if (difference) return { step, action, ...difference }
+  }
+  return undefined
+}
+
+/**
+ * Runs a random sequence of actions, and shrinks it to a minimal reproducer if the engine and the model diverge.
+ *
+ * @param config Seed and length of the sequence, and the contracts to run it on.
+ *
+ * @returns actions of the seed, with the divergence and reproducer if any.
+ *
+ * @beta
+ */
+export async function fuzz(config: FuzzConfig): Promise<FuzzResult> {
+  const { seed, steps, calibrations, setup, maxShrinkRuns = 200, createModel = createVirtualEngine } = config
+  const decimals = new Set(calibrations.map((cal) => `${cal.decimalsRisky}-${cal.decimalsStable}`))
+  if (decimals.size !== 1) throw new Error(`Calibrations must have the same decimals: ${[...decimals]}`)
+
+  const context = await setup()
+  const actions = generateActions(new Random(seed), steps, calibrations.length, context.accounts.length)
+  const divergence = await runActions(context, actions, calibrations, createModel)
+  if (!divergence) return { seed, actions }
+
+  // actions after the divergence cannot matter
+  const failing = actions.slice(0, divergence.step + 1)
+  const reproducer = await shrink(
+    failing,
+    async (candidate) => typeof (await runActions(await setup(), candidate, calibrations, createModel)) !== 'undefined',
+    maxShrinkRuns
+  )
+  const reproducerDivergence = await runActions(await setup(), reproducer, calibrations, createModel)
+  return { seed, actions, divergence, reproducer, reproducerDivergence }
+}
+
+/**
+ * @returns report of a fuzz result, with its reproducer as JSON to paste into `runActions`.
+ */
+export function formatFuzzResult(result: FuzzResult): string {
+  const { seed, divergence, reproducer, reproducerDivergence } = result
+  if (!divergence) return `seed ${seed}: no divergence in ${result.actions.length} actions`
+  const describe = ({ step, field, engine, model }: Divergence) =>
+    `step ${step}, ${field}: engine ${engine}, model ${model}`
+  return [
+    `seed ${seed}: ${describe(divergence)}`,
+    reproducerDivergence ? `reproducer diverges at ${describe(reproducerDivergence)}` : '',
+    `reproducer: ${JSON.stringify(reproducer)}`,
+  ]
+    .filter((line) => line.length > 0)
+    .join('\n')
+}
+
+function createVirtualEngine(
+  address: string,
+  decimalsRisky: number,
+  decimalsStable: number,
+  blockTimestamp: number
+): VirtualEngine {
+  return new VirtualEngine(address, decimalsRisky, decimalsStable, blockTimestamp)
+}
+
+/**
+ * @returns transaction and model call of an action, or undefined if it acts on a pool and no pool was created.
+ */
+function toCall(
+  context: FuzzContext,
+  model: VirtualEngine,
+  poolIds: string[],
+  calibrations: Calibration[],
+  action: Action
+): Call | undefined {
+  const { engine } = context.contracts
+  const router = context.contracts.router.connect(context.signer)
+  const sender = router.address
+  const account = (index: number) => context.accounts[index % context.accounts.length]
+  const { decimalsRisky, decimalsStable } = calibrations[0]
+
+  switch (action.type) {
+    case 'advanceTime':
+      return {
+        send: async () => (await engine.advanceTime(action.by)).wait(),
+        apply: () => model.advanceTime(action.by),
+      }
+    case 'create': {
+      const cal = calibrations[action.calibration % calibrations.length]
+      const riskyPerLp = parseWei(action.riskyPerLp.toFixed(decimalsRisky), decimalsRisky)
+      const delLiquidity = parseWei(action.delLiquidity.toFixed(18))
+      const { strike, sigma, maturity, gamma } = cal
+      const args = [strike.raw, sigma.raw, maturity.raw, gamma.raw, riskyPerLp.raw, delLiquidity.raw, HashZero] as const
+      return {
+        send: async () => {
+          try {
+            return await (await router.create(...args)).wait()
+          } catch (err) {
+            // the router reverts with `Unknown()` for errors with arguments, so the engine is called from the router
+            await engine.connect(engine.provider).callStatic.create(...args, { from: sender })
+            throw err
+          }
+        },
+        apply: () => model.create(sender, cal, riskyPerLp, delLiquidity),
+      }
+    }
+    case 'deposit': {
+      const recipient = account(action.recipient)
+      const delRisky = parseWei(action.delRisky.toFixed(decimalsRisky), decimalsRisky)
+      const delStable = parseWei(action.delStable.toFixed(decimalsStable), decimalsStable)
+      return {
+        send: async () => (await router.deposit(recipient, delRisky.raw, delStable.raw, HashZero)).wait(),
+        apply: () => model.deposit(sender, recipient, delRisky, delStable),
+      }
+    }
+    case 'withdraw': {
+      const recipient = account(action.recipient)
+      const margin = model.margins(sender)
+      const delRisky = scale(margin.balanceRisky, action.delRisky)
+      const delStable = scale(margin.balanceStable, action.delStable)
+      return {
+        send: async () => (await router.withdrawToRecipient(recipient, delRisky.raw, delStable.raw)).wait(),
+        apply: () => model.withdraw(sender, recipient, delRisky, delStable),
+      }
+    }
+    default:
+      break
+  }
+
+  if (poolIds.length === 0) return undefined
+  const poolId = poolIds[action.pool % poolIds.length]
+  const pool = model.pools.get(poolId)
+  if (!pool) return undefined
+
+  switch (action.type) {
+    case 'allocate': {
+      const recipient = account(action.recipient)
+      const delRisky = scale(pool.reserveRisky, action.size)
+      const delStable = scale(pool.reserveStable, action.size * action.skew)
+      return {
+        send: async () =>
+          (
+            await (action.fromMargin
+              ? router.allocateFromMargin(poolId, recipient, delRisky.raw, delStable.raw, HashZero)
+              : router.allocateFromExternal(poolId, recipient, delRisky.raw, delStable.raw, HashZero))
+          ).wait(),
+        apply: () => model.allocate(sender, poolId, recipient, delRisky, delStable, action.fromMargin),
+      }
+    }
+    case 'remove': {
+      const delLiquidity = scale(model.liquidity(sender, poolId), action.size)
+      return {
+        send: async () => (await router.remove(poolId, delLiquidity.raw, HashZero)).wait(),
+        apply: () => model.remove(sender, poolId, delLiquidity),
+      }
+    }
+    case 'swap': {
+      const { riskyForStable, fromMargin, toMargin } = action
+      const recipient = account(action.recipient)
+      const deltaOut = scale(pool.getMaxDeltaOut(riskyForStable), action.size)
+
+      // quote the minimum deltaIn at the engine's clock, which the swap updates the lastTimestamp to
+      const quote = clonePool(pool, pool.reserveRisky, pool.reserveStable)
+      quote.blockTimestamp = model.blockTimestamp
+      quote.updateLastTimestamp()
+      const { deltaIn: minDeltaIn } = riskyForStable
+        ? quote.virtualSwapAmountOutStable(deltaOut)
+        : quote.virtualSwapAmountOutRisky(deltaOut)
+      const deltaIn = scale(minDeltaIn, 1 + action.slippage)
+
+      return {
+        send: async () =>
+          (
+            await router.swap(
+              recipient,
+              poolId,
+              riskyForStable,
+              deltaIn.raw,
+              deltaOut.raw,
+              fromMargin,
+              toMargin,
+              HashZero
+            )
+          ).wait(),
+        apply: () => model.swap(sender, recipient, poolId, riskyForStable, deltaIn, deltaOut, fromMargin, toMargin),
+        quote: async () => {
+          // only the swaps of exact stable amounts are solved on the engine's curve
+          const [name, amount] = riskyForStable
+            ? (['exactStableOutput', deltaOut] as const)
+            : (['exactStableInput', deltaIn] as const)
+          let swapsIn: Wei, swapsOut: Wei
+          try {
+            const result = Swaps[name](
+              amount.float,
+              decimalsRisky,
+              decimalsStable,
+              quote.reserveRisky.float,
+              quote.reserveStable.float,
+              quote.liquidity.float,
+              quote.cal.strike.float,
+              quote.cal.sigma.float,
+              quote.cal.gamma.float,
+              quote.tau.years
+            )
+            ;[swapsIn, swapsOut] =
+              'input' in result
+                ? [parseWei(result.input.toFixed(decimalsRisky), decimalsRisky), deltaOut]
+                : [deltaIn, parseWei(result.output.toFixed(decimalsRisky), decimalsRisky)]
+          } catch (err) {
+            return { field: `Swaps.${name}`, engine: 'not quoted', model: `threw: ${messageOf(err)}` }
+          }
+          try {
+            await router.callStatic.swap(
+              sender,
+              poolId,
+              riskyForStable,
+              swapsIn.raw,
+              swapsOut.raw,
+              false,
+              false,
+              HashZero
+            )
+          } catch (err) {
+            const quoted = `deltaIn ${swapsIn.raw}, deltaOut ${swapsOut.raw}`
+            return { field: `Swaps.${name}`, engine: `reverted: ${await engineErrorName(err)}`, model: quoted }
+          }
+          return undefined
+        },
+      }
+    }
+  }
+}
+
+/**
+ * @returns first difference of the engine's state and the model's, or undefined if they match.
+ */
+async function compare(
+  context: FuzzContext,
+  model: VirtualEngine,
+  poolIds: string[]
+): Promise<Omit<Divergence, 'step' | 'action'> | undefined> {
+  const { engine, risky, stable, router } = context.contracts
+  const values: [string, Promise<BigNumber | number> | BigNumber | number, BigNumber | number][] = [
+    ['time', engine.time(), model.blockTimestamp.raw],
+    ['balanceRisky', risky.balanceOf(engine.address), model.balanceRisky.raw],
+    ['balanceStable', stable.balanceOf(engine.address), model.balanceStable.raw],
+  ]
+
+  const accounts = [router.address, ...context.accounts.filter((account) => account !== router.address)]
+  for (const account of accounts) {
+    const margin = model.margins(account)
+    values.push([
+      `margins(${account}).balanceRisky`,
+      engine.margins(account).then((m) => m.balanceRisky),
+      margin.balanceRisky.raw,
+    ])
+    values.push([
+      `margins(${account}).balanceStable`,
+      engine.margins(account).then((m) => m.balanceStable),
+      margin.balanceStable.raw,
+    ])
+  }
+
+  for (const poolId of poolIds) {
+    const reserve = model.reserves(poolId)
+    const engineReserve = engine.reserves(poolId)
+    for (const field of [
+      'reserveRisky',
+      'reserveStable',
+      'liquidity',
+      'blockTimestamp',
+      'cumulativeRisky',
+      'cumulativeStable',
+      'cumulativeLiquidity',
+    ] as const) {
+      values.push([`reserves(${poolId}).${field}`, engineReserve.then((r) => r[field]), reserve[field]])
+    }
+    values.push([
+      `calibrations(${poolId}).lastTimestamp`,
+      engine.calibrations(poolId).then((c) => c.lastTimestamp),
+      model.calibrations(poolId).lastTimestamp.raw,
+    ])
+    values.push([`invariantOf(${poolId})`, engine.invariantOf(poolId), model.invariantOf(poolId).raw])
+    for (const account of accounts) {
+      values.push([
+        `liquidity(${account}, ${poolId})`,
+        engine.liquidity(account, poolId),
+        model.liquidity(account, poolId).raw,
+      ])
+    }
+  }
+
+  for (const [field, engineValue, modelValue] of values) {
+    const [actual, expected] = [(await engineValue).toString(), modelValue.toString()]
+    if (actual !== expected) return { field, engine: actual, model: expected }
+  }
+  return undefined
+}
+
+/**
+ * @returns fraction of an amount, rounded down to 1e-6 of it
+ */
+function scale(amount: Wei, fraction: number): Wei {
+  return amount.mul(Math.floor(fraction * 1e6)).div(1e6)
+}
+
+/**
+ * @returns name of the custom error, reason string or panic the engine reverted with, else the message of the error.
+ */
+async function engineErrorName(err: unknown): Promise<string> {
+  const data = await getRevertData(err)
+  return (data && decodeCustomError(data)?.name) ?? messageOf(err)
+}
+
+/**
+ * @returns name of the error the model throws formatted like `Calibration.assertValid`, else the message of the error.
+ */
+function modelErrorName(err: unknown): string {
+  const message = messageOf(err)
+  return message.match(/^(\w+)\(/)?.[1] ?? message
+}
+
+function messageOf(err: unknown): string {
+  const message = err instanceof Error ? err.message : `${err}`
+  return message.split('\n')[0]
+}
@@ -0,0 +1,3 @@
+export * from './actions'
+export * from './shrink'
+export * from './harness'
@@ -0,0 +1,36 @@
+/**
+ * Removes items of a failing sequence while it keeps failing, to find a minimal reproducer.
+ *
+ * @remarks
+ * Tries to remove chunks of half the sequence, then of smaller sizes down to single items, like delta debugging.
+ * The result fails, and no single item can be removed from it unless the run limit was reached.
+ *
+ * @param items Sequence which fails.
+ * @param fails Runs a sequence, returning true if it still fails.
+ * @param maxRuns Maximum number of sequences to run.
+ *
+ * @returns shortest failing sequence found.
+ *
+ * @beta
+ */
+export async function shrink<T>(items: T[], fails: (items: T[]) => Promise<boolean>, maxRuns = 200): Promise<T[]> {
+  let current = items
+  let chunk = Math.ceil(current.length / 2)
+  let runs = 0
+  while (chunk >= 1 && runs < maxRuns) {
+    let removed = false
+    for (let start = 0; start < current.length && runs < maxRuns; ) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + chunk)]
+      runs++
+      if (candidate.length > 0 && (await fails(candidate))) {
+        current = candidate
+        removed = true
+      } else {
+        start += chunk
+      }
+    }
+    if (!removed) chunk = Math.floor(chunk / 2)
+    else chunk = Math.min(chunk, Math.ceil(current.length / 2))
+  }
+  return current
+}
@@ -2,8 +2,8 @@ import { ethers } from 'ethers'
 import { parseWei, Wei } from 'web3-units'
 import { Wallet } from '@ethersproject/wallet'
 import { Contracts } from '../../types'
-import { Calibration } from './calibration'
-import { computePoolId } from './utils'
+import { Calibration } from '../../src/calibration'
+import { computePoolId } from '../../src/utils'
 const { HashZero, MaxUint256 } = ethers.constants
 
 export interface Tx {
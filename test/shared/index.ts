@@ -1,4 +1,4 @@
 export * from './utils'
-export * from './calibration'
+export * from '../../src/calibration'
 export * from './expect'
-export * from './swaps'
+export * from '../../src/swaps'
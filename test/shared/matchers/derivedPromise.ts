@@ -0,0 +1,24 @@
+// Plumbing of the asynchronous Chai matchers of the PrimitiveEngine
+
+/**
+ * Reads some state before and after a transaction is sent by a function.
+ */
+export async function getChange<T>(
+  transaction: () => Promise<unknown> | unknown,
+  read: () => Promise<T>
+): Promise<{ after: T; before: T }> {
+  const before = await read()
+  await transaction()
+  const after = await read()
+  return { after, before }
+}
+
+/**
+ * Makes an assertion awaitable, settling when the checks of its matcher have run.
+ */
+export function deriveAssertion(assertion: any, derivedPromise: Promise<unknown>): any {
+  assertion.then = derivedPromise.then.bind(derivedPromise)
+  assertion.catch = derivedPromise.catch.bind(derivedPromise)
+  assertion.promise = derivedPromise
+  return assertion
+}
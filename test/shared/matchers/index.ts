@@ -3,6 +3,9 @@ import supportMargin from './supportMargin'
 import supportPosition from './supportPosition'
 import supportReserve from './supportReserve'
 import supportSwap from './supportSwap'
+import supportSolvency from './supportSolvency'
+import supportEngineState from './supportEngineState'
+import supportEngineEvent from './supportEngineEvent'
 
 // Custom Chai matchers for Primitive v2
 
@@ -12,4 +15,7 @@ export default function primitiveChai(chai: Chai.ChaiStatic) {
   supportPosition(chai.Assertion)
   supportReserve(chai.Assertion)
   supportSwap(chai.Assertion)
+  supportSolvency(chai.Assertion)
+  supportEngineState(chai.Assertion)
+  supportEngineEvent(chai.Assertion)
 }
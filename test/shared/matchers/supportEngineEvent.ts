@@ -0,0 +1,51 @@
+import { EngineTypes } from '../../../types'
+import { decodeEngineLogs, EngineEventArgs, EngineEventName, filterEngineEvents } from '../../../src/engineEvents'
+import { EventArgExpectation, EventArgsExpectation, formatEventArgExpectation, matchesEventArg } from '../engineEvents'
+import { deriveAssertion } from './derivedPromise'
+
+// Chai matcher for the arguments of the events of the PrimitiveEngine, decoded from the receipt
+
+export default function supportEngineEvent(Assertion: Chai.AssertionStatic) {
+  Assertion.addMethod('emitEngineEvent', function <
+    Name extends EngineEventName
+  >(this: any, engine: EngineTypes, name: Name, expected: EventArgsExpectation<Name> = {}) {
+    const subject = this._obj
+
+    // passes if any of the events with the name matches every expected argument
+    const derivedPromise = (async () => {
+      const tx = await (typeof subject === 'function' ? subject() : subject)
+      const receipt = await tx.wait()
+      const events = decodeEngineLogs(engine.address, receipt.logs)
+      const candidates = filterEngineEvents(events, name)
+
+      const args = Object.keys(expected) as (keyof EngineEventArgs[Name] & string)[]
+      const diffs = candidates.map((event) =>
+        args.map((arg) => {
+          const actual = event.args[arg]
+          const expectation = expected[arg] as EventArgExpectation
+          const ok = typeof actual !== 'undefined' && matchesEventArg(actual, expectation)
+          return {
+            ok,
+            line: `${ok ? ' ' : 'x'} ${arg}: expected ${formatEventArgExpectation(expectation)}, actual ${actual}`,
+          }
+        })
+      )
+      const matched = diffs.some((diff) => diff.every((entry) => entry.ok))
+      const emitted = events.map((event) => event.name).join(', ') || 'no events'
+      const report =
+        candidates.length === 0
+          ? `but it emitted ${emitted}`
+          : diffs.map((diff, i) => `${name} #${i}:\n${diff.map((entry) => entry.line).join('\n')}`).join('\n')
+
+      this.assert(
+        matched,
+        `Expected engine to emit ${name} with the arguments, ${report}`,
+        `Expected engine NOT to emit ${name} with the arguments, ${report}`,
+        expected,
+        candidates.map((event) => event.args)
+      )
+    })()
+
+    return deriveAssertion(this, derivedPromise)
+  })
+}
@@ -0,0 +1,50 @@
+import { EngineTypes } from '../../../types'
+import {
+  diffEngineState,
+  EngineStateChanges,
+  EngineStateOptions,
+  formatEngineStateDiff,
+  getEngineState,
+  getEngineStateEntries,
+} from '../engineState'
+import { deriveAssertion, getChange } from './derivedPromise'
+
+/**
+ * Asserts the function subject of an assertion changes the engine's state by the changes, reporting a combined diff.
+ */
+export function assertEngineStateChange(
+  assertion: any,
+  engine: EngineTypes,
+  changes: EngineStateChanges,
+  options?: EngineStateOptions
+): any {
+  const subject = assertion._obj
+
+  // the subject is a function which sends the transaction, so the state is read before it is sent
+  const entries = getEngineStateEntries(changes)
+  const derivedPromise = getChange(subject, () => getEngineState(engine, entries)).then(({ after, before }) => {
+    const diffs = diffEngineState(entries, before, after, options)
+    const diff = formatEngineStateDiff(diffs)
+
+    assertion.assert(
+      diffs.every((entry) => entry.ok),
+      `Expected engine state to change by:\n${diff}`,
+      `Expected engine state NOT to change by:\n${diff}`,
+      diffs.map((entry) => `${entry.path}: ${entry.expected}`).join('\n'),
+      diffs.map((entry) => `${entry.path}: ${entry.actual}`).join('\n')
+    )
+  })
+
+  return deriveAssertion(assertion, derivedPromise)
+}
+
+// Chai matcher for any changes of the reserves, margins, positions and invariants of the PrimitiveEngine
+
+export default function supportEngineState(Assertion: Chai.AssertionStatic) {
+  Assertion.addMethod(
+    'changeEngineState',
+    function (this: any, engine: EngineTypes, changes: EngineStateChanges, options?: EngineStateOptions) {
+      return assertEngineStateChange(this, engine, changes, options)
+    }
+  )
+}
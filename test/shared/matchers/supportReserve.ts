@@ -1,17 +1,20 @@
 import { BigNumber } from 'ethers'
 import { Awaited, EngineTypes } from '../../../types'
+import { EngineStateOptions, ReserveField } from '../engineState'
+import { deriveAssertion, getChange } from './derivedPromise'
+import { assertEngineStateChange } from './supportEngineState'
 
 export type EngineReservesType = Awaited<ReturnType<EngineTypes['reserves']>>
 
-async function getReserveChange(
-  transaction: () => Promise<void> | void,
+function assertReserveChange(
+  assertion: any,
   engine: EngineTypes,
-  poolId: string
-): Promise<{ after: EngineReservesType; before: EngineReservesType }> {
-  const before = await engine.reserves(poolId)
-  await transaction()
-  const after = await engine.reserves(poolId)
-  return { after, before }
+  poolId: string,
+  field: ReserveField,
+  change: BigNumber,
+  options?: EngineStateOptions
+): any {
+  return assertEngineStateChange(assertion, engine, { reserves: { [poolId]: { [field]: change } } }, options)
 }
 
 // Chai matchers for the reserves of the PrimitiveEngine
@@ -21,66 +24,15 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
 
   Assertion.addMethod(
     'increaseReserveRisky',
-    async function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber) {
-      const subject = this._obj
-
-      // the argument object is a little complicated so here's whats happening:
-      // Promise.all returns array of the fn results, so we get the result with [result]
-      // destructure the result into the two items in the object, after and before: [{after, before}]
-      // since these are the reserves object, need to destrcture the specific value we want:
-      // [{ after: reserveRisky }, before: { reserveRisky: before }]
-      // finally, redefine those reserve values as before and after, so its easier to do the assertion
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(
-        ([
-          {
-            after: { reserveRisky: after },
-            before: { reserveRisky: before },
-          },
-        ]) => {
-          const expected = before.add(amount) // INCREASE
-          this.assert(
-            after.eq(expected) || after.sub(expected).lt(1000),
-            `Expected ${after} to be ${expected}`,
-            `Expected ${after} NOT to be ${expected}`,
-            expected,
-            after
-          )
-        }
-      )
-
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+    function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, options?: EngineStateOptions) {
+      return assertReserveChange(this, engine, poolId, 'reserveRisky', amount, options)
     }
   )
 
   Assertion.addMethod(
     'decreaseReserveRisky',
-    async function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber) {
-      const subject = this._obj
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(
-        ([
-          {
-            after: { reserveRisky: after },
-            before: { reserveRisky: before },
-          },
-        ]) => {
-          const expected = before.sub(amount) // DECREASE
-          this.assert(
-            after.eq(expected) || after.sub(expected).lt(1000),
-            `Expected ${after} to be ${expected}`,
-            `Expected ${after} NOT to be ${expected}`,
-            expected,
-            after
-          )
-        }
-      )
-
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+    function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, options?: EngineStateOptions) {
+      return assertReserveChange(this, engine, poolId, 'reserveRisky', amount.mul(-1), options)
     }
   )
 
@@ -88,59 +40,15 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
 
   Assertion.addMethod(
     'increaseReserveStable',
-    async function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber) {
-      const subject = this._obj
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(
-        ([
-          {
-            after: { reserveStable: after },
-            before: { reserveStable: before },
-          },
-        ]) => {
-          const expected = before.add(amount) // INCREASE
-          this.assert(
-            after.eq(expected) || after.sub(expected).lt(1000),
-            `Expected ${after} to be ${expected}`,
-            `Expected ${after} NOT to be ${expected}`,
-            expected,
-            after
-          )
-        }
-      )
-
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+    function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, options?: EngineStateOptions) {
+      return assertReserveChange(this, engine, poolId, 'reserveStable', amount, options)
     }
   )
 
   Assertion.addMethod(
     'decreaseReserveStable',
-    async function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber) {
-      const subject = this._obj
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(
-        ([
-          {
-            after: { reserveStable: after },
-            before: { reserveStable: before },
-          },
-        ]) => {
-          const expected = before.sub(amount) // DECREASE
-          this.assert(
-            after.eq(expected) || after.sub(expected).lt(1000),
-            `Expected ${after} to be ${expected}`,
-            `Expected ${after} NOT to be ${expected}`,
-            expected,
-            after
-          )
-        }
-      )
-
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+    function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, options?: EngineStateOptions) {
+      return assertReserveChange(this, engine, poolId, 'reserveStable', amount.mul(-1), options)
     }
   )
 
@@ -148,59 +56,15 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
 
   Assertion.addMethod(
     'increaseReserveLiquidity',
-    async function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber) {
-      const subject = this._obj
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(
-        ([
-          {
-            after: { liquidity: after },
-            before: { liquidity: before },
-          },
-        ]) => {
-          const expected = before.add(amount) // INCREASE
-          this.assert(
-            after.eq(expected),
-            `Expected ${after} to be ${expected}`,
-            `Expected ${after} NOT to be ${expected}`,
-            expected,
-            after
-          )
-        }
-      )
-
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+    function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, options?: EngineStateOptions) {
+      return assertReserveChange(this, engine, poolId, 'liquidity', amount, options)
     }
   )
 
   Assertion.addMethod(
     'decreaseReserveLiquidity',
-    async function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber) {
-      const subject = this._obj
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(
-        ([
-          {
-            after: { liquidity: after },
-            before: { liquidity: before },
-          },
-        ]) => {
-          const expected = before.sub(amount) // DECREASE
-          this.assert(
-            after.eq(expected),
-            `Expected ${after} to be ${expected}`,
-            `Expected ${after} NOT to be ${expected}`,
-            expected,
-            after
-          )
-        }
-      )
-
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+    function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, options?: EngineStateOptions) {
+      return assertReserveChange(this, engine, poolId, 'liquidity', amount.mul(-1), options)
     }
   )
 
@@ -208,14 +72,10 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
 
   Assertion.addMethod(
     'updateReserveBlockTimestamp',
-    async function (this: any, engine: EngineTypes, poolId: string, blockTimestamp: number) {
+    function (this: any, engine: EngineTypes, poolId: string, blockTimestamp: number) {
       const subject = this._obj
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(
-        ([
-          {
-            after: { blockTimestamp: after },
-          },
-        ]) => {
+      const derivedPromise = getChange(subject, () => engine.reserves(poolId)).then(
+        ({ after: { blockTimestamp: after } }) => {
           this.assert(
             after === blockTimestamp,
             `Expected ${after} to be ${blockTimestamp}`,
@@ -226,10 +86,7 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
         }
       )
 
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+      return deriveAssertion(this, derivedPromise)
     }
   )
 
@@ -237,9 +94,9 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
 
   Assertion.addMethod(
     'updateReserveCumulativeRisky',
-    async function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, blockTimestamp: number) {
+    function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, blockTimestamp: number) {
       const subject = this._obj
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(([{ after, before }]) => {
+      const derivedPromise = getChange(subject, () => engine.reserves(poolId)).then(({ after, before }) => {
         const deltaTime = blockTimestamp - before.blockTimestamp
         const expected = before.reserveRisky.add(after.reserveRisky.mul(deltaTime)) // UPDATE
         this.assert(
@@ -251,10 +108,7 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
         )
       })
 
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+      return deriveAssertion(this, derivedPromise)
     }
   )
 
@@ -262,9 +116,9 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
 
   Assertion.addMethod(
     'updateReserveCumulativeStable',
-    async function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, blockTimestamp: number) {
+    function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, blockTimestamp: number) {
       const subject = this._obj
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(([{ after, before }]) => {
+      const derivedPromise = getChange(subject, () => engine.reserves(poolId)).then(({ after, before }) => {
         const deltaTime = blockTimestamp - before.blockTimestamp
         const expected = before.cumulativeStable.add(after.reserveStable.mul(deltaTime)) // UPDATE
         this.assert(
@@ -276,10 +130,7 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
         )
       })
 
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+      return deriveAssertion(this, derivedPromise)
     }
   )
 
@@ -287,9 +138,9 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
 
   Assertion.addMethod(
     'updateReserveCumulativeLiquidity',
-    async function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, blockTimestamp: number) {
+    function (this: any, engine: EngineTypes, poolId: string, amount: BigNumber, blockTimestamp: number) {
       const subject = this._obj
-      const derivedPromise = Promise.all([getReserveChange(subject, engine, poolId)]).then(([{ after, before }]) => {
+      const derivedPromise = getChange(subject, () => engine.reserves(poolId)).then(({ after, before }) => {
         const deltaTime = blockTimestamp - before.blockTimestamp
         const expected = before.cumulativeLiquidity.add(after.liquidity.mul(deltaTime)) // UPDATE
         this.assert(
@@ -301,10 +152,7 @@ export default function supportReserve(Assertion: Chai.AssertionStatic) {
         )
       })
 
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+      return deriveAssertion(this, derivedPromise)
     }
   )
 }
@@ -1,10 +1,25 @@
-// Chai matcher for custom revert errors
+import {
+  CustomErrorParam,
+  CustomErrorParams,
+  decodeCustomError,
+  getRevertData,
+  matchesCustomErrorParam,
+} from '../customErrors'
+import { deriveAssertion } from './derivedPromise'
+
+// Chai matcher for custom revert errors, decoded from the revert data with the ABIs of the errors
 
 export default function supportRevertCustomError(Assertion: Chai.AssertionStatic) {
   Assertion.addMethod(
     'revertWithCustomError',
-    async function (this: any, errorName: string, params?: any[], chainId?: number) {
-      const promise = this._obj
+    async function (this: any, errorName: string, params?: CustomErrorParams) {
+      // a function subject is called for its transaction, like the subjects of the engine's state matchers
+      const subject = this._obj
+      const promise = typeof subject === 'function' ? subject() : subject
+      if (typeof promise?.then !== 'function')
+        throw new TypeError(
+          `revertWithCustomError expects a promise of a transaction or call, or a function returning one, not ${promise}`
+        )
 
       const onSuccess = (value: any) => {
         this.assert(
@@ -17,51 +32,51 @@ export default function supportRevertCustomError(Assertion: Chai.AssertionStatic
         return value
       }
 
-      const onError = (error: any) => {
-        const message =
-          error instanceof Object && 'message' in error ? (error.message as string) : JSON.stringify(error)
-
-        // reason for this is because hardhat and ganache have different error messages
-        const delimiter = chainId ? (chainId === 1337 ? 'revert' : chainId === 31337 ? "'" : 'revert') : 'revert'
-        const [, revertMsg] = message?.split(delimiter)
-
-        const [actualErrorName, actualParamsRaw] = revertMsg.split('(')
-        const actualParams = actualParamsRaw
-          .substring(0, actualParamsRaw.length - 1)
-          .replace(/ /g, '')
-          .split(',')
-
-        const expectedError = errorName.split('(')[0]
+      const onError = async (error: any) => {
+        const data = await getRevertData(error)
+        const decoded = data ? decodeCustomError(data) : undefined
+        // a name with its parentheses, e.g. `InvariantError(int128,int128)`, is compared to the signature
+        const expected = errorName.replace(/ /g, '')
+        const actual = decoded ? (expected.includes('(') ? decoded.signature : decoded.name) : `undecoded ${data}`
         this.assert(
-          actualErrorName.trim() === expectedError.trim(),
-          `Expected ${actualErrorName} to be ${expectedError}`,
-          `Expected ${actualErrorName} NOT to be ${expectedError}`,
-          expectedError,
-          actualErrorName
+          actual === expected,
+          `Expected ${actual} to be ${expected}`,
+          `Expected ${actual} NOT to be ${expected}`,
+          expected,
+          actual
         )
 
-        if (params && params.length > 0) {
-          for (let i = 0; i < actualParams.length; i += 1) {
-            if (typeof actualParams[i] === 'undefined') continue
-            const actual = actualParams[i].trim()
-            const expected = params[i].trim()
-            this.assert(
-              actual === expected,
-              `Expected ${actual} to be ${expected}`,
-              `Expected ${actual} NOT to be ${expected}`,
-              expected,
-              actual
-            )
-          }
+        if (!decoded || typeof params === 'undefined') return
+        if (typeof params === 'function') {
+          this.assert(
+            params(decoded.args),
+            `Expected ${decoded.name}(${decoded.args.join(', ')}) to match the predicate`,
+            `Expected ${decoded.name}(${decoded.args.join(', ')}) NOT to match the predicate`,
+            'predicate',
+            decoded.args
+          )
+          return
+        }
+
+        const entries: [string | number, CustomErrorParam][] = Array.isArray(params)
+          ? params.map((param, i) => [i, param])
+          : Object.entries(params)
+        for (const [key, param] of entries) {
+          const value = decoded.args[key]
+          const description = typeof param === 'function' ? 'predicate' : `${param}`
+          this.assert(
+            typeof value !== 'undefined' && matchesCustomErrorParam(value, param),
+            `Expected ${decoded.name} argument ${key} of ${value} to be ${description}`,
+            `Expected ${decoded.name} argument ${key} of ${value} NOT to be ${description}`,
+            description,
+            `${value}`
+          )
         }
       }
 
       const derivedPromise = promise.then(onSuccess, onError)
 
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+      return deriveAssertion(this, derivedPromise)
     }
   )
 }
@@ -0,0 +1,46 @@
+import { BigNumber } from 'ethers'
+import { EngineTypes } from '../../../types'
+import { getShortfall, getSolvencySnapshot, SolvencyOptions, SolvencySnapshot } from '../solvency'
+import { deriveAssertion, getChange } from './derivedPromise'
+
+// Chai matcher for the solvency of the PrimitiveEngine
+
+export default function supportSolvency(Assertion: Chai.AssertionStatic) {
+  Assertion.addMethod(
+    'keepEngineSolvent',
+    function (this: any, engine: EngineTypes, poolIds: string[], accounts: string[], options: SolvencyOptions = {}) {
+      const subject = this._obj
+
+      // the token balances must cover the reserves and margins after the transaction, and if exact, the balances must
+      // change by the sum of the reserve and margin changes
+      const derivedPromise = getChange(subject, () => getSolvencySnapshot(engine, poolIds, accounts)).then(
+        ({ after, before }) => {
+          const shortfall = getShortfall(after)
+          this.assert(
+            shortfall.risky.isZero() && shortfall.stable.isZero(),
+            `Expected engine to be solvent, but it is short ${shortfall.risky} risky and ${shortfall.stable} stable`,
+            `Expected engine NOT to be solvent`,
+            BigNumber.from(0),
+            shortfall.risky.isZero() ? shortfall.stable : shortfall.risky
+          )
+
+          if (!options.exact) return
+          const change = (key: keyof SolvencySnapshot) => after[key].sub(before[key])
+          for (const token of ['Risky', 'Stable'] as const) {
+            const balanceChange = change(`balance${token}`)
+            const expected = change(`reserve${token}`).add(change(`margin${token}`))
+            this.assert(
+              balanceChange.eq(expected),
+              `Expected ${token.toLowerCase()} balance change of ${balanceChange} to be ${expected}`,
+              `Expected ${token.toLowerCase()} balance change of ${balanceChange} NOT to be ${expected}`,
+              expected,
+              balanceChange
+            )
+          }
+        }
+      )
+
+      return deriveAssertion(this, derivedPromise)
+    }
+  )
+}
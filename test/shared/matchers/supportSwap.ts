@@ -3,49 +3,18 @@ import { getSpotPriceApproximation } from '@primitivefi/rmm-math'
 import { parseWei, Wei } from 'web3-units'
 
 import { EngineTypes } from '../../../types'
-import { Calibration } from '../calibration'
+import { Calibration } from '../../../src/calibration'
 import { EngineMarginsType } from './supportMargin'
 import { EngineReservesType } from './supportReserve'
-// Chai matchers for the positions of the PrimitiveEngine
+import { deriveAssertion, getChange } from './derivedPromise'
 
-async function getInvariantChange(transaction: () => Promise<void> | void, engine: EngineTypes, poolId: string) {
-  const before = await engine.invariantOf(poolId)
-  await transaction()
-  const after = await engine.invariantOf(poolId)
-  return { after, before }
-}
-
-async function getSwapChange(
-  transaction: () => Promise<void> | void,
-  engine: EngineTypes,
-  tokens: any[],
-  receiver: string,
-  poolId: string
-): Promise<{
-  after: { margin: EngineMarginsType; tokens: any; reserve: EngineReservesType }
-  before: { margin: EngineMarginsType; tokens: any; reserve: EngineReservesType }
-}> {
-  const beforeMargin = await engine.margins(receiver)
-  const beforeReserve = await engine.reserves(poolId)
-  const beforeTokens = [await tokens[0].balanceOf(engine.address), await tokens[1].balanceOf(engine.address)]
-  const before = { margin: beforeMargin, tokens: beforeTokens, reserve: beforeReserve }
-  await transaction()
-  const afterMargin = await engine.margins(receiver)
-  const afterReserve = await engine.reserves(poolId)
-  const afterTokens = [await tokens[0].balanceOf(engine.address), await tokens[1].balanceOf(engine.address)]
-  const after = { margin: afterMargin, tokens: afterTokens, reserve: afterReserve }
-  return { after, before }
-}
+// Chai matchers for the swaps of the PrimitiveEngine
 
-async function getSpotPriceChange(
-  transaction: () => Promise<void> | void,
-  engine: EngineTypes,
-  poolId: string
-): Promise<{ after: EngineReservesType; before: EngineReservesType }> {
-  const before = await engine.reserves(poolId)
-  await transaction()
-  const after = await engine.reserves(poolId)
-  return { after, before }
+async function getSwapState(engine: EngineTypes, tokens: any[], receiver: string, poolId: string) {
+  const margin: EngineMarginsType = await engine.margins(receiver)
+  const reserve: EngineReservesType = await engine.reserves(poolId)
+  const balances = [await tokens[0].balanceOf(engine.address), await tokens[1].balanceOf(engine.address)]
+  return { margin, tokens: balances, reserve }
 }
 
 export default function supportSwap(Assertion: Chai.AssertionStatic) {
@@ -53,10 +22,10 @@ export default function supportSwap(Assertion: Chai.AssertionStatic) {
 
   Assertion.addMethod(
     'updateSpotPrice',
-    async function (this: any, engine: EngineTypes, cal: Calibration, riskyForStable: boolean) {
+    function (this: any, engine: EngineTypes, cal: Calibration, riskyForStable: boolean) {
       const subject = this._obj
       const poolId = cal.poolId(engine.address)
-      const derivedPromise = Promise.all([getSpotPriceChange(subject, engine, poolId)]).then(([{ after, before }]) => {
+      const derivedPromise = getChange(subject, () => engine.reserves(poolId)).then(({ after, before }) => {
         const { strike, sigma, tau, decimalsRisky, decimalsStable } = cal
 
         function reservePerLiquidity(reserve, decimals, liquidity): number {
@@ -92,10 +61,7 @@ export default function supportSwap(Assertion: Chai.AssertionStatic) {
         )
       })
 
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+      return deriveAssertion(this, derivedPromise)
     }
   )
 
@@ -111,8 +77,8 @@ export default function supportSwap(Assertion: Chai.AssertionStatic) {
       amountOut?: Wei
     ) {
       const subject = this._obj
-      const derivedPromise = Promise.all([getSwapChange(subject, engine, tokens, receiver, poolId)]).then(
-        ([{ after, before }]) => {
+      const derivedPromise = getChange(subject, () => getSwapState(engine, tokens, receiver, poolId)).then(
+        ({ after, before }) => {
           const preBalStable = toMargin ? before.margin.balanceStable : before.tokens[1]
           const preBalRisky = toMargin ? before.margin.balanceRisky : before.tokens[0]
           const postBalStable = toMargin ? after.margin.balanceStable : after.tokens[1]
@@ -155,16 +121,13 @@ export default function supportSwap(Assertion: Chai.AssertionStatic) {
         }
       )
 
-      this.then = derivedPromise.then.bind(derivedPromise)
-      this.catch = derivedPromise.catch.bind(derivedPromise)
-      this.promise = derivedPromise
-      return this
+      return deriveAssertion(this, derivedPromise)
     }
   )
 
-  Assertion.addMethod('increaseInvariant', async function (this: any, engine: EngineTypes, poolId: string) {
+  Assertion.addMethod('increaseInvariant', function (this: any, engine: EngineTypes, poolId: string) {
     const subject = this._obj
-    const derivedPromise = Promise.all([getInvariantChange(subject, engine, poolId)]).then(([{ after, before }]) => {
+    const derivedPromise = getChange(subject, () => engine.invariantOf(poolId)).then(({ after, before }) => {
       this.assert(
         after.gte(before),
         `Expected ${after} to be gte ${before}`,
@@ -174,9 +137,6 @@ export default function supportSwap(Assertion: Chai.AssertionStatic) {
       )
     })
 
-    this.then = derivedPromise.then.bind(derivedPromise)
-    this.catch = derivedPromise.catch.bind(derivedPromise)
-    this.promise = derivedPromise
-    return this
+    return deriveAssertion(this, derivedPromise)
   })
 }
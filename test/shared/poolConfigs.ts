@@ -1,5 +1,8 @@
-import { Calibration, parseCalibration } from './calibration'
-import { Time } from 'web3-units'
+import { Calibration, parseCalibration } from '../../src/calibration'
+import { Time, parseWei } from 'web3-units'
+import { Configs } from '../../types'
+import { Random } from '../../src/simulation/random'
+import { VirtualPool } from '../../src/virtualPool'
 
 export interface PoolState {
   description: string
@@ -46,36 +49,293 @@ export const calibrations: any = {
 }
 
 /**
- * @notice Array of pool calibrations to test per test file
- */
-export const TestPools: PoolState[] = [
-  // { description: '0.01% sigma', calibration: calibrations.minsigma },
-  { description: 'default', calibration: DEFAULT_CONFIG },
-  // { description: '1% fee', calibration: calibrations.mingamma },
-  // { description: '10% fee', calibration: calibrations.maxgamma },
-  // { description: '0.01% sigma', calibration: calibrations.minsigma },
-  // {
-  //   description: `6 decimal risky and stable`,
-  //   calibration: calibrations.lowdecimals,
-  // },
-  /* {
-    description: `exp`,
-    calibration: calibrations.exp,
-  }, */
-  /* {
-    description: `in the money`,
-    calibration: calibrations.itm,
-  },
-  {
-    description: `out of the money`,
-    calibration: calibrations.otm,
-  },
-  {
-    description: `6 decimal risky`,
-    calibration: calibrations.lowdecimal0,
-  },
-  {
-    description: `6 decimal stable`,
-    calibration: calibrations.lowdecimal1,
-  }, */
+ * @notice Environment variable setting the seed of the generated configs, e.g. `CONFIGS_SEED=7 npm test`
+ */
+export const CONFIGS_SEED_ENV = 'CONFIGS_SEED'
+
+/**
+ * @notice Reads the seed of the generated configs
+ * @return Seed set by `CONFIGS_SEED`, or 1 if unset, throwing for a seed which is not an integer so a typo does not
+ * silently generate the configs of another seed
+ */
+export function getConfigsSeed(env: NodeJS.ProcessEnv = process.env): number {
+  const seed = env[CONFIGS_SEED_ENV]
+  if (!seed) return 1
+  if (!Number.isInteger(Number(seed))) throw new Error(`Malformed ${CONFIGS_SEED_ENV}=${seed}, expected an integer`)
+  return Number(seed)
+}
+
+/**
+ * @notice Seed of the calibrations generated for the configs of `forEachConfig`
+ */
+export const CONFIGS_SEED = getConfigsSeed()
+
+/**
+ * @notice Ranges of the generated calibrations, where each lower and upper bound is an edge case
+ */
+export interface ConfigBounds {
+  /** Strike prices as floats, sampled log-uniformly */
+  strike: [number, number]
+  /** Sigmas as floats, e.g. 1 = 100%, sampled log-uniformly */
+  sigma: [number, number]
+  /** Seconds until maturity, sampled log-uniformly */
+  tau: [number, number]
+  /** Gammas as floats, equal to 1 - fee, sampled uniformly */
+  gamma: [number, number]
+  /** Reference prices as multiples of the strike, sampled log-uniformly */
+  moneyness: [number, number]
+  /** Token decimals accepted by the factory, where the first and last are the edges */
+  decimals: number[]
+  /** Probability to sample an edge of a range instead of its interior */
+  edgeProbability: number
+}
+
+export const DEFAULT_BOUNDS: ConfigBounds = {
+  strike: [1, 10_000],
+  sigma: [MIN_SIGMA, MAX_SIGMA],
+  tau: [Time.YearInSeconds / 365, Time.YearInSeconds * 5],
+  gamma: [MIN_GAMMA, MAX_GAMMA],
+  moneyness: [0.5, 2],
+  decimals: [6, 8, 12, 18],
+  edgeProbability: 0.25,
+}
+
+/**
+ * @notice Samples parameters in ranges, returning one of the bounds with the edge probability
+ */
+class ConfigSampler {
+  private readonly random: Random
+
+  constructor(seed: number, private readonly bounds: ConfigBounds) {
+    this.random = new Random(seed)
+  }
+
+  strike(): number {
+    return this.logUniform(this.bounds.strike)
+  }
+
+  sigma(): number {
+    return this.logUniform(this.bounds.sigma)
+  }
+
+  tau(): number {
+    return Math.round(this.logUniform(this.bounds.tau))
+  }
+
+  gamma(): number {
+    return this.edge(this.bounds.gamma) ?? this.between(this.bounds.gamma)
+  }
+
+  spot(strike: number): number {
+    return strike * this.logUniform(this.bounds.moneyness)
+  }
+
+  decimals(): number {
+    const { decimals } = this.bounds
+    const edge = this.edge([decimals[0], decimals[decimals.length - 1]])
+    return edge ?? decimals[Math.floor(this.random.uniform() * decimals.length)]
+  }
+
+  private logUniform([lower, upper]: [number, number]): number {
+    return this.edge([lower, upper]) ?? Math.exp(this.between([Math.log(lower), Math.log(upper)]))
+  }
+
+  private between([lower, upper]: [number, number]): number {
+    return lower + (upper - lower) * this.random.uniform()
+  }
+
+  private edge([lower, upper]: [number, number]): number | undefined {
+    if (this.random.uniform() >= this.bounds.edgeProbability) return undefined
+    return this.random.uniform() < 0.5 ? lower : upper
+  }
+}
+
+/**
+ * @notice Checks a calibration can be created like `usePool` does, with the risky reserves of its delta
+ * @return True if the engine's `create` would not revert
+ */
+export function isCreatable(cal: Calibration): boolean {
+  try {
+    const riskyPerLp = parseWei(1, cal.decimalsRisky).sub(parseWei(cal.delta, cal.decimalsRisky))
+    VirtualPool.create(cal, riskyPerLp, parseWei('1', 18), true)
+    return true
+  } catch (err) {
+    return false
+  }
+}
+
+/**
+ * @notice Generates calibrations which vary from the `DEFAULT_CONFIG`, skipping any which cannot be created
+ * @param seed Seed of the samples, so the same seed generates the same calibrations
+ * @param count Number of calibrations of each kind
+ * @param bounds Ranges of the parameters
+ * @return configs With `strikes`, `sigmas`, `maturities` and `spots` varying only their parameter and the decimals
+ * of `DEFAULT_CONFIG`, and `all` varying every parameter and the decimals
+ */
+export function generateConfigs(seed: number, count = 4, bounds: ConfigBounds = DEFAULT_BOUNDS): Configs {
+  const sampler = new ConfigSampler(seed, bounds)
+  const { strike, sigma, gamma, referencePrice } = DEFAULT_CONFIG
+  const tau = DEFAULT_CONFIG.tau.raw
+  const sample = (generate: () => Calibration): Calibration[] => {
+    const configs: Calibration[] = []
+    // bounded, as a range may have no creatable calibrations
+    for (let attempt = 0; configs.length < count && attempt < count * 25; attempt++) {
+      const cal = generate()
+      // edges are sampled often, so the same calibration can be sampled twice
+      const duplicate = configs.some((config) => describeCalibration(config) === describeCalibration(cal))
+      if (!duplicate && isCreatable(cal)) configs.push(cal)
+    }
+    return configs
+  }
+
+  return {
+    strikes: sample(() => {
+      const sampled = sampler.strike()
+      return parseCalibration(sampled, sigma.float, START + tau, gamma.float, START, sampled)
+    }),
+    sigmas: sample(() => parseCalibration(strike.float, sampler.sigma(), START + tau, gamma.float, START, SPOT)),
+    maturities: sample(() =>
+      parseCalibration(strike.float, sigma.float, START + sampler.tau(), gamma.float, START, referencePrice.float)
+    ),
+    spots: sample(() =>
+      parseCalibration(strike.float, sigma.float, START + tau, gamma.float, START, sampler.spot(SPOT))
+    ),
+    all: sample(() => {
+      const sampled = sampler.strike()
+      return parseCalibration(
+        sampled,
+        sampler.sigma(),
+        START + sampler.tau(),
+        sampler.gamma(),
+        START,
+        sampler.spot(sampled),
+        sampler.decimals(),
+        sampler.decimals()
+      )
+    }),
+  }
+}
+
+/**
+ * @notice Describes a calibration by its parameters, to name the tests run with it
+ */
+export function describeCalibration(cal: Calibration): string {
+  const days = cal.tau.raw / 86400
+  return [
+    `strike ${+cal.strike.float.toPrecision(6)}`,
+    `sigma ${+(cal.sigma.float * 100).toPrecision(6)}%`,
+    `tau ${+days.toPrecision(6)} days`,
+    `fee ${+((1 - cal.gamma.float) * 100).toPrecision(4)}%`,
+    `spot ${+cal.referencePrice.float.toPrecision(6)}`,
+    `decimals ${cal.decimalsRisky}/${cal.decimalsStable}`,
+  ].join(', ')
+}
+
+/**
+ * @notice Converts generated configs to the pool states tests are run with, like `TestPools`
+ * @param kinds Lists of the configs to include, defaults to all of them
+ */
+export function toPoolStates(configs: Configs, kinds: (keyof Configs)[] = ['all']): PoolState[] {
+  return kinds.flatMap((kind) =>
+    configs[kind].map((calibration) => ({ description: describeCalibration(calibration), calibration }))
+  )
+}
+
+/**
+ * @notice Environment variable naming the preset of `TestPools`, e.g. `TEST_POOLS=fees npm test`
+ */
+export const TEST_POOLS_ENV = 'TEST_POOLS'
+
+/**
+ * @notice Tag in a mocha grep naming the preset of `TestPools`, e.g. `--grep @pools:decimals`
+ */
+export const TEST_POOLS_TAG = '@pools:'
+
+const DEFAULT_POOLS: PoolState[] = [{ description: 'default', calibration: DEFAULT_CONFIG }]
+const DECIMALS_POOLS: PoolState[] = [
+  { description: '6 decimal risky', calibration: calibrations.lowdecimal0 },
+  { description: '6 decimal stable', calibration: calibrations.lowdecimal1 },
+  { description: '6 decimal risky and stable', calibration: calibrations.lowdecimals },
 ]
+const FEES_POOLS: PoolState[] = [
+  { description: '10% fee', calibration: calibrations.mingamma },
+  { description: '0.01% fee', calibration: calibrations.maxgamma },
+]
+const SIGMAS_POOLS: PoolState[] = [
+  { description: '0.01% sigma', calibration: calibrations.minsigma },
+  { description: '1000% sigma', calibration: calibrations.maxsigma },
+]
+const STRIKES_POOLS: PoolState[] = [
+  { description: 'in the money', calibration: calibrations.itm },
+  { description: 'out of the money', calibration: calibrations.otm },
+]
+const EXPIRED_POOLS: PoolState[] = [{ description: 'expired', calibration: calibrations.exp }]
+
+/**
+ * @notice Named lists of pool states, where `full` has every named calibration
+ */
+export const PRESETS: { [name: string]: PoolState[] } = {
+  default: DEFAULT_POOLS,
+  decimals: DECIMALS_POOLS,
+  fees: FEES_POOLS,
+  sigmas: SIGMAS_POOLS,
+  strikes: STRIKES_POOLS,
+  expired: EXPIRED_POOLS,
+  full: [...DEFAULT_POOLS, ...STRIKES_POOLS, ...FEES_POOLS, ...SIGMAS_POOLS, ...DECIMALS_POOLS, ...EXPIRED_POOLS],
+}
+
+/**
+ * @notice Builds the pool states of a preset
+ * @param preset Name of a preset in `PRESETS`, or `random:N:seed` for N generated calibrations varying every parameter
+ * @return Pool states, throwing for an unknown or malformed preset so a typo does not silently run the default
+ */
+export function getPreset(preset: string): PoolState[] {
+  if (preset.startsWith('random')) {
+    const [, count, seed] = preset.split(':').map(Number)
+    if (!(count > 0) || !Number.isInteger(count) || !Number.isInteger(seed))
+      throw new Error(`Malformed preset ${preset}, expected random:N:seed`)
+    return toPoolStates(generateConfigs(seed, count))
+  }
+  const pools = PRESETS[preset]
+  if (!pools)
+    throw new Error(`Unknown preset ${preset}, expected one of ${Object.keys(PRESETS).join(', ')}, random:N:seed`)
+  return pools
+}
+
+/**
+ * @notice Reads the preset named by the environment, or else by a tag in the mocha grep of the arguments
+ * @return Name of the preset, whether it was read from the grep, and `default` if neither names one
+ */
+export function selectPreset(
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv
+): { preset: string; fromGrep: boolean } {
+  const fromEnv = env[TEST_POOLS_ENV]
+  if (fromEnv) return { preset: fromEnv, fromGrep: false }
+  const greps = argv.flatMap((arg, i) => {
+    if (arg === '--grep' || arg === '-g') return argv[i + 1] ?? []
+    if (arg.startsWith('--grep=')) return arg.slice('--grep='.length)
+    return []
+  })
+  for (const grep of greps) {
+    const tag = grep.split(/\s+/).find((word) => word.startsWith(TEST_POOLS_TAG))
+    if (tag) return { preset: tag.slice(TEST_POOLS_TAG.length), fromGrep: true }
+  }
+  return { preset: 'default', fromGrep: false }
+}
+
+/**
+ * @notice Builds the pool states of the selected preset, tagging their descriptions if selected by a grep, so the
+ * grep still matches the tests run with them
+ */
+export function selectTestPools(env: NodeJS.ProcessEnv = process.env, argv: string[] = process.argv): PoolState[] {
+  const { preset, fromGrep } = selectPreset(env, argv)
+  const pools = getPreset(preset)
+  if (!fromGrep) return pools
+  return pools.map((pool) => ({ ...pool, description: `${pool.description} ${TEST_POOLS_TAG}${preset}` }))
+}
+
+/**
+ * @notice Array of pool calibrations to test per test file, selected by `TEST_POOLS` or an `@pools:` grep tag
+ */
+export const TestPools: PoolState[] = selectTestPools()
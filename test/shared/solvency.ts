@@ -0,0 +1,113 @@
+import { BigNumber } from 'ethers'
+import { IERC20__factory } from '../../typechain'
+import { EngineTypes } from '../../types'
+
+/**
+ * Token balances of an engine and the sums of the accounting they must cover.
+ */
+export interface SolvencySnapshot {
+  /** Risky token balance of the engine */
+  balanceRisky: BigNumber
+  /** Stable token balance of the engine */
+  balanceStable: BigNumber
+  /** Sum of the risky reserves of the pools */
+  reserveRisky: BigNumber
+  /** Sum of the stable reserves of the pools */
+  reserveStable: BigNumber
+  /** Sum of the risky margins of the accounts */
+  marginRisky: BigNumber
+  /** Sum of the stable margins of the accounts */
+  marginStable: BigNumber
+}
+
+export interface SolvencyOptions {
+  /**
+   * Also checks the balances change by the sum of the reserve and margin changes, which holds only if every pool and
+   * account the transaction changes is given, defaults to false
+   */
+  exact?: boolean
+}
+
+/**
+ * Fetches the token balances of an engine with the reserves of its pools and the margins of its accounts.
+ *
+ * @remarks
+ * Duplicate pools and accounts are only counted once.
+ *
+ * @param engine Engine which holds the tokens.
+ * @param poolIds Pools of the engine to sum the reserves of.
+ * @param accounts Accounts to sum the margins of.
+ *
+ * @returns snapshot of the balances and sums.
+ *
+ * @beta
+ */
+export async function getSolvencySnapshot(
+  engine: EngineTypes,
+  poolIds: string[],
+  accounts: string[]
+): Promise<SolvencySnapshot> {
+  const [risky, stable] = await Promise.all([engine.risky(), engine.stable()])
+  const [balanceRisky, balanceStable] = await Promise.all(
+    [risky, stable].map((token) => IERC20__factory.connect(token, engine.provider).balanceOf(engine.address))
+  )
+  const reserves = await Promise.all(unique(poolIds).map((poolId) => engine.reserves(poolId)))
+  const margins = await Promise.all(unique(accounts).map((account) => engine.margins(account)))
+  const sum = (values: BigNumber[]) => values.reduce((total, value) => total.add(value), BigNumber.from(0))
+
+  return {
+    balanceRisky,
+    balanceStable,
+    reserveRisky: sum(reserves.map((reserve) => reserve.reserveRisky)),
+    reserveStable: sum(reserves.map((reserve) => reserve.reserveStable)),
+    marginRisky: sum(margins.map((margin) => margin.balanceRisky)),
+    marginStable: sum(margins.map((margin) => margin.balanceStable)),
+  }
+}
+
+/**
+ * Gets the amounts by which the token balances of a snapshot fall short of its reserves and margins.
+ *
+ * @returns shortfalls of the risky and stable tokens, which are zero if the engine is solvent.
+ *
+ * @beta
+ */
+export function getShortfall(snapshot: SolvencySnapshot): { risky: BigNumber; stable: BigNumber } {
+  const shortfall = (balance: BigNumber, owed: BigNumber) => (owed.gt(balance) ? owed.sub(balance) : BigNumber.from(0))
+  return {
+    risky: shortfall(snapshot.balanceRisky, snapshot.reserveRisky.add(snapshot.marginRisky)),
+    stable: shortfall(snapshot.balanceStable, snapshot.reserveStable.add(snapshot.marginStable)),
+  }
+}
+
+/**
+ * Asserts the token balances of an engine cover the reserves of its pools and the margins of its accounts.
+ *
+ * @remarks
+ * The pools and accounts can be a subset of the engine's, as the balances must cover any subset of what they owe.
+ *
+ * @param engine Engine which holds the tokens.
+ * @param poolIds Pools of the engine to sum the reserves of.
+ * @param accounts Accounts to sum the margins of.
+ *
+ * @returns snapshot of the balances and sums, if solvent.
+ *
+ * @throws if the balances of either token are less than the sum of their reserves and margins.
+ *
+ * @beta
+ */
+export async function assertEngineSolvent(
+  engine: EngineTypes,
+  poolIds: string[],
+  accounts: string[]
+): Promise<SolvencySnapshot> {
+  const snapshot = await getSolvencySnapshot(engine, poolIds, accounts)
+  const { risky, stable } = getShortfall(snapshot)
+  if (!risky.isZero() || !stable.isZero())
+    throw new Error(`Engine ${engine.address} is insolvent by ${risky} risky and ${stable} stable`)
+  return snapshot
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.map((value) => value.toLowerCase()))]
+}
@@ -1,7 +1,22 @@
 import { ethers, waffle } from 'hardhat'
-import { Contracts } from '../../types'
+import { Contracts, Configs } from '../../types'
+import { Calibration } from '../../src/calibration'
+import { engineFixture } from './fixtures'
+import { useApproveAll, useTokens } from './hooks'
+import { CONFIGS_SEED, CONFIGS_SEED_ENV, describeCalibration, generateConfigs } from './poolConfigs'
 const { createFixtureLoader } = waffle
 
+let configs: Configs | undefined
+
+/**
+ * @notice Random calibrations of the tests, generated once with the same seed so they are reproducible
+ * @dev Generated on the first call instead of at import, as only the tests of `forEachConfig` use them
+ */
+export function getConfigs(): Configs {
+  if (!configs) configs = generateConfigs(CONFIGS_SEED)
+  return configs
+}
+
 /**
  * @notice Wraps the `describe` statement of a test to inject some context!
  * @param description Test name
@@ -18,3 +33,33 @@ export function testContext(description: string, hooks: () => void): void {
     hooks()
   })
 }
+
+/**
+ * @notice Defines the tests of a `testContext` once for each generated config, in a describe named by the config and
+ * the seed it was generated with, which `CONFIGS_SEED=<seed>` reproduces
+ * @dev Each test is run in a new engine with the decimals of the config
+ * @param tests Defines the tests of a config, whose `contracts` have tokens minted and approved by the first signer
+ * @param kinds Lists of the configs to run, defaults to all of them
+ */
+export function forEachConfig(
+  tests: (calibration: Calibration) => void,
+  kinds: (keyof Configs)[] = ['strikes', 'sigmas', 'maturities', 'spots', 'all']
+): void {
+  for (const calibration of kinds.flatMap((kind) => getConfigs()[kind])) {
+    describe(`${describeCalibration(calibration)}, ${CONFIGS_SEED_ENV}=${CONFIGS_SEED}`, function () {
+      beforeEach(async function () {
+        const fixture = await this.loadFixture(engineFixture)
+        const { factory, factoryDeploy, router } = fixture
+        const { engine, risky, stable } = await fixture.createEngine(
+          calibration.decimalsRisky,
+          calibration.decimalsStable
+        )
+        this.contracts = { factory, factoryDeploy, router, engine, risky, stable }
+        await useTokens(this.signers[0], this.contracts, calibration)
+        await useApproveAll(this.signers[0], this.contracts)
+      })
+
+      tests(calibration)
+    })
+  }
+}
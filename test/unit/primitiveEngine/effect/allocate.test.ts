@@ -4,7 +4,8 @@ import { parseWei, Time, Wei } from 'web3-units'
 import { parseEther } from '@ethersproject/units'
 
 import expect from '../../.../../../shared/expect'
-import { testContext } from '../../.../../../shared/testContext'
+import { forEachConfig, testContext } from '../../.../../../shared/testContext'
+import { VirtualPool } from '../../../../src/virtualPool'
 import { PoolState, TestPools } from '../../.../../../shared/poolConfigs'
 import { engineFixture } from '../../.../../../shared/fixtures'
 import { usePool, useLiquidity, useTokens, useApproveAll, useMargin } from '../../.../../../shared/hooks'
@@ -94,6 +95,20 @@ TestPools.forEach(function (pool: PoolState) {
           ).to.emit(this.contracts.engine, 'Allocate')
         })
 
+        it('emits the Allocate event with the allocated amounts', async function () {
+          const router = this.contracts.router.address
+          await expect(
+            this.contracts.router.allocateFromMargin(poolId, router, delRisky.raw, delStable.raw, HashZero)
+          ).to.emitEngineEvent(this.contracts.engine, 'Allocate', {
+            from: router,
+            recipient: router,
+            poolId,
+            delRisky,
+            delStable,
+            delLiquidity,
+          })
+        })
+
         it('increases reserve liquidity', async function () {
           await expect(() =>
             this.contracts.router.allocateFromMargin(
@@ -141,6 +156,19 @@ TestPools.forEach(function (pool: PoolState) {
             )
           ).to.updateReserveBlockTimestamp(this.contracts.engine, poolId, +(await this.contracts.engine.time()))
         })
+
+        it('moves the margin into the reserves and position', async function () {
+          const router = this.contracts.router.address
+          await expect(() =>
+            this.contracts.router.allocateFromMargin(poolId, router, delRisky.raw, delStable.raw, HashZero)
+          ).to.changeEngineState(this.contracts.engine, {
+            reserves: {
+              [poolId]: { reserveRisky: delRisky.raw, reserveStable: delStable.raw, liquidity: delLiquidity.raw },
+            },
+            margins: { [router]: { balanceRisky: delRisky.raw.mul(-1), balanceStable: delStable.raw.mul(-1) } },
+            liquidity: { [router]: { [poolId]: delLiquidity.raw } },
+          })
+        })
       })
 
       describe('fail cases', function () {
@@ -349,3 +377,44 @@ TestPools.forEach(function (pool: PoolState) {
     })
   })
 })
+
+testContext('allocate to the generated configs', function () {
+  forEachConfig((calibration) => {
+    let poolId: string, pool: VirtualPool
+
+    beforeEach(async function () {
+      ;({ poolId } = await usePool(this.signers[0], this.contracts, calibration))
+      pool = await VirtualPool.fromEngine(this.contracts.engine, poolId, calibration.referencePrice.float, true)
+    })
+
+    it('allocates from external the liquidity of the exact model', async function () {
+      const { engine, router } = this.contracts
+      const { delRisky, delStable } = pool.getAmounts(parseWei('0.5'))
+      const { delLiquidity } = pool.allocate(delRisky, delStable)
+
+      await expect(() =>
+        router.allocateFromExternal(poolId, router.address, delRisky.raw, delStable.raw, HashZero)
+      ).to.increasePositionLiquidity(engine, router.address, poolId, delLiquidity.raw)
+      const reserve = await engine.reserves(poolId)
+      expect(reserve.reserveRisky).to.be.eq(pool.reserveRisky.raw)
+      expect(reserve.reserveStable).to.be.eq(pool.reserveStable.raw)
+      expect(reserve.liquidity).to.be.eq(pool.liquidity.raw)
+    })
+
+    it('allocates from margin the liquidity of the exact model, spending the margin', async function () {
+      const { engine, router } = this.contracts
+      const { delRisky, delStable } = pool.getAmounts(parseWei('0.5'))
+      const { delLiquidity } = pool.allocate(delRisky, delStable)
+      await useMargin(this.signers[0], this.contracts, delRisky, delStable, router.address)
+
+      const allocate = () => router.allocateFromMargin(poolId, router.address, delRisky.raw, delStable.raw, HashZero)
+      await expect(allocate).to.decreaseMargin(engine, router.address, delRisky.raw, delStable.raw)
+      const position = await engine.liquidity(router.address, poolId)
+      expect(position).to.be.eq(
+        parseWei('1')
+          .sub(await engine.MIN_LIQUIDITY())
+          .add(delLiquidity).raw
+      )
+    })
+  })
+})
@@ -1,11 +1,11 @@
-import hre, { ethers } from 'hardhat'
+import { ethers } from 'hardhat'
 import { parseWei } from 'web3-units'
 import { constants, BigNumber, Wallet } from 'ethers'
-import { getStableGivenRisky } from '@primitivefi/rmm-math'
 
 import expect from '../../../shared/expect'
 import { parseCalibration } from '../../../shared'
-import { testContext } from '../../../shared/testContext'
+import { forEachConfig, testContext } from '../../../shared/testContext'
+import { VirtualPool } from '../../../../src/virtualPool'
 import { useTokens, useApproveAll } from '../../../shared/hooks'
 import { PoolState, TestPools } from '../../../shared/poolConfigs'
 import { engineFixture } from '../../../shared/fixtures'
@@ -20,14 +20,12 @@ TestPools.forEach(function (pool: PoolState) {
       pool.calibration
     let poolId: string
     const delLiquidity = parseWei('1', 18)
-    let chainId: number
 
     let loadFixture: ReturnType<typeof createFixtureLoader>
     let signer: Wallet, other: Wallet
     before(async function () {
       ;[signer, other] = await (ethers as any).getSigners()
       loadFixture = createFixtureLoader([signer, other])
-      chainId = +(await hre.network.provider.send('eth_chainId')).toString()
     })
 
     beforeEach(async function () {
@@ -42,6 +40,11 @@ TestPools.forEach(function (pool: PoolState) {
     })
 
     describe('success cases', function () {
+      before(function () {
+        // an expired calibration has no delta to compute the risky reserves of the pool with
+        if (maturity.raw <= lastTimestamp.raw) this.skip()
+      })
+
       it('deploys a new pool', async function () {
         await expect(
           this.contracts.router.create(
@@ -71,6 +74,7 @@ TestPools.forEach(function (pool: PoolState) {
       })
 
       it('res.allocate: increases reserve risky', async function () {
+        // 1 - delta is rounded by the float subtraction, so the change is compared within 1000 wei
         const delRisky = parseWei(1 - delta, decimalsRisky)
         await expect(() =>
           this.contracts.router.create(
@@ -82,15 +86,13 @@ TestPools.forEach(function (pool: PoolState) {
             delLiquidity.raw,
             HashZero
           )
-        ).to.increaseReserveRisky(this.contracts.engine, poolId, delRisky.raw)
+        ).to.increaseReserveRisky(this.contracts.engine, poolId, delRisky.raw, { tolerance: 1000 })
       })
 
       it('res.allocate: increases reserve stable', async function () {
-        const delRisky = parseWei(1 - delta, decimalsRisky)
-        const delStable = parseWei(
-          getStableGivenRisky(delRisky.float, strike.float, sigma.float, maturity.sub(lastTimestamp).years),
-          decimalsStable
-        )
+        // computed with the engine's fixed point math, as the float curve differs from it out of the money
+        const riskyPerLp = parseWei(1, decimalsRisky).sub(parseWei(delta, decimalsRisky))
+        const { delStable } = VirtualPool.create(pool.calibration, riskyPerLp, delLiquidity, true)
         await expect(() =>
           this.contracts.router.create(
             strike.raw,
@@ -192,6 +194,28 @@ TestPools.forEach(function (pool: PoolState) {
       })
     })
 
+    describe('expired calibration', function () {
+      before(function () {
+        if (maturity.raw > lastTimestamp.raw) this.skip()
+      })
+
+      it('reverts with PoolExpiredError at the lastTimestamp of the calibration', async function () {
+        await this.contracts.engine.advanceTime(lastTimestamp.raw)
+        await this.contracts.router.expect('PoolExpiredError()')
+        await expect(
+          this.contracts.router.create(
+            strike.raw,
+            sigma.raw,
+            maturity.raw,
+            gamma.raw,
+            parseWei(1, decimalsRisky).sub(parseWei(delta, decimalsRisky)).raw,
+            delLiquidity.raw,
+            HashZero
+          )
+        ).to.be.revertWithCustomError('PoolExpiredError()')
+      })
+    })
+
     describe('fail cases', function () {
       it('reverts when the pool already exists', async function () {
         // set a new mock timestamp to create the pool with
@@ -218,7 +242,7 @@ TestPools.forEach(function (pool: PoolState) {
             delLiquidity.raw,
             HashZero
           )
-        ).to.be.revertWithCustomError('PoolDuplicateError()', undefined, chainId)
+        ).to.be.revertWithCustomError('PoolDuplicateError()')
       })
 
       it('reverts if strike is 0', async function () {
@@ -361,3 +385,47 @@ TestPools.forEach(function (pool: PoolState) {
     })
   })
 })
+
+testContext('create the generated configs', function () {
+  forEachConfig((calibration) => {
+    const { strike, sigma, maturity, gamma, delta, decimalsRisky } = calibration
+    const riskyPerLp = parseWei(1, decimalsRisky).sub(parseWei(delta, decimalsRisky))
+    const delLiquidity = parseWei('1', 18)
+    const { pool } = VirtualPool.create(calibration, riskyPerLp, delLiquidity, true)
+
+    it('creates a pool with the reserves of the exact model', async function () {
+      await this.contracts.router.create(
+        strike.raw,
+        sigma.raw,
+        maturity.raw,
+        gamma.raw,
+        riskyPerLp.raw,
+        delLiquidity.raw,
+        HashZero
+      )
+      const reserve = await this.contracts.engine.reserves(calibration.poolId(this.contracts.engine.address))
+      expect(reserve.reserveRisky).to.be.eq(pool.reserveRisky.raw)
+      expect(reserve.reserveStable).to.be.eq(pool.reserveStable.raw)
+      expect(reserve.liquidity).to.be.eq(pool.liquidity.raw)
+    })
+
+    it('increases the liquidity of the position, less the 1000 wei burnt', async function () {
+      await expect(() =>
+        this.contracts.router.create(
+          strike.raw,
+          sigma.raw,
+          maturity.raw,
+          gamma.raw,
+          riskyPerLp.raw,
+          delLiquidity.raw,
+          HashZero
+        )
+      ).to.increasePositionLiquidity(
+        this.contracts.engine,
+        this.contracts.router.address,
+        calibration.poolId(this.contracts.engine.address),
+        delLiquidity.sub(await this.contracts.engine.MIN_LIQUIDITY()).raw
+      )
+    })
+  })
+})
@@ -77,6 +77,14 @@ TestPools.forEach(function (pool: PoolState) {
         )
       })
 
+      it('keeps the engine solvent', async function () {
+        await expect(() =>
+          this.contracts.router.deposit(this.signers[0].address, parseWei('500').raw, parseWei('250').raw, HashZero)
+        ).to.keepEngineSolvent(this.contracts.engine, [], [this.signers[0].address, this.contracts.router.address], {
+          exact: true,
+        })
+      })
+
       it('increases the previous margin when called another time', async function () {
         await this.contracts.router.deposit(
           this.signers[0].address,
@@ -1,10 +1,11 @@
 import { ethers } from 'hardhat'
-import { parseWei } from 'web3-units'
+import { parseWei, Wei } from 'web3-units'
 import { constants, Wallet } from 'ethers'
 
 import expect from '../../../shared/expect'
-import { computePoolId } from '../../../shared/utils'
-import { testContext } from '../../../shared/testContext'
+import { computePoolId } from '../../../../src/utils'
+import { forEachConfig, testContext } from '../../../shared/testContext'
+import { VirtualPool } from '../../../../src/virtualPool'
 import { PoolState, TestPools } from '../../../shared/poolConfigs'
 import { engineFixture } from '../../../shared/fixtures'
 import { usePool, useLiquidity, useTokens, useApproveAll } from '../../../shared/hooks'
@@ -121,6 +122,14 @@ TestPools.forEach(function (pool: PoolState) {
             .to.emit(this.contracts.engine, 'Remove')
             .withArgs(this.contracts.router.address, poolId, delRisky.raw, delStable.raw, delLiquidity.raw)
         })
+
+        it('keeps the engine solvent', async function () {
+          await expect(() =>
+            this.contracts.router.removeToMargin(poolId, delLiquidity.raw, HashZero)
+          ).to.keepEngineSolvent(this.contracts.engine, [poolId], [this.contracts.router.address], {
+            exact: true,
+          })
+        })
       })
 
       describe('fail cases', function () {
@@ -221,6 +230,14 @@ TestPools.forEach(function (pool: PoolState) {
             .to.emit(this.contracts.engine, 'Remove')
             .withArgs(this.contracts.router.address, poolId, delRisky.raw, delStable.raw, delLiquidity.raw)
         })
+
+        it('keeps the engine solvent', async function () {
+          await expect(() =>
+            this.contracts.router.removeToExternal(poolId, delLiquidity.raw, HashZero)
+          ).to.keepEngineSolvent(this.contracts.engine, [poolId], [this.contracts.router.address], {
+            exact: true,
+          })
+        })
       })
 
       describe('fail cases', function () {
@@ -236,3 +253,40 @@ TestPools.forEach(function (pool: PoolState) {
     })
   })
 })
+
+testContext('remove from the generated configs', function () {
+  forEachConfig((calibration) => {
+    let poolId: string, pool: VirtualPool, delLiquidity: Wei
+
+    beforeEach(async function () {
+      ;({ poolId } = await usePool(this.signers[0], this.contracts, calibration))
+      pool = await VirtualPool.fromEngine(this.contracts.engine, poolId, calibration.referencePrice.float, true)
+      delLiquidity = new Wei(await this.contracts.engine.liquidity(this.contracts.router.address, poolId)).div(2)
+    })
+
+    it('removes to the margin the amounts of the exact model', async function () {
+      const { engine, router } = this.contracts
+      const { delRisky, delStable } = pool.remove(delLiquidity)
+
+      await expect(() => router.remove(poolId, delLiquidity.raw, HashZero)).to.increaseMargin(
+        engine,
+        router.address,
+        delRisky.raw,
+        delStable.raw
+      )
+      const reserve = await engine.reserves(poolId)
+      expect(reserve.reserveRisky).to.be.eq(pool.reserveRisky.raw)
+      expect(reserve.reserveStable).to.be.eq(pool.reserveStable.raw)
+      expect(reserve.liquidity).to.be.eq(pool.liquidity.raw)
+    })
+
+    it('decreases the liquidity of the position', async function () {
+      await expect(() => this.contracts.router.remove(poolId, delLiquidity.raw, HashZero)).to.decreasePositionLiquidity(
+        this.contracts.engine,
+        this.contracts.router.address,
+        poolId,
+        delLiquidity.raw
+      )
+    })
+  })
+})
@@ -4,9 +4,10 @@ import { Wei, parseWei, FixedPointX64 } from 'web3-units'
 
 import expect from '../../../shared/expect'
 import { Contracts } from '../../../../types'
-import { Calibration } from '../../../shared/calibration'
-import { testContext } from '../../../shared/testContext'
-import { VirtualPool } from '../../../shared/virtualPool'
+import { Calibration } from '../../../../src/calibration'
+import { forEachConfig, testContext } from '../../../shared/testContext'
+import { VirtualPool } from '../../../../src/virtualPool'
+import { ExactInResult, ExactOutResult, Swaps } from '../../../../src/swaps'
 import { TestPools, PoolState } from '../../../shared/poolConfigs'
 import { engineFixture } from '../../../shared/fixtures'
 import { useTokens, useLiquidity, useMargin, useApproveAll, usePool } from '../../../shared/hooks'
@@ -16,16 +17,56 @@ import { createFixtureLoader } from 'ethereum-waffle'
  * @dev The forward math function for calculating the stable reserves given a risky
  * reserve will yield a result thats accurate and precise. The inverse trading direction function
  * is not precise, because we use approximations in the forward function.
- * This has the effect of some error when calculating in the inverse swap direction on-chain.
- * Additionally, this error is a little worse for lower decimal tokens.
- * For example, this error covers the 6 decimal case, but an error of 0.00737 would suffice for 18 decimals.
- * Therefore, to calculate a precise trade in the inverse direction, a numerical method should be used
- * on the forward math function that has the approximations.
+ * This has the effect of some error when calculating in the inverse swap direction on-chain,
+ * which is larger than 1% in the out of the money pool.
+ * Therefore, the trades in the inverse direction are quoted by `Swaps`, which solves them
+ * numerically on the engine's fixed point forward math function.
  */
-const INVERSE_DIRECTION_ERROR = 0.01 //0.0075
 const BOOL_CASES = [true, false]
+
+type SwapQuote = (
+  amount: number,
+  decimalsRisky: number,
+  decimalsStable: number,
+  reserveRisky: number,
+  reserveStable: number,
+  reserveLiquidity: number,
+  strike: number,
+  sigma: number,
+  gamma: number,
+  tauYears: number
+) => ExactInResult | ExactOutResult
+
+/**
+ * Swaps quoted by the `Swaps` model, which must pass the invariant check without any slippage.
+ */
+const SWAP_QUOTES: { riskyForStable: boolean; exactOut: boolean; quote: SwapQuote }[] = [
+  { riskyForStable: false, exactOut: false, quote: Swaps.exactStableInput },
+  { riskyForStable: true, exactOut: true, quote: Swaps.exactStableOutput },
+]
 const { HashZero } = constants
 
+/**
+ * @notice Quotes a swap of an exact amount with `Swaps`, at the reserves of a pool and the tau of its calibration
+ * @return quoted Amount out of an exact amount in, or in of an exact amount out, as a float
+ */
+function quoteSwap(quote: SwapQuote, amount: Wei, pool: VirtualPool): number {
+  const { cal } = pool
+  const result = quote(
+    amount.float,
+    cal.decimalsRisky,
+    cal.decimalsStable,
+    pool.reserveRisky.float,
+    pool.reserveStable.float,
+    pool.liquidity.float,
+    cal.strike.float,
+    cal.sigma.float,
+    cal.gamma.float,
+    cal.tau.years
+  )
+  return 'output' in result ? result.output : result.input
+}
+
 /**
  * @notice Mints tokens, approves contract, creates a pool, and adds liquidity & margin for `deployer`
  * @param deployer Wallet to receive liquidity and tokens
@@ -167,32 +208,27 @@ TestPools.forEach(function (pool: PoolState) {
                     // get the swap arguments for token deltas
                     let method: any
                     if (exactOut) {
-                      // exact out method for computing deltaIn
-                      method = riskyForStable
-                        ? this.contracts.router.getRiskyInGivenStableOut
-                        : this.contracts.router.getStableInGivenRiskyOut
                       deltaOut = maxOut.mul(1).div(2) // use half the max trade size in, arbitrary amount
-                      deltaIn = new Wei(
-                        await method(poolId, deltaOut.raw),
-                        riskyForStable ? decimalsRisky : decimalsStable
-                      )
-                      // apply the error if the trade is going in the inverse direction
-                      if (riskyForStable)
-                        deltaIn = deltaIn.mul(parseWei(1 - INVERSE_DIRECTION_ERROR)).div(VirtualPool.PRECISION)
+                      if (riskyForStable) {
+                        // inverse direction, quoted by the numerical solver of Swaps
+                        const quoted = quoteSwap(Swaps.exactStableOutput, deltaOut, virtualPool)
+                        deltaIn = parseWei(quoted.toFixed(decimalsRisky), decimalsRisky)
+                      } else {
+                        // exact out method for computing deltaIn
+                        method = this.contracts.router.getStableInGivenRiskyOut
+                        deltaIn = new Wei(await method(poolId, deltaOut.raw), decimalsStable)
+                      }
                     } else {
-                      // exact in method for computing deltaOut
-                      method = riskyForStable
-                        ? this.contracts.router.getStableOutGivenRiskyIn
-                        : this.contracts.router.getRiskyOutGivenStableIn
                       deltaIn = maxIn.mul(1).div(2) // use half the max trade size in, arbitrary amount
-                      deltaOut = new Wei(
-                        await method(poolId, deltaIn.raw),
-                        riskyForStable ? decimalsStable : decimalsRisky
-                      )
-                      // apply the error if the trade is going in the inverse direction
-                      const ON_CHAIN_SWAP_ERROR = 0.02 // to-do: fix this by using a more accurate method of computing delta in/out amounts
-                      if (!riskyForStable)
-                        deltaOut = deltaOut.mul(parseWei(1 - ON_CHAIN_SWAP_ERROR)).div(VirtualPool.PRECISION)
+                      if (riskyForStable) {
+                        // exact in method for computing deltaOut
+                        method = this.contracts.router.getStableOutGivenRiskyIn
+                        deltaOut = new Wei(await method(poolId, deltaIn.raw), decimalsStable)
+                      } else {
+                        // inverse direction, quoted by the numerical solver of Swaps
+                        const quoted = quoteSwap(Swaps.exactStableInput, deltaIn, virtualPool)
+                        deltaOut = parseWei(quoted.toFixed(decimalsRisky), decimalsRisky)
+                      }
                     }
 
                     if (deltaOut.gt(maxOut)) console.log('out more than max') // warning
@@ -215,6 +251,28 @@ TestPools.forEach(function (pool: PoolState) {
                     await expect(tx).to.emit(this.contracts.engine, 'Swap')
                   })
 
+                  it('emits the Swap event with the swapped amounts', async function () {
+                    tx = target
+                      .connect(swapper)
+                      .swap(
+                        target.address,
+                        poolId,
+                        riskyForStable,
+                        deltaIn.raw,
+                        deltaOut.raw,
+                        fromMargin,
+                        toMargin,
+                        HashZero
+                      )
+                    await expect(tx).to.emitEngineEvent(this.contracts.engine, 'Swap', {
+                      recipient: target.address,
+                      poolId,
+                      riskyForStable,
+                      deltaIn,
+                      deltaOut,
+                    })
+                  })
+
                   it('matches the actual deltaOut', async function () {
                     tx = target
                       .connect(swapper)
@@ -266,12 +324,138 @@ TestPools.forEach(function (pool: PoolState) {
                       )
                     await expect(() => tx).to.updateSpotPrice(this.contracts.engine, pool.calibration, riskyForStable)
                   })
+
+                  it('keeps the engine solvent', async function () {
+                    // pays out to the receiver, as the engine's balance does not change if it is the recipient
+                    const accounts = [swapper.address, this.contracts.router.address]
+                    await expect(() =>
+                      target
+                        .connect(swapper)
+                        .swap(
+                          receiver,
+                          poolId,
+                          riskyForStable,
+                          deltaIn.raw,
+                          deltaOut.raw,
+                          fromMargin,
+                          toMargin,
+                          HashZero
+                        )
+                    ).to.keepEngineSolvent(this.contracts.engine, [poolId], accounts, { exact: true })
+                  })
                 }
               )
             )
           })
         })
       })
+
+      SWAP_QUOTES.forEach(({ riskyForStable, exactOut, quote }) => {
+        describe(`${swapTestCaseDescription({
+          riskyForStable,
+          fromMargin: false,
+          toMargin: false,
+          exactOut,
+          signerIndex: 0,
+        })} quoted by Swaps.${quote.name}`, function () {
+          let deltaIn: Wei, deltaOut: Wei, maxDeltaOut: Wei, residual: number | undefined
+
+          beforeEach(async function () {
+            const { engine } = this.contracts
+            await engine.updateLastTimestamp(poolId) // quotes at the engine's clock, which the swap does not move
+
+            const res = await engine.reserves(poolId)
+            const cal = pool.calibration
+            const reserveRisky = new Wei(res.reserveRisky, decimalsRisky)
+            const reserveStable = new Wei(res.reserveStable, decimalsStable)
+            const liquidity = new Wei(res.liquidity)
+            const [decimalsIn, decimalsOut] = riskyForStable
+              ? [decimalsRisky, decimalsStable]
+              : [decimalsStable, decimalsRisky]
+            maxDeltaOut = Swaps.getMaxDeltaOut(riskyForStable, reserveRisky, reserveStable, cal.strike)
+            const amount = exactOut
+              ? maxDeltaOut.float / 2
+              : Swaps.getMaxDeltaIn(riskyForStable, reserveRisky, reserveStable, liquidity, cal.strike).float / 2
+
+            const result = quote(
+              amount,
+              decimalsRisky,
+              decimalsStable,
+              reserveRisky.float,
+              reserveStable.float,
+              liquidity.float,
+              cal.strike.float,
+              cal.sigma.float,
+              cal.gamma.float,
+              cal.tau.years
+            )
+            const quoted = 'output' in result ? result.output : result.input
+            const [amountIn, amountOut] = exactOut ? [quoted, amount] : [amount, quoted]
+            deltaIn = parseWei(amountIn.toFixed(decimalsIn), decimalsIn)
+            deltaOut = parseWei(amountOut.toFixed(decimalsOut), decimalsOut)
+            residual = result.residual
+          })
+
+          it('reports a residual of at least the min residual', async function () {
+            expect(residual).to.be.gte(Swaps.MIN_RESIDUAL)
+          })
+
+          it('passes the invariant check without slippage', async function () {
+            const { engine, router } = this.contracts
+            await expect(() =>
+              router.swap(router.address, poolId, riskyForStable, deltaIn.raw, deltaOut.raw, false, false, HashZero)
+            ).to.increaseInvariant(engine, poolId)
+          })
+
+          it('reverts with InvariantError if the output is raised by 1%', async function () {
+            const { router } = this.contracts
+            const raised = deltaOut.mul(101).div(100)
+            const tx = router.swap(
+              router.address,
+              poolId,
+              riskyForStable,
+              deltaIn.raw,
+              raised.raw,
+              false,
+              false,
+              HashZero
+            )
+            // the curve of the 1000% sigma pool is so flat that half the max stable in swaps almost all the risky
+            // reserves out, so 1% more underflows them
+            if (raised.gt(maxDeltaOut)) await expect(tx).to.revertWithCustomError('Panic', [0x11])
+            else await expect(tx).to.revertWithCustomError('InvariantError')
+          })
+        })
+      })
     }
   })
 })
+
+testContext('swap in the generated configs', function () {
+  forEachConfig((calibration) => {
+    let poolId: string, pool: VirtualPool
+
+    beforeEach(async function () {
+      ;({ poolId } = await usePool(this.signers[0], this.contracts, calibration))
+      pool = await VirtualPool.fromEngine(this.contracts.engine, poolId, calibration.referencePrice.float, true)
+    })
+
+    BOOL_CASES.forEach((riskyForStable) => {
+      const tokenIn = riskyForStable ? 'risky' : 'stable'
+      it(`swaps ${tokenIn} in, quoted by the exact model`, async function () {
+        const { engine, router } = this.contracts
+        const deltaOut = pool.getMaxDeltaOut(riskyForStable).div(4)
+        const { deltaIn, pool: swapped } = riskyForStable
+          ? pool.virtualSwapAmountOutStable(deltaOut)
+          : pool.virtualSwapAmountOutRisky(deltaOut)
+
+        await expect(() =>
+          router.swap(router.address, poolId, riskyForStable, deltaIn.raw, deltaOut.raw, false, false, HashZero)
+        ).to.increaseInvariant(engine, poolId)
+        const reserve = await engine.reserves(poolId)
+        expect(reserve.reserveRisky).to.be.eq(swapped.reserveRisky.raw)
+        expect(reserve.reserveStable).to.be.eq(swapped.reserveStable.raw)
+      })
+    })
+  })
+})
@@ -5,7 +5,7 @@ import { parsePercentage, parseWei } from 'web3-units'
 import expect from '../../../shared/expect'
 import { parseCalibration } from '../../../shared'
 import { testContext } from '../../../shared/testContext'
-import { computePoolId } from '../../../shared/utils'
+import { computePoolId } from '../../../../src/utils'
 import { PoolState, TestPools } from '../../../shared/poolConfigs'
 import { engineFixture } from '../../../shared/fixtures'
 import { usePool, useLiquidity, useTokens, useApproveAll } from '../../../shared/hooks'
@@ -3,7 +3,7 @@ import { constants, Wallet } from 'ethers'
 import { createFixtureLoader, deployMockContract } from 'ethereum-waffle'
 
 import expect from '../../.../../../shared/expect'
-import { computeEngineAddress } from '../../../shared'
+import { computeEngineAddress } from '../../../../src/utils'
 import { testContext } from '../../.../../../shared/testContext'
 import { PoolState, TestPools } from '../../.../../../shared/poolConfigs'
 import { engineFixture } from '../../.../../../shared/fixtures'
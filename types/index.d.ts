@@ -1,9 +1,14 @@
 import { Wallet, BigNumber } from 'ethers'
-import { Calibration } from '../test/shared/calibration'
+import { Calibration } from '../src/calibration'
 import * as ContractTypes from '../typechain'
 import { Fixture } from '@ethereum-waffle/provider'
 import { SwapTestCase } from '../test/unit/primitiveEngine/effect/swap.test'
 import { Wei } from 'web3-units'
+import { CustomErrorParams } from '../test/shared/customErrors'
+import { SolvencyOptions } from '../test/shared/solvency'
+import { EngineStateChanges, EngineStateOptions } from '../test/shared/engineState'
+import { EngineEventName } from '../src/engineEvents'
+import { EventArgsExpectation } from '../test/shared/engineEvents'
 
 export type Awaited<T> = T extends PromiseLike<infer U> ? U : T
 
@@ -36,7 +41,6 @@ declare module 'mocha' {
     signers: Wallet[]
     contracts: Contracts
     libraries: Libraries
-    configs: Configs
     loadFixture: <T>(fixture: Fixture<T>) => Promise<T>
   }
 }
@@ -56,7 +60,7 @@ export type EngineTypes = ContractTypes.PrimitiveEngine | ContractTypes.MockEngi
 declare global {
   export namespace Chai {
     interface Assertion {
-      revertWithCustomError(errorName: string, params?: any[], chainId?: number): AsyncAssertion
+      revertWithCustomError(errorName: string, params?: CustomErrorParams): AsyncAssertion
       increaseMargin(engine: EngineTypes, account: string, risky: BigNumber, stable: BigNumber): AsyncAssertion
       decreaseMargin(engine: EngineTypes, account: string, risky: BigNumber, stable: BigNumber): AsyncAssertion
       increasePositionLiquidity(
@@ -71,12 +75,42 @@ declare global {
         poolId: string,
         liquidity: BigNumber
       ): AsyncAssertion
-      increaseReserveRisky(engine: EngineTypes, poolId: string, amount: BigNumber): AsyncAssertion
-      decreaseReserveRisky(engine: EngineTypes, poolId: string, amount: BigNumber): AsyncAssertion
-      increaseReserveStable(engine: EngineTypes, poolId: string, amount: BigNumber): AsyncAssertion
-      decreaseReserveStable(engine: EngineTypes, poolId: string, amount: BigNumber): AsyncAssertion
-      increaseReserveLiquidity(engine: EngineTypes, poolId: string, amount: BigNumber): AsyncAssertion
-      decreaseReserveLiquidity(engine: EngineTypes, poolId: string, amount: BigNumber): AsyncAssertion
+      increaseReserveRisky(
+        engine: EngineTypes,
+        poolId: string,
+        amount: BigNumber,
+        options?: EngineStateOptions
+      ): AsyncAssertion
+      decreaseReserveRisky(
+        engine: EngineTypes,
+        poolId: string,
+        amount: BigNumber,
+        options?: EngineStateOptions
+      ): AsyncAssertion
+      increaseReserveStable(
+        engine: EngineTypes,
+        poolId: string,
+        amount: BigNumber,
+        options?: EngineStateOptions
+      ): AsyncAssertion
+      decreaseReserveStable(
+        engine: EngineTypes,
+        poolId: string,
+        amount: BigNumber,
+        options?: EngineStateOptions
+      ): AsyncAssertion
+      increaseReserveLiquidity(
+        engine: EngineTypes,
+        poolId: string,
+        amount: BigNumber,
+        options?: EngineStateOptions
+      ): AsyncAssertion
+      decreaseReserveLiquidity(
+        engine: EngineTypes,
+        poolId: string,
+        amount: BigNumber,
+        options?: EngineStateOptions
+      ): AsyncAssertion
       updateReserveBlockTimestamp(engine: EngineTypes, poolId: string, blockTimestamp: number): AsyncAssertion
       updateReserveCumulativeRisky(
         engine: EngineTypes,
@@ -101,6 +135,18 @@ declare global {
         amountOut?: Wei
       ): AsyncAssertion
       increaseInvariant(engine: EngineTypes, poolId: string): AsyncAssertion
+      keepEngineSolvent(
+        engine: EngineTypes,
+        poolIds: string[],
+        accounts: string[],
+        options?: SolvencyOptions
+      ): AsyncAssertion
+      changeEngineState(engine: EngineTypes, changes: EngineStateChanges, options?: EngineStateOptions): AsyncAssertion
+      emitEngineEvent<Name extends EngineEventName>(
+        engine: EngineTypes,
+        name: Name,
+        expected?: EventArgsExpectation<Name>
+      ): AsyncAssertion
     }
   }
 }